@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+import { debug } from './logger';
+
+export interface ServerCredentials {
+    password?: string;
+    token?: string;
+}
+
+// 服务器凭据存储：基于 VS Code SecretStorage，按引用（服务器ID 或镜像引用）保存密码与令牌
+export class CredentialStore {
+    private static instance: CredentialStore;
+    private static readonly keyPrefix = 'magicApi.credentials:';
+
+    private constructor(private secrets: vscode.SecretStorage) {}
+
+    public static initialize(secrets: vscode.SecretStorage): CredentialStore {
+        if (!CredentialStore.instance) {
+            CredentialStore.instance = new CredentialStore(secrets);
+        }
+        return CredentialStore.instance;
+    }
+
+    // 未初始化时返回 null（例如扩展尚未激活完成）
+    public static getInstance(): CredentialStore | null {
+        return CredentialStore.instance || null;
+    }
+
+    // 从配置对象中拆分出凭据（用于写入 SecretStorage 前剥离明文字段）
+    public static pick(obj: { password?: string; token?: string } | null | undefined): ServerCredentials {
+        const creds: ServerCredentials = {};
+        if (obj?.password) creds.password = obj.password;
+        if (obj?.token) creds.token = obj.token;
+        return creds;
+    }
+
+    public static isEmpty(creds: ServerCredentials | null | undefined): boolean {
+        return !creds || (!creds.password && !creds.token);
+    }
+
+    async get(ref: string): Promise<ServerCredentials | undefined> {
+        try {
+            const raw = await this.secrets.get(CredentialStore.keyPrefix + ref);
+            return raw ? JSON.parse(raw) as ServerCredentials : undefined;
+        } catch (e) {
+            debug(`读取凭据失败: ref=${ref} ${String(e)}`);
+            return undefined;
+        }
+    }
+
+    async set(ref: string, creds: ServerCredentials): Promise<void> {
+        if (CredentialStore.isEmpty(creds)) {
+            await this.delete(ref);
+            return;
+        }
+        await this.secrets.store(CredentialStore.keyPrefix + ref, JSON.stringify(CredentialStore.pick(creds)));
+    }
+
+    async delete(ref: string): Promise<void> {
+        try { await this.secrets.delete(CredentialStore.keyPrefix + ref); } catch {}
+    }
+}
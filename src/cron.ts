@@ -0,0 +1,349 @@
+// cron 表达式解析与下次执行时间计算（Spring 风格：秒 分 时 日 月 周 [年]）
+// 周字段 0 与 7 均表示周日；日与周同时指定时需同时满足（与 Spring CronExpression 一致）
+
+export type CronFieldName = 'second' | 'minute' | 'hour' | 'dayOfMonth' | 'month' | 'dayOfWeek' | 'year';
+
+export const CRON_FIELD_LABELS: Record<CronFieldName, string> = {
+    second: '秒',
+    minute: '分',
+    hour: '时',
+    dayOfMonth: '日',
+    month: '月',
+    dayOfWeek: '周',
+    year: '年',
+};
+
+const FIELD_ORDER: CronFieldName[] = ['second', 'minute', 'hour', 'dayOfMonth', 'month', 'dayOfWeek', 'year'];
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const DAY_LABELS = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+
+// 常用执行计划：属性面板的下拉选项与 .meta.json 中的片段补全共用；snippet 为可调整参数的片段写法
+export interface CronPreset {
+    label: string;
+    cron: string;
+    snippet?: string;
+}
+
+export const CRON_PRESETS: CronPreset[] = [
+    { label: '每分钟', cron: '0 * * * * ?' },
+    { label: '每 5 分钟', cron: '0 0/5 * * * ?', snippet: '0 0/${1:5} * * * ?' },
+    { label: '每小时', cron: '0 0 * * * ?', snippet: '0 ${1:0} * * * ?' },
+    { label: '每天 0 点', cron: '0 0 0 * * ?', snippet: '0 ${2:0} ${1:0} * * ?' },
+    { label: '工作日 9 点', cron: '0 0 9 ? * MON-FRI', snippet: '0 ${2:0} ${1:9} ? * MON-FRI' },
+    { label: '每周一 0 点', cron: '0 0 0 ? * MON', snippet: '0 0 ${2:0} ? * ${1|MON,TUE,WED,THU,FRI,SAT,SUN|}' },
+    { label: '每月 1 日 0 点', cron: '0 0 0 1 * ?', snippet: '0 0 ${2:0} ${1:1} * ?' },
+    { label: '每月最后一天 0 点', cron: '0 0 0 L * ?', snippet: '0 0 ${1:0} L * ?' },
+];
+
+export interface CronExpression {
+    source: string;
+    fields: Record<CronFieldName, string>; // 原始字段文本（年字段缺省为 *）
+    seconds: Set<number>;
+    minutes: Set<number>;
+    hours: Set<number>;
+    months: Set<number>; // 1-12
+    years: Set<number> | null; // null 表示任意年份
+    matchesDay(date: Date): boolean;
+}
+
+export interface CronError {
+    message: string;
+    field?: CronFieldName;
+    fieldIndex?: number;
+}
+
+class CronSyntaxError extends Error {
+    constructor(message: string, readonly field?: CronFieldName) {
+        super(message);
+    }
+}
+
+function lastDayOfMonth(year: number, month: number): number {
+    return new Date(year, month, 0).getDate(); // month 为 1-12
+}
+
+function parseValue(text: string, field: CronFieldName, min: number, max: number, names?: string[]): number {
+    const upper = text.toUpperCase();
+    let value: number;
+    if (names && names.includes(upper)) {
+        value = names.indexOf(upper) + (field === 'month' ? 1 : 0);
+    } else if (/^\d+$/.test(text)) {
+        value = Number(text);
+    } else {
+        throw new CronSyntaxError(`无法识别的值「${text}」`, field);
+    }
+    if (value < min || value > max) throw new CronSyntaxError(`「${text}」超出范围 ${min}-${max}`, field);
+    return value;
+}
+
+// 解析数字字段：支持 *、?、列表、范围、步长与名称
+function parseNumbers(text: string, field: CronFieldName, min: number, max: number, names?: string[]): Set<number> {
+    const values = new Set<number>();
+    for (const part of text.split(',')) {
+        if (!part) throw new CronSyntaxError('列表中存在空项', field);
+        const [rangeText, stepText, extra] = part.split('/');
+        if (extra !== undefined) throw new CronSyntaxError(`「${part}」包含多个 /`, field);
+        let step = 1;
+        if (stepText !== undefined) {
+            if (!/^\d+$/.test(stepText) || Number(stepText) === 0) throw new CronSyntaxError(`步长「${stepText}」必须为正整数`, field);
+            step = Number(stepText);
+        }
+        let start: number;
+        let end: number;
+        if (rangeText === '*' || rangeText === '?') {
+            if (rangeText === '?' && field !== 'dayOfMonth' && field !== 'dayOfWeek') throw new CronSyntaxError('? 只能用于日或周字段', field);
+            start = min;
+            end = max;
+        } else if (rangeText.includes('-')) {
+            const [a, b] = rangeText.split('-');
+            start = parseValue(a, field, min, max, names);
+            end = parseValue(b, field, min, max, names);
+            if (end < start && field !== 'dayOfWeek') throw new CronSyntaxError(`范围「${rangeText}」起始值大于结束值`, field);
+        } else {
+            start = parseValue(rangeText, field, min, max, names);
+            end = stepText !== undefined ? max : start;
+        }
+        // 周字段允许 FRI-MON 这样的环绕范围
+        if (end < start) {
+            for (let v = start; v <= max; v += step) values.add(v);
+            for (let v = min; v <= end; v += step) values.add(v);
+        } else {
+            for (let v = start; v <= end; v += step) values.add(v);
+        }
+    }
+    return values;
+}
+
+// 日字段：数字集合或 L、L-n、nW、LW
+function parseDayOfMonth(text: string): ((date: Date) => boolean) | null {
+    if (text === '*' || text === '?') return null;
+    const upper = text.toUpperCase();
+    if (upper === 'L' || /^L-\d+$/.test(upper)) {
+        const offset = upper === 'L' ? 0 : Number(upper.slice(2));
+        if (offset > 30) throw new CronSyntaxError(`「${text}」偏移超出范围`, 'dayOfMonth');
+        return (d) => d.getDate() === lastDayOfMonth(d.getFullYear(), d.getMonth() + 1) - offset;
+    }
+    if (upper === 'LW' || /^\d+W$/.test(upper)) {
+        const target = upper === 'LW' ? -1 : Number(upper.slice(0, -1));
+        if (target !== -1 && (target < 1 || target > 31)) throw new CronSyntaxError(`「${text}」超出范围 1-31`, 'dayOfMonth');
+        // 最接近目标日的工作日，不跨月
+        return (d) => {
+            const last = lastDayOfMonth(d.getFullYear(), d.getMonth() + 1);
+            let day = target === -1 ? last : Math.min(target, last);
+            const dow = new Date(d.getFullYear(), d.getMonth(), day).getDay();
+            if (dow === 6) day = day === 1 ? 3 : day - 1;
+            else if (dow === 0) day = day === last ? day - 2 : day + 1;
+            return d.getDate() === day;
+        };
+    }
+    const days = parseNumbers(text, 'dayOfMonth', 1, 31);
+    return (d) => days.has(d.getDate());
+}
+
+// 周字段：数字集合（0/7 为周日）或 nL（最后一个周 n）、n#k（第 k 个周 n）
+function parseDayOfWeek(text: string): ((date: Date) => boolean) | null {
+    if (text === '*' || text === '?') return null;
+    const upper = text.toUpperCase();
+    const last = /^(\w+)L$/.exec(upper);
+    if (last) {
+        const dow = parseValue(last[1], 'dayOfWeek', 0, 7, DAY_NAMES) % 7;
+        return (d) => d.getDay() === dow && d.getDate() + 7 > lastDayOfMonth(d.getFullYear(), d.getMonth() + 1);
+    }
+    const nth = /^(\w+)#(\d+)$/.exec(upper);
+    if (nth) {
+        const dow = parseValue(nth[1], 'dayOfWeek', 0, 7, DAY_NAMES) % 7;
+        const n = Number(nth[2]);
+        if (n < 1 || n > 5) throw new CronSyntaxError(`「${text}」中的序号必须为 1-5`, 'dayOfWeek');
+        return (d) => d.getDay() === dow && Math.ceil(d.getDate() / 7) === n;
+    }
+    const values = parseNumbers(text, 'dayOfWeek', 0, 7, DAY_NAMES);
+    const days = new Set(Array.from(values, v => v % 7));
+    return (d) => days.has(d.getDay());
+}
+
+// 解析 cron 表达式，格式错误时抛出异常（异常信息为中文描述）
+export function parseCron(source: string): CronExpression {
+    const parts = source.trim().split(/\s+/).filter(Boolean);
+    if (parts.length < 6 || parts.length > 7) {
+        throw new CronSyntaxError(`cron 表达式应包含 6 或 7 个字段（秒 分 时 日 月 周 [年]），当前为 ${parts.length} 个`);
+    }
+    const fields = {} as Record<CronFieldName, string>;
+    FIELD_ORDER.forEach((name, i) => { fields[name] = parts[i] ?? '*'; });
+    const dom = parseDayOfMonth(fields.dayOfMonth);
+    const dow = parseDayOfWeek(fields.dayOfWeek);
+    return {
+        source,
+        fields,
+        seconds: parseNumbers(fields.second, 'second', 0, 59),
+        minutes: parseNumbers(fields.minute, 'minute', 0, 59),
+        hours: parseNumbers(fields.hour, 'hour', 0, 23),
+        months: parseNumbers(fields.month, 'month', 1, 12, MONTH_NAMES),
+        years: fields.year === '*' || fields.year === '?' ? null : parseNumbers(fields.year, 'year', 1970, 2199),
+        matchesDay: (d) => (!dom || dom(d)) && (!dow || dow(d)),
+    };
+}
+
+// 校验 cron 表达式，返回 null 表示合法
+export function validateCron(source: string): CronError | null {
+    try {
+        parseCron(source);
+        return null;
+    } catch (e) {
+        const field = e instanceof CronSyntaxError ? e.field : undefined;
+        return {
+            message: field ? `${CRON_FIELD_LABELS[field]}字段: ${(e as Error).message}` : String((e as Error)?.message || e),
+            field,
+            fieldIndex: field ? FIELD_ORDER.indexOf(field) : undefined,
+        };
+    }
+}
+
+// 计算 from 之后的 count 次执行时间（本地时区）；最多向后查找 5 年
+export function nextFireTimes(expr: CronExpression, count: number, from: Date = new Date()): Date[] {
+    const result: Date[] = [];
+    const limit = from.getFullYear() + 5;
+    const t = new Date(from.getTime());
+    t.setMilliseconds(0);
+    t.setSeconds(t.getSeconds() + 1);
+    while (result.length < count && t.getFullYear() <= limit) {
+        if (expr.years && !expr.years.has(t.getFullYear())) {
+            t.setFullYear(t.getFullYear() + 1, 0, 1);
+            t.setHours(0, 0, 0);
+            continue;
+        }
+        if (!expr.months.has(t.getMonth() + 1)) {
+            t.setMonth(t.getMonth() + 1, 1);
+            t.setHours(0, 0, 0);
+            continue;
+        }
+        if (!expr.matchesDay(t)) {
+            t.setDate(t.getDate() + 1);
+            t.setHours(0, 0, 0);
+            continue;
+        }
+        if (!expr.hours.has(t.getHours())) {
+            t.setHours(t.getHours() + 1, 0, 0);
+            continue;
+        }
+        if (!expr.minutes.has(t.getMinutes())) {
+            t.setMinutes(t.getMinutes() + 1, 0);
+            continue;
+        }
+        if (!expr.seconds.has(t.getSeconds())) {
+            t.setSeconds(t.getSeconds() + 1);
+            continue;
+        }
+        result.push(new Date(t.getTime()));
+        t.setSeconds(t.getSeconds() + 1);
+    }
+    return result;
+}
+
+// 字段在表达式文本中的位置（用于把错误定位到具体字段）
+export function cronFieldOffsets(source: string): Array<{ start: number; end: number }> {
+    const result: Array<{ start: number; end: number }> = [];
+    const re = /\S+/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(source))) result.push({ start: m.index, end: m.index + m[0].length });
+    return result;
+}
+
+const FIELD_MIN: Record<CronFieldName, number> = { second: 0, minute: 0, hour: 0, dayOfMonth: 1, month: 1, dayOfWeek: 0, year: 1970 };
+
+function monthLabel(v: string): string {
+    const i = MONTH_NAMES.indexOf(v.toUpperCase());
+    return `${i >= 0 ? i + 1 : Number(v)} 月`;
+}
+
+function dayLabel(v: string): string {
+    const i = DAY_NAMES.indexOf(v.toUpperCase());
+    return DAY_LABELS[i >= 0 ? i : Number(v) % 7];
+}
+
+// 描述列表/范围/步长字段，例如「1 点至 5 点」「每 5 分钟」「从 10 分起每 15 分钟」
+function describeField(text: string, field: CronFieldName, label: (v: string) => string, unit: string): string {
+    return text.split(',').map(part => {
+        const [range, step] = part.split('/');
+        let base = '';
+        if (range.includes('-')) {
+            const [a, b] = range.split('-');
+            base = `${label(a)}至${label(b)}`;
+        } else if (range !== '*' && range !== '?') {
+            if (!step) return label(range);
+            if (Number(range) !== FIELD_MIN[field]) base = `从${label(range)}起`;
+        }
+        return step ? `${base}每 ${step} ${unit}` : base || `每${unit}`;
+    }).join('、');
+}
+
+// 固定值字段（不含 *、? 与步长）
+function isFixed(text: string): boolean {
+    return !/[*?\/]/.test(text);
+}
+
+function describeTime(f: Record<CronFieldName, string>): { text: string; clock: boolean } {
+    const single = (t: string) => /^\d+$/.test(t);
+    if (single(f.second) && single(f.minute) && single(f.hour)) {
+        const pad = (t: string) => t.padStart(2, '0');
+        return { text: `${pad(f.hour)}:${pad(f.minute)}${Number(f.second) ? `:${pad(f.second)}` : ''}`, clock: true };
+    }
+    const zero = f.minute === '0' && f.second === '0';
+    const second = f.second === '0' ? '' : describeField(f.second, 'second', v => `${v} 秒`, '秒');
+    const minute = f.minute === '*'
+        ? (isFixed(f.second) ? '每分钟' : '')
+        : zero ? '' : describeField(f.minute, 'minute', v => `${v} 分`, '分钟');
+    const hour = f.hour === '*'
+        ? (isFixed(f.minute) ? '每小时' : '')
+        : describeField(f.hour, 'hour', v => `${v} 点`, '小时') + (zero ? '整点' : '');
+    return { text: [hour, minute, second].filter(Boolean).join(' '), clock: false };
+}
+
+function describeDay(f: Record<CronFieldName, string>): string {
+    const dom = f.dayOfMonth.toUpperCase();
+    const dow = f.dayOfWeek.toUpperCase();
+    let domText = '';
+    if (dom === 'L') domText = '每月最后一天';
+    else if (dom.startsWith('L-')) domText = `每月倒数第 ${Number(dom.slice(2)) + 1} 天`;
+    else if (dom === 'LW') domText = '每月最后一个工作日';
+    else if (/^\d+W$/.test(dom)) domText = `每月最接近 ${dom.slice(0, -1)} 日的工作日`;
+    else if (dom !== '*' && dom !== '?') domText = `每月${describeField(dom, 'dayOfMonth', v => `${v} 日`, '天')}`;
+
+    let dowText = '';
+    const last = /^(\w+)L$/.exec(dow);
+    const nth = /^(\w+)#(\d+)$/.exec(dow);
+    if (last) dowText = `每月最后一个${dayLabel(last[1])}`;
+    else if (nth) dowText = `每月第 ${nth[2]} 个${dayLabel(nth[1])}`;
+    else if (dow !== '*' && dow !== '?') {
+        const text = describeField(dow, 'dayOfWeek', dayLabel, '天');
+        dowText = text.startsWith('周') ? `每${text}` : text;
+    }
+
+    if (domText && dowText) return `${domText}且为${dowText.replace(/^每(月)?/, '')}`;
+    return domText || dowText || '每天';
+}
+
+// 生成中文描述，例如「每周一至周五 09:00」「每 5 分钟」
+export function describeCron(expr: CronExpression): string {
+    const f = expr.fields;
+    const time = describeTime(f);
+    let day = describeDay(f);
+    if (f.month !== '*' && f.month !== '?') {
+        const months = describeField(f.month, 'month', monthLabel, '个月');
+        const rest = day === '每天' ? '每天' : day.replace(/^每月/, '');
+        day = `${months}的${rest}`;
+    }
+    const year = f.year === '*' || f.year === '?' ? '' : describeField(f.year, 'year', v => `${v} 年`, '年');
+    // 非固定时刻且每天执行时省略「每天」，例如「每 5 分钟」
+    const parts = [year, day === '每天' && !time.clock && !year ? '' : day, time.text];
+    return parts.filter(Boolean).join(' ').replace(/([\u4e00-\u9fa5])(\d)/g, '$1 $2');
+}
+
+// 相对时间描述，例如「3 分钟后」
+export function formatRelative(date: Date, now: Date = new Date()): string {
+    const diff = Math.round((date.getTime() - now.getTime()) / 1000);
+    if (diff < 60) return `${Math.max(diff, 0)} 秒后`;
+    if (diff < 3600) return `${Math.floor(diff / 60)} 分钟后`;
+    if (diff < 86400) return `${Math.floor(diff / 3600)} 小时后`;
+    return `${Math.floor(diff / 86400)} 天后`;
+}
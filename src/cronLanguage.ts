@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import { CRON_PRESETS, CronExpression, cronFieldOffsets, describeCron, nextFireTimes, parseCron, validateCron } from './cron';
+import { createDocumentValidator } from './documentDiagnostics';
+
+const DIAGNOSTIC_CODE = 'invalid-cron';
+const NEXT_COUNT = 5;
+
+// 文件元数据 .<name>.meta.json（排除分组元数据 .group.meta.json）
+const META_SELECTOR: vscode.DocumentSelector = [
+    { language: 'json', scheme: 'file', pattern: '**/.*.meta.json' },
+    { language: 'jsonc', scheme: 'file', pattern: '**/.*.meta.json' },
+];
+
+function isTaskMeta(doc: vscode.TextDocument): boolean {
+    const name = doc.uri.path.split('/').pop() || '';
+    return doc.uri.scheme === 'file' && /^\..+\.meta\.json$/.test(name) && name !== '.group.meta.json';
+}
+
+interface CronValue {
+    value: string;
+    range: vscode.Range; // 字符串内容（不含引号）
+    start: number; // 内容起始偏移
+}
+
+// 定位 "cron": "..." 的字符串值；不处理转义以外的 JSON 结构，元数据文件中 cron 键只出现一次
+function findCronValue(doc: vscode.TextDocument): CronValue | null {
+    const text = doc.getText();
+    const m = /"cron"\s*:\s*"((?:[^"\\\n]|\\.)*)"/.exec(text);
+    if (!m) return null;
+    const start = m.index + m[0].length - m[1].length - 1;
+    return { value: m[1], start, range: new vscode.Range(doc.positionAt(start), doc.positionAt(start + m[1].length)) };
+}
+
+// 描述与接下来的执行时间（Markdown），悬停与补全文档共用
+export function describeCronMarkdown(expr: CronExpression, count: number = NEXT_COUNT): vscode.MarkdownString {
+    const md = new vscode.MarkdownString();
+    md.appendMarkdown(`**${describeCron(expr)}**\n\n`);
+    const next = nextFireTimes(expr, count);
+    if (next.length) {
+        md.appendMarkdown(`接下来 ${next.length} 次执行（本地时间）:\n\n`);
+        md.appendMarkdown(next.map(d => `- ${d.toLocaleString()}`).join('\n'));
+    } else {
+        md.appendMarkdown('未来 5 年内不会执行');
+    }
+    return md;
+}
+
+// 注册任务元数据中 cron 字段的校验、悬停与常用计划补全
+export function registerCronLanguage(context: vscode.ExtensionContext): void {
+    const diagnostics = vscode.languages.createDiagnosticCollection('magic-api-cron');
+
+    const validate = (doc: vscode.TextDocument) => {
+        const cron = findCronValue(doc);
+        const error = cron && cron.value.trim() ? validateCron(cron.value) : null;
+        if (!cron || !error) {
+            diagnostics.delete(doc.uri);
+            return;
+        }
+        // 错误定位到具体字段，无法定位时标记整个表达式
+        let range = cron.range;
+        const field = error.fieldIndex !== undefined ? cronFieldOffsets(cron.value)[error.fieldIndex] : undefined;
+        if (field) range = new vscode.Range(doc.positionAt(cron.start + field.start), doc.positionAt(cron.start + field.end));
+        const d = new vscode.Diagnostic(range, error.message, vscode.DiagnosticSeverity.Error);
+        d.source = 'magic-api';
+        d.code = DIAGNOSTIC_CODE;
+        diagnostics.set(doc.uri, [d]);
+    };
+
+    const validator = createDocumentValidator(diagnostics, { isTarget: isTaskMeta, validate });
+
+    context.subscriptions.push(
+        diagnostics,
+        validator,
+
+        vscode.languages.registerHoverProvider(META_SELECTOR, {
+            provideHover(doc, pos) {
+                const cron = isTaskMeta(doc) ? findCronValue(doc) : null;
+                if (!cron || !cron.range.contains(pos) || !cron.value.trim()) return undefined;
+                if (validateCron(cron.value)) return undefined; // 错误信息由诊断显示
+                return new vscode.Hover(describeCronMarkdown(parseCron(cron.value)), cron.range);
+            }
+        }),
+
+        // 光标位于 "cron": "| 中时补全常用执行计划
+        vscode.languages.registerCompletionItemProvider(META_SELECTOR, {
+            provideCompletionItems(doc, pos) {
+                if (!isTaskMeta(doc)) return undefined;
+                const line = doc.lineAt(pos.line).text;
+                const m = /"cron"\s*:\s*"([^"]*)$/.exec(line.slice(0, pos.character));
+                if (!m) return undefined;
+                const start = pos.character - m[1].length;
+                const close = line.indexOf('"', pos.character);
+                const range = new vscode.Range(pos.line, start, pos.line, close >= 0 ? close : pos.character);
+                return CRON_PRESETS.map((preset, i) => {
+                    const item = new vscode.CompletionItem({ label: preset.cron, description: preset.label }, vscode.CompletionItemKind.Snippet);
+                    item.insertText = new vscode.SnippetString(preset.snippet || preset.cron);
+                    item.range = range;
+                    item.filterText = preset.cron;
+                    item.sortText = String(i).padStart(2, '0');
+                    item.documentation = describeCronMarkdown(parseCron(preset.cron), 3);
+                    return item;
+                });
+            }
+        }, '"', ' '),
+    );
+
+    validator.validateAll();
+}
@@ -0,0 +1,565 @@
+import * as vscode from 'vscode';
+import { MagicApiClient, MagicDataSourceInfo } from './magicApiClient';
+import { MirrorWorkspaceManager } from './mirrorWorkspaceManager';
+import { ServerManager } from './serverManager';
+import { ServerExplorerNode } from './serverExplorer';
+import { debug } from './logger';
+import { getNonce } from './webviewUtils';
+import { createDocumentValidator, isMagicScriptDocument } from './documentDiagnostics';
+
+export interface DataSourceKey {
+    id: string;
+    name: string;
+    key: string;
+    typedPath: string;
+}
+
+// db 模块自身的成员，db.<name>. 中出现这些名称时不视为数据源 key
+export const DB_MEMBERS = [
+    'select', 'selectInt', 'selectOne', 'selectValue', 'page', 'count', 'update', 'insert', 'batchUpdate', 'batchInsert',
+    'call', 'table', 'transaction', 'cache', 'deleteCache', 'camel', 'pascal', 'upper', 'lower', 'normal', 'dialect',
+];
+
+// 常用驱动与对应的 URL 模板
+const DRIVERS: Array<{ driver: string; url: string }> = [
+    { driver: 'com.mysql.cj.jdbc.Driver', url: 'jdbc:mysql://localhost:3306/db?useUnicode=true&characterEncoding=utf8&serverTimezone=Asia/Shanghai' },
+    { driver: 'org.postgresql.Driver', url: 'jdbc:postgresql://localhost:5432/db' },
+    { driver: 'oracle.jdbc.OracleDriver', url: 'jdbc:oracle:thin:@localhost:1521:orcl' },
+    { driver: 'com.microsoft.sqlserver.jdbc.SQLServerDriver', url: 'jdbc:sqlserver://localhost:1433;databaseName=db' },
+    { driver: 'org.mariadb.jdbc.Driver', url: 'jdbc:mariadb://localhost:3306/db' },
+    { driver: 'dm.jdbc.driver.DmDriver', url: 'jdbc:dm://localhost:5236' },
+    { driver: 'org.h2.Driver', url: 'jdbc:h2:mem:db' },
+    { driver: 'org.sqlite.JDBC', url: 'jdbc:sqlite:/path/to/db' },
+];
+
+const POOL_TYPES = ['com.zaxxer.hikari.HikariDataSource', 'com.alibaba.druid.pool.DruidDataSource', 'org.apache.commons.dbcp2.BasicDataSource'];
+
+const POOL_PROPERTIES = [
+    'maximumPoolSize', 'minimumIdle', 'connectionTimeout', 'idleTimeout', 'maxLifetime', 'connectionTestQuery',
+    'initialSize', 'maxActive', 'minIdle', 'maxWait', 'validationQuery', 'testWhileIdle',
+];
+
+const DIAGNOSTIC_CODE = 'unknown-datasource';
+const CACHE_TTL = 60 * 1000;
+
+// 保存前校验，existingKeys 为同一服务器上其他数据源的 key
+export function validateDataSource(ds: MagicDataSourceInfo, existingKeys: string[]): string[] {
+    const errors: string[] = [];
+    if (!ds.name?.trim()) errors.push('名称不能为空');
+    if (!ds.key?.trim()) errors.push('key 不能为空');
+    else if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(ds.key)) errors.push('key 只能包含字母、数字和下划线，且不能以数字开头');
+    else if (DB_MEMBERS.includes(ds.key)) errors.push(`key 不能与 db 模块方法「${ds.key}」同名`);
+    else if (existingKeys.includes(ds.key)) errors.push(`key「${ds.key}」已被其他数据源使用`);
+    if (!ds.url?.trim()) errors.push('URL 不能为空');
+    else if (!/^jdbc:/i.test(ds.url.trim())) errors.push('URL 应以 jdbc: 开头');
+    if (ds.maxRows !== undefined && (!Number.isInteger(ds.maxRows) || ds.maxRows < 0)) errors.push('最大行数必须为非负整数');
+    return errors;
+}
+
+// 连接池参数在表单中以字符串编辑，保存时还原数字与布尔值
+function normalizeProperties(props: Record<string, any> | undefined): Record<string, any> | undefined {
+    if (!props) return undefined;
+    const result: Record<string, any> = {};
+    for (const [name, raw] of Object.entries(props)) {
+        if (!name.trim()) continue;
+        const value = typeof raw === 'string' ? raw.trim() : raw;
+        if (typeof value === 'string' && /^-?\d+$/.test(value)) result[name.trim()] = Number(value);
+        else if (value === 'true' || value === 'false') result[name.trim()] = value === 'true';
+        else result[name.trim()] = value;
+    }
+    return Object.keys(result).length ? result : undefined;
+}
+
+// 屏蔽字符串与注释内容（保留偏移），避免把 SQL 文本中的 db.x. 当作脚本代码
+function maskNonCode(text: string): string {
+    return text.replace(/"""[\s\S]*?(?:"""|$)|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/g,
+        m => m.replace(/[^\n]/g, ' '));
+}
+
+// 按文档解析数据源 key：magic-api: 使用当前服务器，镜像文件使用镜像对应的服务器
+export class DataSourceKeyIndex {
+    private static instance: DataSourceKeyIndex;
+    private mirrorClients = new Map<string, MagicApiClient>();
+    private cache = new Map<string, { at: number; keys: DataSourceKey[] }>();
+    private inFlight = new Map<string, Promise<DataSourceKey[] | null>>();
+
+    private constructor(private context: vscode.ExtensionContext) {}
+
+    public static getInstance(context: vscode.ExtensionContext): DataSourceKeyIndex {
+        if (!DataSourceKeyIndex.instance) {
+            DataSourceKeyIndex.instance = new DataSourceKeyIndex(context);
+        }
+        return DataSourceKeyIndex.instance;
+    }
+
+    invalidate(): void {
+        this.cache.clear();
+    }
+
+    async resolveClient(uri: vscode.Uri): Promise<{ cacheKey: string; client: MagicApiClient } | null> {
+        const serverManager = ServerManager.getInstance();
+        if (uri.scheme === 'magic-api') {
+            const current = serverManager.getCurrentServer();
+            const client = serverManager.getCurrentClient();
+            return current && client ? { cacheKey: `server:${current.id}`, client } : null;
+        }
+        if (uri.scheme !== 'file') return null;
+        const mirrorManager = MirrorWorkspaceManager.getInstance(this.context);
+        const root = await mirrorManager.findMirrorRootForUri(uri);
+        if (!root) return null;
+        const cacheKey = `mirror:${root.toString()}`;
+        let client = this.mirrorClients.get(cacheKey);
+        if (!client) {
+            const cfg = await mirrorManager.resolveMirrorServerConfig(await mirrorManager.loadMirrorMeta(root));
+            if (!cfg) return null;
+            client = new MagicApiClient(cfg);
+            this.mirrorClients.set(cacheKey, client);
+        }
+        return { cacheKey, client };
+    }
+
+    // 返回 null 表示无法确定（未连接或请求失败），此时不做校验
+    async getKeysForDocument(uri: vscode.Uri): Promise<DataSourceKey[] | null> {
+        const resolved = await this.resolveClient(uri);
+        if (!resolved) return null;
+        const cached = this.cache.get(resolved.cacheKey);
+        if (cached && Date.now() - cached.at < CACHE_TTL) return cached.keys;
+        let pending = this.inFlight.get(resolved.cacheKey);
+        if (!pending) {
+            pending = (async () => {
+                try {
+                    const keys = await resolved.client.listDataSources();
+                    this.cache.set(resolved.cacheKey, { at: Date.now(), keys });
+                    return keys;
+                } catch (e) {
+                    debug(`读取数据源列表失败: ${String((e as any)?.message || e)}`);
+                    return null;
+                } finally {
+                    this.inFlight.delete(resolved.cacheKey);
+                }
+            })();
+            this.inFlight.set(resolved.cacheKey, pending);
+        }
+        return pending;
+    }
+}
+
+// 查找脚本中 db.<key>. 形式的数据源引用
+export function findDataSourceReferences(document: vscode.TextDocument): Array<{ key: string; range: vscode.Range }> {
+    const text = maskNonCode(document.getText());
+    const regex = /(?<![\w.$])db\s*\.\s*([A-Za-z_][A-Za-z0-9_]*)\s*\./g;
+    const refs: Array<{ key: string; range: vscode.Range }> = [];
+    let m: RegExpExecArray | null;
+    while ((m = regex.exec(text)) !== null) {
+        const key = m[1];
+        if (DB_MEMBERS.includes(key)) continue;
+        const start = m.index + m[0].lastIndexOf(key, m[0].length - 1);
+        refs.push({ key, range: new vscode.Range(document.positionAt(start), document.positionAt(start + key.length)) });
+    }
+    return refs;
+}
+
+// 数据源编辑器：每个数据源一个面板，新建的数据源保存后绑定 ID
+export class DataSourcePanel {
+    private static panels = new Map<string, DataSourcePanel>();
+    private disposables: vscode.Disposable[] = [];
+
+    private constructor(
+        private panel: vscode.WebviewPanel,
+        private panelKey: string,
+        private serverId: string,
+        private client: MagicApiClient,
+        private model: MagicDataSourceInfo,
+        private onSaved: () => void
+    ) {
+        this.panel.webview.html = this.getHtml();
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        this.panel.webview.onDidReceiveMessage((msg) => this.onMessage(msg), null, this.disposables);
+        this.post({ type: 'load', model: this.model });
+    }
+
+    public static async show(serverId: string, client: MagicApiClient, id: string | undefined, groupId: string | undefined, onSaved: () => void): Promise<void> {
+        const panelKey = `${serverId}:${id || `new-${Date.now()}`}`;
+        const existing = DataSourcePanel.panels.get(panelKey);
+        if (existing) {
+            existing.panel.reveal();
+            return;
+        }
+        let model: MagicDataSourceInfo;
+        if (id) {
+            const ds = await client.getDataSource(id).catch(e => {
+                debug(`读取数据源失败: ${id} ${String((e as any)?.message || e)}`);
+                return null;
+            });
+            if (!ds) {
+                vscode.window.showErrorMessage('无法读取数据源配置');
+                return;
+            }
+            model = ds;
+        } else {
+            model = { name: '', key: '', url: '', driverClassName: DRIVERS[0].driver, type: POOL_TYPES[0], groupId };
+        }
+        const panel = vscode.window.createWebviewPanel(
+            'magicApi.datasource',
+            id ? `数据源: ${model.name || model.key}` : '新建数据源',
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        DataSourcePanel.panels.set(panelKey, new DataSourcePanel(panel, panelKey, serverId, client, model, onSaved));
+    }
+
+    private post(msg: any): void {
+        this.panel.webview.postMessage(msg);
+    }
+
+    private async onMessage(msg: any): Promise<void> {
+        const ds: MagicDataSourceInfo = { ...this.model, ...msg?.model, properties: normalizeProperties(msg?.model?.properties) };
+        if (msg?.type === 'test') {
+            try {
+                const result = await this.client.testDataSource(ds);
+                this.post({ type: result.ok ? 'tested' : 'error', message: result.message });
+            } catch (e) {
+                this.post({ type: 'error', message: `测试连接失败: ${String((e as any)?.message || e)}` });
+            }
+            return;
+        }
+        if (msg?.type !== 'save') return;
+        try {
+            const others = (await this.client.listDataSources()).filter(d => d.id !== ds.id).map(d => d.key);
+            const errors = validateDataSource(ds, others);
+            if (errors.length) {
+                this.post({ type: 'error', message: errors.join('；') });
+                return;
+            }
+            const id = await this.client.saveDataSource(ds);
+            this.model = { ...ds, id: id || ds.id };
+            // 新建的数据源保存后按 ID 重新登记，避免重复打开
+            const key = `${this.serverId}:${this.model.id}`;
+            if (this.model.id && key !== this.panelKey) {
+                DataSourcePanel.panels.delete(this.panelKey);
+                this.panelKey = key;
+                DataSourcePanel.panels.set(key, this);
+            }
+            this.panel.title = `数据源: ${this.model.name || this.model.key}`;
+            this.post({ type: 'saved', model: this.model });
+            this.onSaved();
+        } catch (e) {
+            debug(`保存数据源失败: ${String((e as any)?.message || e)}`);
+            this.post({ type: 'error', message: String((e as any)?.message || e) });
+        }
+    }
+
+    private getHtml(): string {
+        const nonce = getNonce();
+        return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 8px 12px; max-width: 760px; }
+    input, select { background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); padding: 3px 5px; font-family: var(--vscode-editor-font-family); }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 12px; cursor: pointer; }
+    button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+    label.field { display: flex; align-items: center; gap: 8px; margin-bottom: 6px; }
+    label.field > span { width: 90px; color: var(--vscode-descriptionForeground); }
+    label.field > input { flex: 1; }
+    h3 { margin: 14px 0 4px; font-size: 1em; }
+    table { width: 100%; border-collapse: collapse; }
+    th { text-align: left; font-weight: normal; color: var(--vscode-descriptionForeground); padding: 2px; }
+    td { padding: 2px; }
+    td input { width: 100%; box-sizing: border-box; }
+    .muted { color: var(--vscode-descriptionForeground); }
+    .error { color: var(--vscode-errorForeground); }
+    .ok { color: var(--vscode-testing-iconPassed, #3c3); }
+</style>
+</head>
+<body>
+    <label class="field"><span>名称</span><input id="name" type="text"></label>
+    <label class="field"><span>key</span><input id="key" type="text" placeholder="脚本中通过 db.key 使用"></label>
+    <label class="field"><span>驱动</span><input id="driverClassName" type="text" list="drivers"></label>
+    <datalist id="drivers">${DRIVERS.map(d => `<option>${d.driver}</option>`).join('')}</datalist>
+    <label class="field"><span>URL</span><input id="url" type="text"></label>
+    <label class="field"><span>用户名</span><input id="username" type="text" autocomplete="off"></label>
+    <label class="field"><span>密码</span><input id="password" type="password" autocomplete="new-password"></label>
+    <label class="field"><span>连接池</span><input id="type" type="text" list="poolTypes"></label>
+    <datalist id="poolTypes">${POOL_TYPES.map(t => `<option>${t}</option>`).join('')}</datalist>
+    <label class="field"><span>最大行数</span><input id="maxRows" type="number" min="0" step="1" placeholder="不限制"></label>
+
+    <h3>连接池参数 <button class="secondary" id="addProp">+</button></h3>
+    <table id="props"></table>
+    <datalist id="propNames">${POOL_PROPERTIES.map(p => `<option>${p}</option>`).join('')}</datalist>
+
+    <p><button id="save">保存</button> <button id="test" class="secondary">测试连接</button> <span id="status"></span></p>
+
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const DRIVERS = ${JSON.stringify(DRIVERS)};
+    const FIELDS = ['name', 'key', 'driverClassName', 'url', 'username', 'password', 'type'];
+    let model = null;
+    let props = [];
+    const $ = (id) => document.getElementById(id);
+
+    function setStatus(text, cls) {
+        const el = $('status');
+        el.textContent = text || '';
+        el.className = cls || '';
+    }
+
+    function updateUrlPlaceholder() {
+        const tpl = DRIVERS.find(d => d.driver === $('driverClassName').value);
+        $('url').placeholder = tpl ? tpl.url : 'jdbc:...';
+    }
+
+    function renderProps() {
+        const table = $('props');
+        table.innerHTML = '<tr><th>参数</th><th>值</th><th></th></tr>';
+        props.forEach((p, i) => {
+            const tr = document.createElement('tr');
+            const cell = (el) => { const td = document.createElement('td'); td.appendChild(el); tr.appendChild(td); return el; };
+            const name = cell(document.createElement('input'));
+            name.setAttribute('list', 'propNames');
+            name.value = p[0];
+            name.oninput = () => { p[0] = name.value; };
+            const value = cell(document.createElement('input'));
+            value.value = p[1];
+            value.oninput = () => { p[1] = value.value; };
+            const remove = cell(document.createElement('button'));
+            remove.className = 'secondary';
+            remove.textContent = '×';
+            remove.onclick = () => { props.splice(i, 1); renderProps(); };
+            table.appendChild(tr);
+        });
+    }
+
+    function render() {
+        FIELDS.forEach(f => { $(f).value = model[f] ?? ''; });
+        $('maxRows').value = model.maxRows ?? '';
+        props = Object.entries(model.properties || {}).map(([k, v]) => [k, String(v)]);
+        renderProps();
+        updateUrlPlaceholder();
+    }
+
+    function collect() {
+        const m = {};
+        FIELDS.forEach(f => { m[f] = $(f).value.trim() || undefined; });
+        m.name = m.name || '';
+        m.key = m.key || '';
+        m.url = m.url || '';
+        m.maxRows = $('maxRows').value === '' ? undefined : Number($('maxRows').value);
+        m.properties = Object.fromEntries(props.filter(p => p[0].trim()).map(p => [p[0].trim(), p[1]]));
+        return m;
+    }
+
+    $('driverClassName').oninput = updateUrlPlaceholder;
+    $('addProp').onclick = () => { props.push(['', '']); renderProps(); };
+    $('save').onclick = () => {
+        setStatus('保存中...', 'muted');
+        vscode.postMessage({ type: 'save', model: collect() });
+    };
+    $('test').onclick = () => {
+        setStatus('正在连接...', 'muted');
+        vscode.postMessage({ type: 'test', model: collect() });
+    };
+
+    window.addEventListener('message', (event) => {
+        const msg = event.data;
+        if (msg.type === 'load') {
+            model = msg.model;
+            render();
+        } else if (msg.type === 'saved') {
+            model = msg.model;
+            setStatus('已保存', 'ok');
+        } else if (msg.type === 'tested') {
+            setStatus(msg.message, 'ok');
+        } else if (msg.type === 'error') {
+            setStatus(msg.message, 'error');
+        }
+    });
+</script>
+</body>
+</html>`;
+    }
+
+    private dispose(): void {
+        DataSourcePanel.panels.delete(this.panelKey);
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
+
+// 注册数据源编辑器、db.<key> 校验/补全与「插入数据源」命令
+export function registerDataSources(context: vscode.ExtensionContext, serverManager: ServerManager): void {
+    const index = DataSourceKeyIndex.getInstance(context);
+    const diagnostics = vscode.languages.createDiagnosticCollection('magic-api-datasource');
+    const selector: vscode.DocumentSelector = [
+        { language: 'magic-script', scheme: 'file' },
+        { language: 'magic-script', scheme: 'magic-api' },
+    ];
+
+    const validate = async (doc: vscode.TextDocument) => {
+        const enabled = vscode.workspace.getConfiguration('magicApi').get<boolean>('datasource.validateKeys', true);
+        const refs = enabled ? findDataSourceReferences(doc) : [];
+        if (refs.length === 0) {
+            diagnostics.delete(doc.uri);
+            return;
+        }
+        const keys = await index.getKeysForDocument(doc.uri);
+        if (!keys) {
+            diagnostics.delete(doc.uri);
+            return;
+        }
+        const known = new Set(keys.map(k => k.key));
+        const result = refs
+            .filter(ref => !known.has(ref.key))
+            .map(ref => {
+                const d = new vscode.Diagnostic(ref.range, `未配置的数据源「${ref.key}」`, vscode.DiagnosticSeverity.Warning);
+                d.source = 'magic-api';
+                d.code = DIAGNOSTIC_CODE;
+                return d;
+            });
+        diagnostics.set(doc.uri, result);
+    };
+
+    const validator = createDocumentValidator(diagnostics, { isTarget: isMagicScriptDocument, validate, delay: 500 });
+    const validateAll = () => validator.validateAll();
+
+    const onSaved = () => {
+        index.invalidate();
+        vscode.commands.executeCommand('magicApi.explorer.refresh');
+        validateAll();
+    };
+
+    const pickDataSource = async (client: MagicApiClient, placeHolder: string): Promise<DataSourceKey | undefined> => {
+        let list: DataSourceKey[];
+        try {
+            list = await client.listDataSources();
+        } catch (e) {
+            vscode.window.showErrorMessage(`读取数据源列表失败: ${String((e as any)?.message || e)}`);
+            return undefined;
+        }
+        if (list.length === 0) {
+            vscode.window.showInformationMessage('服务器上没有配置数据源');
+            return undefined;
+        }
+        const picked = await vscode.window.showQuickPick(
+            list.map(ds => ({ label: ds.key, description: ds.name !== ds.key ? ds.name : undefined, detail: ds.typedPath, ds })),
+            { placeHolder }
+        );
+        return picked?.ds;
+    };
+
+    context.subscriptions.push(
+        diagnostics,
+        validator,
+        vscode.workspace.onDidChangeConfiguration(e => { if (e.affectsConfiguration('magicApi.datasource')) validateAll(); }),
+        serverManager.onServerChanged(() => { index.invalidate(); validateAll(); }),
+
+        // db. 之后补全已配置的数据源 key
+        vscode.languages.registerCompletionItemProvider(selector, {
+            async provideCompletionItems(doc, pos) {
+                const prefix = doc.lineAt(pos.line).text.slice(0, pos.character);
+                if (!/(?<![\w.$])db\s*\.\s*[A-Za-z_0-9]*$/.test(prefix)) return undefined;
+                const keys = await index.getKeysForDocument(doc.uri);
+                return (keys || []).map(ds => {
+                    const item = new vscode.CompletionItem(ds.key, vscode.CompletionItemKind.Module);
+                    item.detail = `数据源 ${ds.name}`;
+                    item.documentation = new vscode.MarkdownString(`\`${ds.typedPath}\``);
+                    item.sortText = `0_${ds.key}`;
+                    return item;
+                });
+            }
+        }, '.'),
+
+        // 未配置的数据源：提供「选择数据源」快速修复
+        vscode.languages.registerCodeActionsProvider(selector, {
+            provideCodeActions(doc, _range, ctx) {
+                return ctx.diagnostics
+                    .filter(d => d.code === DIAGNOSTIC_CODE)
+                    .map(d => {
+                        const action = new vscode.CodeAction('选择已配置的数据源...', vscode.CodeActionKind.QuickFix);
+                        action.diagnostics = [d];
+                        action.command = { command: 'magicApi.datasource.insertKey', title: '选择数据源', arguments: [doc.uri, d.range] };
+                        return action;
+                    });
+            }
+        }, { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }),
+
+        vscode.commands.registerCommand('magicApi.datasource.insertKey', async (uri?: vscode.Uri, range?: vscode.Range) => {
+            const editor = vscode.window.activeTextEditor;
+            const doc = uri ? await vscode.workspace.openTextDocument(uri) : editor?.document;
+            if (!doc || !isMagicScriptDocument(doc)) {
+                vscode.window.showErrorMessage('请在 Magic Script (.ms) 文件中执行');
+                return;
+            }
+            index.invalidate();
+            const keys = await index.getKeysForDocument(doc.uri);
+            if (!keys) {
+                vscode.window.showErrorMessage('无法读取数据源列表，请确认已连接服务器');
+                return;
+            }
+            if (keys.length === 0) {
+                vscode.window.showInformationMessage('服务器上没有配置数据源');
+                return;
+            }
+            const picked = await vscode.window.showQuickPick(
+                keys.map(ds => ({ label: ds.key, description: ds.name !== ds.key ? ds.name : undefined, detail: ds.typedPath })),
+                { placeHolder: '选择数据源' }
+            );
+            if (!picked) return;
+            const edit = new vscode.WorkspaceEdit();
+            if (range) {
+                edit.replace(doc.uri, range, picked.label);
+            } else {
+                if (!editor || editor.document !== doc) return;
+                const pos = editor.selection.active;
+                const prefix = doc.lineAt(pos.line).text.slice(0, pos.character);
+                edit.replace(doc.uri, editor.selection, /(?<![\w.$])db\s*\.\s*$/.test(prefix) ? picked.label : `db.${picked.label}`);
+            }
+            await vscode.workspace.applyEdit(edit);
+        }),
+
+        vscode.commands.registerCommand('magicApi.datasource.edit', async (arg?: ServerExplorerNode | vscode.Uri) => {
+            let serverId = serverManager.getCurrentServer()?.id;
+            let id: string | undefined;
+            if (arg && !(arg instanceof vscode.Uri)) {
+                if (arg.kind !== 'file' || arg.type !== 'datasource') return;
+                serverId = arg.serverId;
+                id = arg.file.id;
+            }
+            const client = serverId ? serverManager.getClient(serverId) : null;
+            if (!serverId || !client) {
+                vscode.window.showErrorMessage('请先选择服务器');
+                return;
+            }
+            if (arg instanceof vscode.Uri && arg.scheme === 'magic-api') {
+                id = await client.resolveFileIdByPath(arg.path);
+            }
+            if (!id) id = (await pickDataSource(client, '选择要编辑的数据源'))?.id;
+            if (!id) return;
+            await DataSourcePanel.show(serverId, client, id, undefined, onSaved);
+        }),
+
+        vscode.commands.registerCommand('magicApi.datasource.create', async (arg?: ServerExplorerNode) => {
+            let serverId = serverManager.getCurrentServer()?.id;
+            let groupId: string | undefined;
+            if (arg && arg.kind !== 'server') {
+                serverId = arg.serverId;
+                if (arg.kind === 'group' && arg.type === 'datasource') groupId = arg.group.id;
+            }
+            const client = serverId ? serverManager.getClient(serverId) : null;
+            if (!serverId || !client) {
+                vscode.window.showErrorMessage('请先选择服务器');
+                return;
+            }
+            await DataSourcePanel.show(serverId, client, undefined, groupId, onSaved);
+        }),
+
+        vscode.commands.registerCommand('magicApi.datasource.refresh', () => {
+            index.invalidate();
+            validateAll();
+        }),
+    );
+
+    validateAll();
+}
@@ -0,0 +1,169 @@
+import * as vscode from 'vscode';
+import axios from 'axios';
+import { randomBytes } from 'crypto';
+import { MagicApiClient } from './magicApiClient';
+import { debug } from './logger';
+
+// 服务端临时接口：magic-api 没有查询表结构或执行 SQL 的管理接口，每次调用时创建一个只读的临时接口，
+// 调用结束后立即删除；请求带上控制台的认证头与本次生成的随机密钥
+const HELPER_GROUP = '__vscode';
+const HELPER_MARKER = 'magic-api-vscode db helper';
+const SECRET_HEADER = 'x-magic-vscode';
+const APPROVAL_KEY = 'magicApi.dbHelper.approved';
+
+export type DbHelperPayload =
+    | { action: 'columns'; datasource?: string }
+    | { action: 'page'; datasource?: string; sql: string; params: Record<string, any>; offset: number; limit: number };
+
+// 表结构查询：先按当前库/模式过滤（MySQL database()、PostgreSQL current_schema()、SQL Server schema_name()），
+// 函数不被支持或查不到结果时换下一种，最后退回排除系统库的全量查询
+const CURRENT_SCHEMA_FILTERS = ['table_schema = database()', 'table_schema = current_schema()', 'table_schema = schema_name()'];
+const SYSTEM_SCHEMA_FILTER = "table_schema not in ('information_schema', 'pg_catalog', 'mysql', 'performance_schema', 'sys')";
+
+function columnsQuery(filter: string): string {
+    return `"""
+    select table_schema, table_name, column_name, data_type, is_nullable
+    from information_schema.columns
+    where ${filter}
+    order by table_schema, table_name, ordinal_position
+"""`;
+}
+
+function buildHelperScript(secret: string, action: DbHelperPayload['action']): string {
+    const query = action === 'columns'
+        ? `for (sql in [${CURRENT_SCHEMA_FILTERS.map(columnsQuery).join(', ')}]) {
+    try {
+        var rows = ds.select(sql)
+        if (rows.size() > 0) {
+            return rows
+        }
+    } catch (e) {
+    }
+}
+return ds.select(${columnsQuery(SYSTEM_SCHEMA_FILTER)})`
+        : 'return ds.page(body.sql, body.limit, body.offset)';
+    return `// ${HELPER_MARKER}（VS Code 扩展创建的临时接口，调用后自动删除）
+if (header['${SECRET_HEADER}'] != '${secret}') {
+    exit 403, 'forbidden'
+}
+var ds = body.datasource ? db[body.datasource] : db
+var params = body.params
+${query}
+`;
+}
+
+// 查询结果的列名可能被服务端转换为驼峰或大写，按多种写法读取
+export function pickColumn(row: Record<string, any>, snake: string): any {
+    const camel = snake.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase());
+    return row[snake] ?? row[camel] ?? row[snake.toUpperCase()];
+}
+
+// 每台服务器一个实例（按服务器地址区分），同一服务器上的调用依次执行
+export class DbHelper {
+    private static helpers = new Map<string, DbHelper>();
+    private queue: Promise<unknown> = Promise.resolve();
+    private cleaned = false;
+
+    private constructor(private context: vscode.ExtensionContext, private client: MagicApiClient) {}
+
+    public static forClient(context: vscode.ExtensionContext, client: MagicApiClient): DbHelper {
+        const key = client.getServerConfig().url;
+        let helper = DbHelper.helpers.get(key);
+        if (!helper) {
+            helper = new DbHelper(context, client);
+            DbHelper.helpers.set(key, helper);
+        }
+        return helper;
+    }
+
+    private get serverUrl(): string {
+        return this.client.getServerConfig().url;
+    }
+
+    isApproved(): boolean {
+        return (this.context.globalState.get<string[]>(APPROVAL_KEY) || []).includes(this.serverUrl);
+    }
+
+    // 首次使用需要用户确认在服务器上创建临时接口
+    private async requestApproval(): Promise<boolean> {
+        if (this.isApproved()) return true;
+        const choice = await vscode.window.showWarningMessage(
+            `读取表结构与执行查询需要在 ${this.client.getServerConfig().name} 上临时创建只读接口（位于 api/${HELPER_GROUP} 分组，调用结束后立即删除）。是否继续？`,
+            { modal: true }, '继续'
+        );
+        if (choice !== '继续') return false;
+        const approved = this.context.globalState.get<string[]>(APPROVAL_KEY) || [];
+        await this.context.globalState.update(APPROVAL_KEY, [...approved, this.serverUrl]);
+        return true;
+    }
+
+    // 删除异常中断时未能删除的临时接口
+    private async cleanup(): Promise<void> {
+        if (this.cleaned) return;
+        this.cleaned = true;
+        const snapshot = await this.client.getResourceTree(true);
+        for (const entry of snapshot.byPath.values()) {
+            if (entry.isGroup || entry.groupPath !== `api/${HELPER_GROUP}`) continue;
+            const info = await this.client.getFile(entry.id);
+            if (info?.script.includes(HELPER_MARKER)) {
+                debug(`删除遗留的数据库辅助接口: ${entry.typedPath}`);
+                await this.client.deleteFile(entry.id);
+            }
+        }
+    }
+
+    // 调用临时接口，返回响应中的 data；interactive 为 false 时未经确认直接返回 null，业务失败时抛出服务端消息
+    async call<T = any>(payload: DbHelperPayload, interactive: boolean = true): Promise<T | null> {
+        if (!this.isApproved() && !(interactive && await this.requestApproval())) return null;
+        const run = this.queue.then(() => this.invoke<T>(payload));
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    private async invoke<T>(payload: DbHelperPayload): Promise<T> {
+        await this.cleanup().catch(e => debug(`清理数据库辅助接口失败: ${String(e?.message || e)}`));
+        const secret = randomBytes(24).toString('hex');
+        const name = `db_${randomBytes(4).toString('hex')}`;
+        const groupPath = `api/${HELPER_GROUP}`;
+        let groupId = (await this.client.getResourceTree()).byPath.get(groupPath)?.id;
+        const createdGroup = !groupId;
+        if (!groupId) {
+            groupId = await this.client.createGroup({ name: HELPER_GROUP, parentId: null, type: 'api', path: `/${HELPER_GROUP}` }) || undefined;
+            if (!groupId) throw new Error('创建服务器临时分组失败');
+        }
+        let id: string | undefined;
+        try {
+            id = await this.client.createFile({
+                name,
+                script: buildHelperScript(secret, payload.action),
+                groupPath,
+                type: 'api',
+                method: 'POST',
+                requestMapping: `/${name}`,
+                description: 'VS Code 扩展临时接口',
+            }) || undefined;
+            if (!id) throw new Error('创建服务器临时接口失败');
+            const path = await this.client.getApiRequestPath(id);
+            if (!path) throw new Error('无法解析服务器临时接口地址');
+            const resp = await axios.post(`${this.client.getApiBaseUrl()}${path}`, payload, {
+                headers: { ...this.client.getAuthHeaders(), [SECRET_HEADER]: secret, 'Content-Type': 'application/json' },
+                timeout: 60000,
+                validateStatus: () => true,
+            });
+            const body: any = resp.data;
+            if (body && typeof body === 'object' && 'code' in body) {
+                if (body.code === 1 || body.code === 200) return body.data as T;
+                throw new Error(String(body.message || `服务器返回错误 (${body.code})`));
+            }
+            if (resp.status >= 400) throw new Error(`HTTP ${resp.status}`);
+            return body as T;
+        } finally {
+            if (id && !(await this.client.deleteFile(id).catch(() => false))) {
+                // 下次调用时按标记重新清理
+                this.cleaned = false;
+                debug(`删除数据库临时接口失败: ${groupPath}/${name}`);
+            }
+            if (createdGroup) await this.client.deleteGroup(groupId).catch(() => false);
+        }
+    }
+}
@@ -0,0 +1,45 @@
+import * as vscode from 'vscode';
+import { debug } from './logger';
+
+// 本地或镜像中的 Magic Script 文档
+export function isMagicScriptDocument(doc: vscode.TextDocument): boolean {
+    return doc.languageId === 'magic-script' && (doc.uri.scheme === 'file' || doc.uri.scheme === 'magic-api');
+}
+
+export interface DocumentValidatorOptions {
+    isTarget: (doc: vscode.TextDocument) => boolean;
+    validate: (doc: vscode.TextDocument) => void | Promise<void>;
+    delay?: number; // 编辑后的防抖间隔（毫秒）
+}
+
+export interface DocumentValidator extends vscode.Disposable {
+    validateAll(): void;
+}
+
+// 按文档维护诊断：打开时立即校验，编辑后防抖校验，关闭时清除
+export function createDocumentValidator(diagnostics: vscode.DiagnosticCollection, options: DocumentValidatorOptions): DocumentValidator {
+    const timers = new Map<string, NodeJS.Timeout>();
+    const validate = (doc: vscode.TextDocument) => {
+        if (!options.isTarget(doc)) return;
+        Promise.resolve(options.validate(doc)).catch(e => debug(`校验文档失败: ${doc.uri.toString()} ${String(e?.message || e)}`));
+    };
+    const scheduleValidate = (doc: vscode.TextDocument) => {
+        const key = doc.uri.toString();
+        const prev = timers.get(key);
+        if (prev) clearTimeout(prev);
+        timers.set(key, setTimeout(() => { timers.delete(key); validate(doc); }, options.delay ?? 300));
+    };
+    const subscriptions = [
+        vscode.workspace.onDidOpenTextDocument(validate),
+        vscode.workspace.onDidChangeTextDocument(e => { if (options.isTarget(e.document)) scheduleValidate(e.document); }),
+        vscode.workspace.onDidCloseTextDocument(doc => diagnostics.delete(doc.uri)),
+    ];
+    return {
+        validateAll: () => vscode.workspace.textDocuments.forEach(validate),
+        dispose: () => {
+            timers.forEach(t => clearTimeout(t));
+            subscriptions.forEach(d => d.dispose());
+        },
+    };
+}
+
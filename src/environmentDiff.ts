@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+import { MagicServerConfig } from './magicApiClient';
+import { ServerManager } from './serverManager';
+import { CompareContentProvider, CompareDiffPart, CompareEntry, CompareStatus, compareSubtree, openCompareDiff } from './serverCompare';
+
+type DiffStatus = Exclude<CompareStatus, 'same'>;
+
+export type EnvironmentDiffNode =
+    | { kind: 'status'; status: DiffStatus }
+    | { kind: 'entry'; entry: CompareEntry };
+
+interface DiffResult {
+    source: MagicServerConfig;
+    target: MagicServerConfig;
+    entries: CompareEntry[];
+    comparedAt: number;
+}
+
+const STATUS_ICONS: Record<DiffStatus, string> = {
+    added: 'diff-added',
+    removed: 'diff-removed',
+    changed: 'diff-modified',
+};
+
+// 环境差异视图：按 新增/删除/变更 分类列出两台服务器间的差异
+export class EnvironmentDiffProvider implements vscode.TreeDataProvider<EnvironmentDiffNode> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<EnvironmentDiffNode | undefined>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+    private result: DiffResult | null = null;
+
+    getResult(): DiffResult | null {
+        return this.result;
+    }
+
+    setResult(result: DiffResult | null): void {
+        this.result = result;
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    private statusLabel(status: DiffStatus): string {
+        if (!this.result) return status;
+        if (status === 'added') return `仅 ${this.result.source.name} 存在`;
+        if (status === 'removed') return `仅 ${this.result.target.name} 存在`;
+        return '内容不同';
+    }
+
+    getTreeItem(node: EnvironmentDiffNode): vscode.TreeItem {
+        if (node.kind === 'status') {
+            const count = this.result?.entries.filter(e => e.status === node.status).length || 0;
+            const item = new vscode.TreeItem(this.statusLabel(node.status), vscode.TreeItemCollapsibleState.Expanded);
+            item.id = `status:${node.status}`;
+            item.description = String(count);
+            item.iconPath = new vscode.ThemeIcon(STATUS_ICONS[node.status]);
+            item.contextValue = 'magicDiffStatus';
+            return item;
+        }
+        const entry = node.entry;
+        const item = new vscode.TreeItem(entry.typedPath, vscode.TreeItemCollapsibleState.None);
+        item.id = `entry:${entry.status}:${entry.typedPath}`;
+        if (entry.status === 'changed') {
+            item.description = entry.isGroup
+                ? '分组'
+                : [entry.scriptChanged ? '脚本' : '', entry.metaChanged ? '元数据' : ''].filter(Boolean).join('、');
+        } else if (entry.isGroup) {
+            item.description = '分组';
+        }
+        item.iconPath = entry.isGroup ? vscode.ThemeIcon.Folder : new vscode.ThemeIcon(STATUS_ICONS[entry.status as DiffStatus]);
+        // 文件节点区分脚本与元数据差异，便于右键单独比较
+        item.contextValue = entry.isGroup
+            ? 'magicDiffGroup'
+            : `magicDiffFile${entry.scriptChanged ? '.script' : ''}${entry.metaChanged ? '.meta' : ''}`;
+        item.command = { command: 'magicApi.compare.open', title: '查看差异', arguments: [node] };
+        return item;
+    }
+
+    getChildren(node?: EnvironmentDiffNode): EnvironmentDiffNode[] {
+        if (!this.result) return [];
+        if (!node) {
+            return (['changed', 'added', 'removed'] as DiffStatus[])
+                .filter(status => this.result!.entries.some(e => e.status === status))
+                .map(status => ({ kind: 'status', status }));
+        }
+        if (node.kind === 'status') {
+            return this.result.entries
+                .filter(e => e.status === node.status)
+                .map(entry => ({ kind: 'entry', entry }));
+        }
+        return [];
+    }
+}
+
+// 注册环境差异视图与「比较服务器」命令
+export function registerEnvironmentDiff(context: vscode.ExtensionContext, serverManager: ServerManager): EnvironmentDiffProvider {
+    const provider = new EnvironmentDiffProvider();
+    const view = vscode.window.createTreeView('magicApiEnvironmentDiff', { treeDataProvider: provider });
+
+    const updateView = () => {
+        const result = provider.getResult();
+        if (!result) {
+            view.description = undefined;
+            view.message = undefined;
+            return;
+        }
+        view.description = `${result.source.name} → ${result.target.name} · ${new Date(result.comparedAt).toLocaleTimeString()}`;
+        view.message = result.entries.length === 0 ? '两台服务器的资源完全一致' : undefined;
+    };
+
+    const runCompare = async (source: MagicServerConfig, target: MagicServerConfig) => {
+        const sourceClient = serverManager.getClient(source.id);
+        const targetClient = serverManager.getClient(target.id);
+        if (!sourceClient || !targetClient) return;
+        try {
+            const entries = await vscode.window.withProgress(
+                { location: { viewId: 'magicApiEnvironmentDiff' } },
+                () => vscode.window.withProgress(
+                    { location: vscode.ProgressLocation.Notification, title: `比较 ${source.name} 与 ${target.name}`, cancellable: true },
+                    (progress, token) => compareSubtree(sourceClient, targetClient, '', progress, token)
+                )
+            );
+            // 已取消：保留上一次的比较结果
+            if (!entries) return;
+            CompareContentProvider.getInstance().clear();
+            provider.setResult({ source, target, entries: entries.filter(e => e.status !== 'same'), comparedAt: Date.now() });
+            updateView();
+            await vscode.commands.executeCommand('magicApiEnvironmentDiff.focus');
+        } catch (e) {
+            vscode.window.showErrorMessage(`比较服务器失败: ${String((e as any)?.message || e)}`);
+        }
+    };
+
+    const pickServer = async (placeHolder: string, exclude?: string): Promise<MagicServerConfig | undefined> => {
+        const servers = serverManager.getServers().filter(s => s.id !== exclude);
+        const current = serverManager.getCurrentServer()?.id;
+        const picked = await vscode.window.showQuickPick(
+            servers.map(s => ({ label: s.name, description: s.url, detail: s.id === current ? '当前服务器' : undefined, server: s })),
+            { placeHolder }
+        );
+        return picked?.server;
+    };
+
+    const openDiff = async (node: EnvironmentDiffNode | undefined, part: CompareDiffPart) => {
+        const result = provider.getResult();
+        if (node?.kind !== 'entry' || !result) return;
+        await openCompareDiff(node.entry, result.source.name, result.target.name, part);
+    };
+
+    context.subscriptions.push(
+        view,
+
+        vscode.commands.registerCommand('magicApi.compareServers', async () => {
+            if (serverManager.getServers().length < 2) {
+                vscode.window.showInformationMessage('至少需要配置两台服务器才能比较');
+                return;
+            }
+            const source = await pickServer('选择源服务器（例如 测试环境）');
+            if (!source) return;
+            const target = await pickServer(`将 ${source.name} 与哪台服务器比较（例如 生产环境）`, source.id);
+            if (!target) return;
+            await runCompare(source, target);
+        }),
+
+        vscode.commands.registerCommand('magicApi.compare.refresh', async () => {
+            const result = provider.getResult();
+            if (!result) {
+                await vscode.commands.executeCommand('magicApi.compareServers');
+                return;
+            }
+            await runCompare(result.source, result.target);
+        }),
+
+        vscode.commands.registerCommand('magicApi.compare.swap', async () => {
+            const result = provider.getResult();
+            if (result) await runCompare(result.target, result.source);
+        }),
+
+        vscode.commands.registerCommand('magicApi.compare.clear', () => {
+            CompareContentProvider.getInstance().clear();
+            provider.setResult(null);
+            updateView();
+        }),
+
+        vscode.commands.registerCommand('magicApi.compare.open', (node?: EnvironmentDiffNode) => openDiff(node, 'all')),
+        vscode.commands.registerCommand('magicApi.compare.openScript', (node?: EnvironmentDiffNode) => openDiff(node, 'script')),
+        vscode.commands.registerCommand('magicApi.compare.openMeta', (node?: EnvironmentDiffNode) => openDiff(node, 'meta')),
+    );
+    return provider;
+}
@@ -8,6 +8,21 @@ import { MagicApiDebugAdapterDescriptorFactory } from './debugAdapterFactory';
 import { MirrorWorkspaceManager } from './mirrorWorkspaceManager';
 import { MagicApiClient, MagicServerConfig } from './magicApiClient';
 import { registerLocalLanguageFeatures } from './localLanguageFeatures';
+import { CredentialStore } from './credentialStore';
+import { registerServerExplorer } from './serverExplorer';
+import { registerRequestRunner } from './requestRunner';
+import { registerRequestCollections } from './requestCollections';
+import { registerResourceArchive } from './resourceArchive';
+import { registerResourcePromotion } from './resourcePromotion';
+import { registerEnvironmentDiff } from './environmentDiff';
+import { registerVersionHistory } from './versionHistory';
+import { registerResourceLock } from './resourceLock';
+import { registerPropertiesPanel } from './propertiesPanel';
+import { registerDataSources } from './datasourceManager';
+import { registerSchemaExplorer } from './schemaExplorer';
+import { registerSqlRunner } from './sqlRunner';
+import { registerTaskDashboard } from './taskDashboard';
+import { registerCronLanguage } from './cronLanguage';
 
 class MagicApiDebugConfigurationProvider implements vscode.DebugConfigurationProvider {
     async provideDebugConfigurations(folder?: vscode.WorkspaceFolder): Promise<vscode.DebugConfiguration[]> {
@@ -59,9 +74,7 @@ class MagicApiDebugConfigurationProvider implements vscode.DebugConfigurationPro
                 if (srv) {
                     const mrootByConn = await mirrorManager.findMirrorRootByConnection({
                         url: srv.url,
-                        token: srv.token,
                         username: srv.username,
-                        password: srv.password,
                         lspPort: (srv as any).lspPort,
                         debugPort: (srv as any).debugPort,
                     });
@@ -101,12 +114,18 @@ class MagicApiDebugConfigurationProvider implements vscode.DebugConfigurationPro
     }
 }
 
-export function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext) {
 	console.log('Magic API extension is now active!');
     info('Magic API extension activated');
 
 	// 初始化管理器
 	const serverManager = ServerManager.getInstance();
+    // 服务器与镜像凭据保存在 SecretStorage 中（首次启用时迁移设置里的明文密码/令牌）
+    try {
+        await serverManager.initCredentials(CredentialStore.initialize(context.secrets));
+    } catch (e) {
+        info(`初始化凭据存储失败: ${String((e as any)?.message || e)}`);
+    }
 	const statusBarManager = StatusBarManager.getInstance();
 	const remoteLspClient = RemoteLspClient.getInstance();
     const mirrorManager = MirrorWorkspaceManager.getInstance(context);
@@ -120,7 +139,8 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.workspace.registerFileSystemProvider('magic-api', fileSystemProvider, {
             isCaseSensitive: true,
             isReadonly: false
-        })
+        }),
+        fileSystemProvider
     );
 
     // 挂载虚拟根到工作区（若未挂载），便于在资源管理器中浏览
@@ -137,8 +157,8 @@ export function activate(context: vscode.ExtensionContext) {
     serverManager.onServerChanged(async (serverId) => {
         const client = serverManager.getCurrentClient();
         if (client) {
-            // 更新文件系统提供者的客户端
-            (fileSystemProvider as any).client = client;
+            // 更新文件系统提供者的客户端（同时重建服务端变化检测基线）
+            fileSystemProvider.setClient(client);
 
             // 若当前不是镜像工作区，提示用户创建镜像工作区（按连接信息）
             try {
@@ -163,6 +183,24 @@ export function activate(context: vscode.ExtensionContext) {
 	// 注册命令
 	registerCommands(context, serverManager, statusBarManager, remoteLspClient);
 
+    // 注册 Magic API 资源视图（活动栏）
+    registerServerExplorer(context, serverManager, fileSystemProvider);
+    registerResourceArchive(context, serverManager);
+    registerResourcePromotion(context, serverManager);
+    registerEnvironmentDiff(context, serverManager);
+    registerVersionHistory(context, fileSystemProvider);
+    registerResourceLock(context, fileSystemProvider);
+    registerPropertiesPanel(context, fileSystemProvider);
+    registerDataSources(context, serverManager);
+    registerSchemaExplorer(context, serverManager);
+    registerSqlRunner(context, serverManager);
+    registerTaskDashboard(context, serverManager);
+    registerCronLanguage(context);
+
+    // 注册接口请求面板（发送请求）
+    registerRequestRunner(context);
+    registerRequestCollections(context);
+
 	// 注册调试适配器
 	const debugAdapterFactory = new MagicApiDebugAdapterDescriptorFactory();
 	context.subscriptions.push(
@@ -226,7 +264,7 @@ export function activate(context: vscode.ExtensionContext) {
 			const hasShown = !!context.workspaceState.get<boolean>(shownKey);
 			if (hasShown) return;
 
-			const meta = await mirrorManager.readMirrorMeta(root);
+			const meta = await mirrorManager.loadMirrorMeta(root);
 			const action = await vscode.window.showInformationMessage(
 				'检测到镜像标记文件，是否连接该镜像工作区以启用同步？',
 				'连接', '取消'
@@ -236,18 +274,8 @@ export function activate(context: vscode.ExtensionContext) {
 
 			let clientForMirror: MagicApiClient | undefined;
 			if (meta?.url) {
-				const fromManager = serverManager.getServers().find(s => s.url === meta.url);
-				const cfg: MagicServerConfig = fromManager ?? {
-					id: `mirror_${meta.url.replace(/^https?:\/\//, '').replace(/\/$/, '').replace(/[^a-zA-Z0-9._-]/g, '_')}`,
-					name: `Mirror: ${new URL(meta.url).host}`,
-					url: meta.url!,
-					token: (meta as any).token,
-					username: (meta as any).username,
-					password: (meta as any).password,
-					lspPort: (meta as any).lspPort,
-					debugPort: (meta as any).debugPort,
-				} as MagicServerConfig;
-				clientForMirror = new MagicApiClient(cfg);
+				const cfg = await mirrorManager.resolveMirrorServerConfig(meta);
+				clientForMirror = cfg ? new MagicApiClient(cfg) : undefined;
 			} else {
 				clientForMirror = serverManager.getCurrentClient() || undefined;
 			}
@@ -302,22 +330,12 @@ export function activate(context: vscode.ExtensionContext) {
             const root = folders[0].uri;
             const isMirror = await mirrorManager.isMirrorWorkspace(root);
             if (isMirror) {
-                const meta = await mirrorManager.readMirrorMeta(root);
+                const meta = await mirrorManager.loadMirrorMeta(root);
                 // 优先使用镜像元数据中的连接信息，其次使用当前服务器
                 let clientForRoot: MagicApiClient | undefined;
                 if (meta?.url) {
-                    const cfgFromManager = serverManager.getServers().find(s => s.url === meta.url);
-                    const cfg: MagicServerConfig = cfgFromManager ?? {
-                        id: `mirror_${meta.url.replace(/^https?:\/\//, '').replace(/\/$/, '').replace(/[^a-zA-Z0-9._-]/g, '_')}`,
-                        name: `Mirror: ${new URL(meta.url).host}`,
-                        url: meta.url!,
-                        token: (meta as any).token,
-                        username: (meta as any).username,
-                        password: (meta as any).password,
-                        lspPort: (meta as any).lspPort,
-                        debugPort: (meta as any).debugPort,
-                    } as MagicServerConfig;
-                    clientForRoot = new MagicApiClient(cfg);
+                    const cfg = await mirrorManager.resolveMirrorServerConfig(meta);
+                    clientForRoot = cfg ? new MagicApiClient(cfg) : undefined;
                 } else {
                     const cur = serverManager.getCurrentClient();
                     clientForRoot = cur || undefined;
@@ -361,23 +379,14 @@ export function activate(context: vscode.ExtensionContext) {
                 for (const r of roots) {
                     // 避免对工作区根重复处理
                     if (r.fsPath === root.fsPath) continue;
-                    const meta = await mirrorManager.readMirrorMeta(r);
+                    const meta = await mirrorManager.loadMirrorMeta(r);
                     if (!meta?.url) {
                         vscode.window.showWarningMessage(`发现镜像工作区(${r.fsPath})，但缺少连接信息，无法绑定服务器。请在 .magic-api-mirror.json 中配置 url 或在扩展设置中添加该服务器。`);
                         continue;
                     }
                     // 优先从 ServerManager 配置中获取完整连接信息
-                    const fromManager = serverManager.getServers().find(s => s.url === meta.url);
-                    const cfg: MagicServerConfig = fromManager ?? {
-                        id: `mirror_${meta.url.replace(/^https?:\/\//, '').replace(/\/$/, '').replace(/[^a-zA-Z0-9._-]/g, '_')}`,
-                        name: `Mirror: ${new URL(meta.url).host}`,
-                        url: meta.url!,
-                        token: (meta as any).token,
-                        username: (meta as any).username,
-                        password: (meta as any).password,
-                        lspPort: (meta as any).lspPort,
-                        debugPort: (meta as any).debugPort,
-                    } as MagicServerConfig;
+                    const cfg = await mirrorManager.resolveMirrorServerConfig(meta);
+                    if (!cfg) continue;
                     const clientForMirror = new MagicApiClient(cfg);
                     // 连接提示（子目录镜像）：是否连接该镜像工作区（可记住选择）
                     const pref = await (mirrorManager as any).getMirrorConnectPreference?.(r);
@@ -500,21 +509,11 @@ function registerCommands(
 				vscode.window.showInformationMessage('该镜像工作区已连接');
 				return;
 			}
-			const meta = await mirrorManager.readMirrorMeta(root);
+			const meta = await mirrorManager.loadMirrorMeta(root);
 			let clientForMirror: MagicApiClient | undefined;
 			if (meta?.url) {
-				const fromManager = serverManager.getServers().find(s => s.url === meta.url);
-				const cfg: MagicServerConfig = fromManager ?? {
-					id: `mirror_${meta.url.replace(/^[a-zA-Z]+:\/\//, '').replace(/\/$/, '').replace(/[^a-zA-Z0-9._-]/g, '_')}`,
-					name: `Mirror: ${new URL(meta.url).host}`,
-					url: meta.url!,
-					token: (meta as any).token,
-					username: (meta as any).username,
-					password: (meta as any).password,
-					lspPort: (meta as any).lspPort,
-					debugPort: (meta as any).debugPort,
-				} as MagicServerConfig;
-				clientForMirror = new MagicApiClient(cfg);
+				const cfg = await mirrorManager.resolveMirrorServerConfig(meta);
+				clientForMirror = cfg ? new MagicApiClient(cfg) : undefined;
 			} else {
 				clientForMirror = serverManager.getCurrentClient() || undefined;
 			}
@@ -693,7 +692,7 @@ function registerCommands(
             const mirrorRoot = await mirrorManager.findMirrorRootForUri(editor.document.uri);
             if (mirrorRoot) {
                 (config as any).cwd = mirrorRoot.fsPath;
-                const meta = await mirrorManager.readMirrorMeta(mirrorRoot);
+                const meta = await mirrorManager.loadMirrorMeta(mirrorRoot);
                 if (meta?.url) {
                     // 运行使用镜像连接信息（仅 ms 与 meta），不影响非镜像文件夹操作
                     delete (config as any).serverId;
@@ -705,17 +704,16 @@ function registerCommands(
                     (config as any).useWss = (u.protocol === 'https:');
                     (config as any).pathBase = (u.pathname || '').replace(/\/$/, '');
                     // 注入认证信息（优先 token，其次 basic）
-                    if ((meta as any).token) (config as any).token = (meta as any).token;
-                    if ((meta as any).username) (config as any).username = (meta as any).username;
-                    if ((meta as any).password) (config as any).password = (meta as any).password;
+                    const cfg = await mirrorManager.resolveMirrorServerConfig(meta);
+                    if (cfg?.token) (config as any).token = cfg.token;
+                    if (cfg?.username) (config as any).username = cfg.username;
+                    if (cfg?.password) (config as any).password = cfg.password;
                 }
             }
         } else {
             const mrootByConn = await mirrorManager.findMirrorRootByConnection({
                 url: server.url,
-                token: server.token,
                 username: server.username,
-                password: server.password,
                 lspPort: (server as any).lspPort,
                 debugPort: (server as any).debugPort,
             });
@@ -820,7 +818,7 @@ function registerCommands(
             const mirrorRoot = await mirrorManager.findMirrorRootForUri(editor.document.uri);
             if (mirrorRoot) {
                 (config as any).cwd = mirrorRoot.fsPath;
-                const meta = await mirrorManager.readMirrorMeta(mirrorRoot);
+                const meta = await mirrorManager.loadMirrorMeta(mirrorRoot);
                 if (meta?.url) {
                     // 调试使用镜像连接信息（仅 ms 与 meta），不影响非镜像文件夹操作
                     delete (config as any).serverId;
@@ -832,17 +830,16 @@ function registerCommands(
                     (config as any).useWss = (u.protocol === 'https:');
                     (config as any).pathBase = (u.pathname || '').replace(/\/$/, '');
                     // 注入认证信息（优先 token，其次 basic）
-                    if ((meta as any).token) (config as any).token = (meta as any).token;
-                    if ((meta as any).username) (config as any).username = (meta as any).username;
-                    if ((meta as any).password) (config as any).password = (meta as any).password;
+                    const cfg = await mirrorManager.resolveMirrorServerConfig(meta);
+                    if (cfg?.token) (config as any).token = cfg.token;
+                    if (cfg?.username) (config as any).username = cfg.username;
+                    if (cfg?.password) (config as any).password = cfg.password;
                 }
             }
         } else {
             const mrootByConn2 = await mirrorManager.findMirrorRootByConnection({
                 url: server.url,
-                token: server.token,
                 username: server.username,
-                password: server.password,
                 lspPort: (server as any).lspPort,
                 debugPort: (server as any).debugPort,
             });
@@ -4,47 +4,46 @@ import { ServerManager } from './serverManager';
 import { MagicFileInfo } from './magicFileSystemProvider';
 import { MirrorWorkspaceManager } from './mirrorWorkspaceManager';
 import { MAGIC_RESOURCE_TYPES, MagicResourceType } from './types';
+import { Node, childNodes, walk } from './magicScriptParser';
+import {
+    Declaration, DeclarationKind, ScriptAnalysis, analyzeDocument, declarationAt, importBindingName, isInCommentOrString, tokenAt, visibleDeclarations,
+} from './magicScriptScope';
+import { registerScriptDiagnostics } from './scriptDiagnostics';
+import { registerScriptLint } from './scriptLint';
+import { registerScriptFormatter } from './scriptFormatter';
 
 // 简单关键字列表（来源于 tmLanguage 语法定义）
 const MAGIC_KEYWORDS = [
     'import','as','var','let','const','return','break','continue','if','for','in','new','true','false','null','else','try','catch','finally','async','while','exit','and','or','throw','from','join','left','group','by','having','where','on','limit','offset','instanceof'
 ];
 
-function getWordRange(document: vscode.TextDocument, position: vscode.Position): vscode.Range | undefined {
-    const regex = /[A-Za-z_][A-Za-z0-9_]*/g;
-    const lineText = document.lineAt(position.line).text;
-    let match: RegExpExecArray | null;
-    while ((match = regex.exec(lineText)) !== null) {
-        const start = new vscode.Position(position.line, match.index);
-        const end = new vscode.Position(position.line, match.index + match[0].length);
-        const range = new vscode.Range(start, end);
-        if (range.contains(position)) return range;
-    }
-    return undefined;
+// 标识符或关键字记号的范围（字符串与注释中不返回）
+function getWordRange(document: vscode.TextDocument, analysis: ScriptAnalysis, offset: number): vscode.Range | undefined {
+    const token = tokenAt(analysis, offset);
+    if (!token || (token.type !== 'identifier' && token.type !== 'keyword')) return undefined;
+    return new vscode.Range(document.positionAt(token.start), document.positionAt(token.end));
 }
 
-function parseDeclarations(document: vscode.TextDocument): Map<string, vscode.Location> {
-    const decls = new Map<string, vscode.Location>();
-    const varDecl = /\b(var|let|const)\s+([A-Za-z_][A-Za-z0-9_]*)/g;
-    const importAlias = /\bimport\b[\s\S]*?\bas\b\s+([A-Za-z_][A-Za-z0-9_]*)/g;
-    for (let line = 0; line < document.lineCount; line++) {
-        const text = document.lineAt(line).text;
-        let m: RegExpExecArray | null;
-        varDecl.lastIndex = 0; importAlias.lastIndex = 0;
-        while ((m = varDecl.exec(text)) !== null) {
-            const name = m[2];
-            const start = new vscode.Position(line, m.index + m[1].length + 1);
-            const end = new vscode.Position(line, m.index + m[0].length);
-            decls.set(name, new vscode.Location(document.uri, new vscode.Range(start, end)));
-        }
-        while ((m = importAlias.exec(text)) !== null) {
-            const name = m[1];
-            const start = new vscode.Position(line, m.index + m[0].lastIndexOf(name));
-            const end = new vscode.Position(line, start.character + name.length);
-            decls.set(name, new vscode.Location(document.uri, new vscode.Range(start, end)));
+const DECLARATION_LABELS: Record<DeclarationKind, string> = {
+    var: '变量', let: '变量', const: '常量', import: '导入', param: '参数', loop: '循环变量', catch: '异常', linq: '别名',
+};
+
+// 声明的简短源码：取声明语句的第一行
+function declarationSnippet(text: string, declaration: Declaration): string {
+    switch (declaration.kind) {
+        case 'var': case 'let': case 'const': case 'import': {
+            const source = text.slice(declaration.node.start, declaration.node.end).split(/\r?\n/)[0];
+            return source.length > 120 ? source.slice(0, 120) + '…' : source;
         }
+        default:
+            return `(${DECLARATION_LABELS[declaration.kind]}) ${declaration.name}`;
     }
-    return decls;
+}
+
+function completionKind(declaration: Declaration): vscode.CompletionItemKind {
+    if (declaration.kind === 'import') return vscode.CompletionItemKind.Module;
+    if (declaration.node.type === 'VariableDeclaration' && declaration.node.init?.type === 'LambdaExpression') return vscode.CompletionItemKind.Function;
+    return declaration.kind === 'const' ? vscode.CompletionItemKind.Constant : vscode.CompletionItemKind.Variable;
 }
 
 type WorkbenchData = {
@@ -95,9 +94,21 @@ async function getWorkbenchDataForDocument(document: vscode.TextDocument): Promi
     return wb;
 }
 
-async function provideCompletions(remote: RemoteLspClient, document: vscode.TextDocument): Promise<vscode.CompletionItem[] | undefined> {
+async function provideCompletions(remote: RemoteLspClient, document: vscode.TextDocument, position: vscode.Position): Promise<vscode.CompletionItem[] | undefined> {
     if (remote.isRunning()) return undefined; // 远程 LSP 可用时，不提供本地补全以避免重复
+    const analysis = analyzeDocument(document);
+    const offset = document.offsetAt(position);
+    if (isInCommentOrString(analysis, offset)) return undefined;
+    // 成员访问（a.）之后不提供关键字与局部变量
+    if (/(?:\.|\?\.)\s*[\p{L}_$][\p{L}\p{N}_$]*$|(?:\.|\?\.)\s*$/u.test(document.lineAt(position.line).text.slice(0, position.character))) return undefined;
     const items: vscode.CompletionItem[] = [];
+    // 当前位置可见的局部声明
+    for (const declaration of visibleDeclarations(analysis, offset)) {
+        const item = new vscode.CompletionItem(declaration.name, completionKind(declaration));
+        item.detail = `${declarationSnippet(document.getText(), declaration)}（本地）`;
+        item.sortText = `0_${declaration.name}`;
+        items.push(item);
+    }
     for (const kw of MAGIC_KEYWORDS) {
         const item = new vscode.CompletionItem(kw, vscode.CompletionItemKind.Keyword);
         item.detail = 'Magic Script 关键字（本地）';
@@ -152,9 +163,19 @@ async function provideCompletions(remote: RemoteLspClient, document: vscode.Text
 
 async function provideHover(remote: RemoteLspClient, document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
     if (remote.isRunning()) return undefined;
-    const range = getWordRange(document, position);
+    const analysis = analyzeDocument(document);
+    const offset = document.offsetAt(position);
+    const range = getWordRange(document, analysis, offset);
     if (!range) return undefined;
     const word = document.getText(range);
+    const hit = declarationAt(analysis, offset);
+    if (hit?.declaration) {
+        const md = new vscode.MarkdownString();
+        md.appendCodeblock(declarationSnippet(document.getText(), hit.declaration), 'magic-script');
+        const refs = hit.declaration.references.length;
+        md.appendMarkdown(`${DECLARATION_LABELS[hit.declaration.kind]}，第 ${document.positionAt(hit.declaration.id.start).line + 1} 行声明，${refs} 处引用（本地）`);
+        return new vscode.Hover(md, range);
+    }
     if (MAGIC_KEYWORDS.includes(word)) {
         return new vscode.Hover({
             language: 'magic-script',
@@ -182,51 +203,137 @@ async function provideHover(remote: RemoteLspClient, document: vscode.TextDocume
     return undefined;
 }
 
-function provideDefinition(remote: RemoteLspClient, document: vscode.TextDocument, position: vscode.Position): vscode.Definition | undefined {
+// 脚本中引用其他接口或函数的路径：import '@/common/md5'（函数）、import '@get:/user/list'（接口）与 magic.invoke('/path')
+interface ScriptPathReference {
+    type?: MagicResourceType; // 未限定类型时先匹配接口再匹配函数
+    method?: string;
+    path: string;
+    start: number; // 字符串内容（不含引号）的范围
+    end: number;
+}
+
+// 可跳转的接口或函数文件
+interface ScriptTarget {
+    type: MagicResourceType;
+    urlPath: string;
+    method?: string;
+    uri: vscode.Uri;
+}
+
+function parseScriptPath(text: string, start: number, end: number, type?: MagicResourceType): ScriptPathReference | undefined {
+    const m = /^([A-Za-z]+):(.*)$/.exec(text.trim());
+    const path = '/' + (m ? m[2] : text).split('/').filter(Boolean).join('/');
+    if (path === '/') return undefined;
+    return m ? { type: 'api', method: m[1].toUpperCase(), path, start, end } : { type, path, start, end };
+}
+
+function scriptPathAt(analysis: ScriptAnalysis, offset: number): ScriptPathReference | undefined {
+    let found: ScriptPathReference | undefined;
+    walk(analysis.program, node => {
+        if (found || offset < node.start || offset > node.end) return false;
+        if (node.type === 'ImportDeclaration') {
+            if (node.sourceKind === 'string' && node.source.startsWith('@') && offset > node.sourceStart && offset < node.sourceEnd) {
+                found = parseScriptPath(node.source.slice(1), node.sourceStart + 1, node.sourceEnd - 1, 'function');
+            }
+            return false;
+        }
+        if (node.type === 'CallExpression' && node.callee.type === 'MemberExpression' && !node.callee.computed
+            && node.callee.object.type === 'Identifier' && node.callee.object.name === 'magic'
+            && node.callee.property.type === 'Identifier' && node.callee.property.name === 'invoke') {
+            const arg = node.arguments.find(a => a.start < offset && offset < a.end);
+            if (arg?.type === 'Literal' && arg.kind === 'string' && /^['"]/.test(arg.raw)) {
+                found = parseScriptPath(arg.raw.slice(1, -1), arg.start + 1, arg.end - 1);
+                if (found) return false;
+            }
+        }
+    });
+    return found;
+}
+
+function matchTargets(targets: ScriptTarget[], ref: ScriptPathReference): ScriptTarget[] {
+    const matched = targets.filter(t =>
+        t.urlPath === ref.path
+        && (ref.type ? t.type === ref.type : t.type === 'api' || t.type === 'function')
+        && (!ref.method || !t.method || t.method.toUpperCase() === ref.method));
+    return matched.sort((a, b) => (a.type === 'api' ? 0 : 1) - (b.type === 'api' ? 0 : 1));
+}
+
+// 镜像工作区：使用本地 .meta.json 计算的路径索引
+async function mirrorScriptTargets(context: vscode.ExtensionContext, document: vscode.TextDocument): Promise<ScriptTarget[]> {
+    const roots = await refreshMirrorRoots(context);
+    const docUri = document.uri.toString();
+    const root = roots.find(r => docUri.startsWith(r.toString().replace(/\/?$/, '/')));
+    return root ? mirrorSymbolsCache.get(root.toString())?.files || [] : [];
+}
+
+// magic-api: 文档：从服务器资源树计算各接口与函数的完整路径
+async function serverScriptTargets(ref: ScriptPathReference): Promise<ScriptTarget[]> {
+    const client = ServerManager.getInstance().getCurrentClient();
+    if (!client) return [];
+    const targets: ScriptTarget[] = [];
+    try {
+        const snapshot = await client.getResourceTree();
+        for (const entry of snapshot.byId.values()) {
+            if (entry.isGroup || (entry.type !== 'api' && entry.type !== 'function') || (ref.type && entry.type !== ref.type)) continue;
+            const urlPath = await client.getApiRequestPath(entry.id);
+            if (urlPath) targets.push({ type: entry.type, urlPath, method: entry.node.method, uri: vscode.Uri.parse(`magic-api:/${entry.typedPath}`) });
+        }
+    } catch {}
+    return targets;
+}
+
+async function provideDefinition(context: vscode.ExtensionContext, remote: RemoteLspClient, document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Definition | vscode.LocationLink[] | undefined> {
+    const analysis = analyzeDocument(document);
+    const offset = document.offsetAt(position);
+    // 导入路径与 magic.invoke 的路径跳转到对应文件（语言服务器不解析这些字符串）
+    const ref = scriptPathAt(analysis, offset);
+    if (ref) {
+        const targets = document.uri.scheme === 'magic-api' ? await serverScriptTargets(ref) : await mirrorScriptTargets(context, document);
+        const origin = new vscode.Range(document.positionAt(ref.start), document.positionAt(ref.end));
+        return matchTargets(targets, ref).map(t => ({ originSelectionRange: origin, targetUri: t.uri, targetRange: new vscode.Range(0, 0, 0, 0) }));
+    }
     if (remote.isRunning()) return undefined;
-    const range = getWordRange(document, position);
-    if (!range) return undefined;
-    const ident = document.getText(range);
-    const decls = parseDeclarations(document);
-    const loc = decls.get(ident);
-    return loc ? loc : undefined;
+    const declaration = declarationAt(analysis, offset)?.declaration;
+    if (!declaration) return undefined;
+    return new vscode.Location(document.uri, new vscode.Range(document.positionAt(declaration.id.start), document.positionAt(declaration.id.end)));
+}
+
+// 语句中的声明符号：lambda 初始化的变量作为函数并包含其内部声明，其余代码块中的声明展开到当前层级
+function collectSymbols(document: vscode.TextDocument, node: Node, out: vscode.DocumentSymbol[]): void {
+    const range = (start: number, end: number) => new vscode.Range(document.positionAt(start), document.positionAt(end));
+    if (node.type === 'VariableDeclaration') {
+        const isFunction = node.init?.type === 'LambdaExpression';
+        const kind = isFunction ? vscode.SymbolKind.Function : node.kind === 'const' ? vscode.SymbolKind.Constant : vscode.SymbolKind.Variable;
+        const symbol = new vscode.DocumentSymbol(node.id.name, node.kind, kind, range(node.start, node.end), range(node.id.start, node.id.end));
+        if (node.init?.type === 'LambdaExpression') collectSymbols(document, node.init.body, symbol.children);
+        out.push(symbol);
+        return;
+    }
+    if (node.type === 'ImportDeclaration') {
+        const name = importBindingName(node) || node.source;
+        const selection = node.alias ? range(node.alias.start, node.alias.end) : range(node.sourceStart, node.sourceEnd);
+        out.push(new vscode.DocumentSymbol(name, node.source, vscode.SymbolKind.Module, range(node.start, node.end), selection));
+        return;
+    }
+    // 只进入语句，不进入表达式（作为参数传递的 lambda 内部声明属于局部实现）
+    for (const child of childNodes(node)) {
+        if (child.type.endsWith('Statement') || child.type.endsWith('Declaration')) collectSymbols(document, child, out);
+    }
 }
 
 function provideDocumentSymbols(remote: RemoteLspClient, document: vscode.TextDocument): vscode.DocumentSymbol[] | undefined {
     if (remote.isRunning()) return undefined;
+    const analysis = analyzeDocument(document);
     const symbols: vscode.DocumentSymbol[] = [];
-    const decls = parseDeclarations(document);
-    for (const [name, loc] of decls) {
-        const ds = new vscode.DocumentSymbol(
-            name,
-            '',
-            vscode.SymbolKind.Variable,
-            loc.range,
-            loc.range
-        );
-        symbols.push(ds);
+    collectSymbols(document, analysis.program, symbols);
+    // 语言块 ```sql / """sql
+    for (const token of analysis.tokens) {
+        if (token.type !== 'string' || !token.lang) continue;
+        const range = new vscode.Range(document.positionAt(token.start), document.positionAt(token.end));
+        const head = new vscode.Range(range.start, document.positionAt(token.start + token.quote!.length + token.lang.length));
+        symbols.push(new vscode.DocumentSymbol(`block:${token.lang}`, '语言块', vscode.SymbolKind.Namespace, range, head));
     }
-    // 语言块 """lang
-    const blockRegex = /"""([A-Za-z_][A-Za-z0-9_]*)/g;
-    for (let line = 0; line < document.lineCount; line++) {
-        const text = document.lineAt(line).text;
-        let m: RegExpExecArray | null;
-        blockRegex.lastIndex = 0;
-        while ((m = blockRegex.exec(text)) !== null) {
-            const lang = m[1];
-            const start = new vscode.Position(line, m.index);
-            const end = new vscode.Position(line, m.index + m[0].length);
-            const ds = new vscode.DocumentSymbol(
-                `block:${lang}`,
-                '语言块',
-                vscode.SymbolKind.Namespace,
-                new vscode.Range(start, end),
-                new vscode.Range(start, end)
-            );
-            symbols.push(ds);
-        }
-    }
-    return symbols;
+    return symbols.sort((a, b) => a.range.start.compareTo(b.range.start));
 }
 
 // 使用 URL 作为工作区符号名称（服务器文件信息）
@@ -312,7 +419,7 @@ async function listLocalMsFiles(root: vscode.Uri): Promise<Array<{ type: MagicRe
 }
 
 // 本地镜像工作区符号缓存与监听器
-const mirrorSymbolsCache = new Map<string, { symbols: vscode.SymbolInformation[]; namesLower: string[] }>();
+const mirrorSymbolsCache = new Map<string, { symbols: vscode.SymbolInformation[]; namesLower: string[]; files: ScriptTarget[] }>();
 const mirrorRootWatchers = new Map<string, vscode.FileSystemWatcher>();
 
 // 重建某镜像根目录下的本地工作区符号缓存
@@ -320,6 +427,7 @@ async function rebuildLocalSymbolsForRoot(root: vscode.Uri): Promise<void> {
     const files = await listLocalMsFiles(root);
     const symbols: vscode.SymbolInformation[] = [];
     const namesLower: string[] = [];
+    const targets: ScriptTarget[] = [];
     for (const f of files) {
         const meta = await readLocalMeta(root, f.type, f.groupPathSub, f.fileName);
         // 递归读取分组 .group.meta.json，构建 URL 前缀
@@ -357,8 +465,9 @@ async function rebuildLocalSymbolsForRoot(root: vscode.Uri): Promise<void> {
         const containerName = groupPath;
         symbols.push(new vscode.SymbolInformation(name, kind, containerName, location));
         namesLower.push(urlPath.replace(/^\//, '').toLowerCase());
+        targets.push({ type: f.type, urlPath: '/' + urlPath.split('/').filter(Boolean).join('/'), method: meta?.method, uri: fileUri });
     }
-    mirrorSymbolsCache.set(root.toString(), { symbols, namesLower });
+    mirrorSymbolsCache.set(root.toString(), { symbols, namesLower, files: targets });
 }
 
 // 刷新镜像根目录与监听器，并确保初次构建缓存
@@ -455,15 +564,24 @@ export function registerLocalLanguageFeatures(context: vscode.ExtensionContext,
         for (const [, w] of mirrorRootWatchers) disposables.push(w);
     }).catch(() => {});
 
+    // 语法诊断（语言服务器未运行时）
+    disposables.push(...registerScriptDiagnostics(remoteClient));
+
+    // 语义检查规则与快速修复
+    disposables.push(...registerScriptLint());
+
+    // 文档与选区格式化
+    disposables.push(...registerScriptFormatter());
+
     // 补全
     disposables.push(
         vscode.languages.registerCompletionItemProvider({ language: 'magic-script', scheme: 'file' }, {
-            async provideCompletionItems(doc, pos) { return await provideCompletions(remoteClient, doc); }
+            async provideCompletionItems(doc, pos) { return await provideCompletions(remoteClient, doc, pos); }
         }, ...MAGIC_KEYWORDS)
     );
     disposables.push(
         vscode.languages.registerCompletionItemProvider({ language: 'magic-script', scheme: 'magic-api' }, {
-            async provideCompletionItems(doc, pos) { return await provideCompletions(remoteClient, doc); }
+            async provideCompletionItems(doc, pos) { return await provideCompletions(remoteClient, doc, pos); }
         }, ...MAGIC_KEYWORDS)
     );
 
@@ -482,12 +600,12 @@ export function registerLocalLanguageFeatures(context: vscode.ExtensionContext,
     // 定义跳转
     disposables.push(
         vscode.languages.registerDefinitionProvider({ language: 'magic-script', scheme: 'file' }, {
-            provideDefinition(doc, pos) { return provideDefinition(remoteClient, doc, pos); }
+            async provideDefinition(doc, pos) { return await provideDefinition(context, remoteClient, doc, pos); }
         })
     );
     disposables.push(
         vscode.languages.registerDefinitionProvider({ language: 'magic-script', scheme: 'magic-api' }, {
-            provideDefinition(doc, pos) { return provideDefinition(remoteClient, doc, pos); }
+            async provideDefinition(doc, pos) { return await provideDefinition(context, remoteClient, doc, pos); }
         })
     );
 
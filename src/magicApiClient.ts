@@ -17,6 +17,7 @@ export interface MagicServerConfig {
 }
 
 export interface CreateFileRequest {
+    id?: string; // 指定 ID（跨服务器同步时保留原 ID，服务端不支持时忽略）
     name: string;
     script: string;
     // 例如: "api/user" 或 "function/util"
@@ -29,9 +30,11 @@ export interface CreateFileRequest {
 }
 
 export interface CreateGroupRequest {
+    id?: string; // 指定 ID（跨服务器同步时保留原 ID，服务端不支持时忽略）
     name: string;
     parentId: string | null;
     type: MagicResourceType;
+    path?: string; // 分组 URL 路由片段
     description?: string;
 }
 
@@ -51,6 +54,66 @@ export interface MagicGroupMetaRaw {
     options?: any[];
 }
 
+// 服务端备份记录（每次保存生成一条），timestamp 同时作为版本标识
+export interface MagicBackupRecord {
+    id: string;
+    timestamp: number;
+    name?: string;
+    type?: string;
+    tag?: string;
+    createBy?: string;
+}
+
+// 数据源配置（datasource 类型资源）：key 即脚本中 db.<key> 使用的名称
+export interface MagicDataSourceInfo {
+    id?: string;
+    name: string;
+    key: string;
+    driverClassName?: string;
+    url: string;
+    username?: string;
+    password?: string;
+    type?: string; // 连接池实现类，例如 com.zaxxer.hikari.HikariDataSource
+    maxRows?: number;
+    groupId?: string;
+    properties?: Record<string, any>; // 连接池参数
+}
+
+// 资源树索引条目：分组 typedPath 形如 "api/user"，文件 typedPath 形如 "api/user/get.ms"
+export interface ResourceTreeEntry {
+    id: string;
+    type: MagicResourceType;
+    isGroup: boolean;
+    typedPath: string;
+    groupPath: string; // 所在目录（包含类型）
+    parentId?: string;
+    node: any; // 服务端原始节点数据
+    treeNode: any; // 资源树中的 { node, children } 包装
+}
+
+// 一次 /resource 拉取得到的资源树快照（带版本号与路径/ID 索引）
+export interface ResourceTreeSnapshot {
+    version: number;
+    fetchedAt: number;
+    roots: Record<string, any>;
+    dirs: string[]; // 所有分组目录（深度优先顺序）
+    byPath: Map<string, ResourceTreeEntry>;
+    byId: Map<string, ResourceTreeEntry>;
+}
+
+// 接口自身的请求路径：优先 requestMapping，未设置时使用 path（与工作区符号、资源视图一致）
+export function apiRoutePath(def: { path?: string; requestMapping?: string }): string {
+    return String(def.requestMapping || def.path || '');
+}
+
+// 由管理页地址得到接口访问的基础地址：去掉管理页路径（默认 /magic/web，自定义时为最后一级），保留应用上下文路径
+export function apiBaseUrlOf(consoleUrl: string): string {
+    const url = new URL(consoleUrl);
+    const path = url.pathname.replace(/\/+$/, '');
+    const base = /\/magic\/web$/.test(path) ? path.slice(0, -'/magic/web'.length) : path.replace(/\/[^/]*$/, '');
+    return `${url.origin}${base}`;
+}
+
 export class MagicApiClient {
     private exposeHeaders: string = 'magic-token';
     private httpClient: any;
@@ -59,6 +122,10 @@ export class MagicApiClient {
     private webPrefix: string;
     private sessionToken?: string;
     private loginInFlight?: Promise<string | null>;
+    private resourceTree?: ResourceTreeSnapshot;
+    private resourceTreeInFlight?: Promise<ResourceTreeSnapshot>;
+    private resourceTreeVersionSeq = 0;
+    private resourceTreeGeneration = 0;
 
     constructor(private config: MagicServerConfig) {
         const base = new URL(config.url);
@@ -160,109 +227,77 @@ export class MagicApiClient {
         return null;
     }
 
+    // 获取资源树快照：在有效期内复用缓存，并合并并发中的拉取请求
+    async getResourceTree(force: boolean = false): Promise<ResourceTreeSnapshot> {
+        const ttlMs = this.getResourceCacheTtl() * 1000;
+        const cached = this.resourceTree;
+        if (!force && cached && ttlMs > 0 && Date.now() - cached.fetchedAt < ttlMs) {
+            return cached;
+        }
+        if (this.resourceTreeInFlight) return this.resourceTreeInFlight;
+        const generation = this.resourceTreeGeneration;
+        const inFlight = (async () => {
+            await this.ensureLogin();
+            const resp = await this.httpClient.post('/resource');
+            const tree = resp?.data?.data || {};
+            const snapshot = this.buildResourceIndex(tree);
+            // 拉取期间若已失效，则本次结果只返回给调用方，不写入缓存
+            if (generation === this.resourceTreeGeneration) {
+                this.resourceTree = snapshot;
+            }
+            debug(`资源树已刷新: version=${snapshot.version}, 分组=${snapshot.dirs.length}, 条目=${snapshot.byPath.size}`);
+            return snapshot;
+        })();
+        this.resourceTreeInFlight = inFlight;
+        try {
+            return await inFlight;
+        } finally {
+            if (this.resourceTreeInFlight === inFlight) this.resourceTreeInFlight = undefined;
+        }
+    }
+
+    // 使资源树缓存失效（创建/保存/删除/重命名后调用）
+    invalidateResourceTree(): void {
+        this.resourceTreeGeneration++;
+        this.resourceTree = undefined;
+        this.resourceTreeInFlight = undefined;
+    }
+
+    // 当前缓存的资源树版本号（未拉取时为 0）
+    getResourceTreeVersion(): number {
+        return this.resourceTree?.version ?? 0;
+    }
+
+    private getResourceCacheTtl(): number {
+        const ttl = vscode.workspace.getConfiguration('magicApi').get<number>('resourceCacheTtl', 30);
+        return typeof ttl === 'number' && ttl > 0 ? ttl : 0;
+    }
+
     async getGroups(type: MagicResourceType): Promise<MagicGroupInfo[]> {
-        await this.ensureLogin();
-        const resp = await this.httpClient.post('/resource');
-        const tree = resp?.data?.data || {};
-        const root = tree[type];
-        if (!root) return [];
+        const snapshot = await this.getResourceTree();
         const groups: MagicGroupInfo[] = [];
-        const queue: any[] = [root];
-        while (queue.length) {
-            const cur = queue.shift();
-            const n = cur.node || {};
-            const isGroup = n && typeof n.groupId === 'undefined';
-            if (isGroup) {
-                const id = String(n.id || '');
-                const name = String(n.name || '');
-                const path = this.buildPathFromNode(root, id);
-                const info: MagicGroupInfo = {
-                    id,
-                    name,
-                    path,
-                    parentId: n.parentId ? String(n.parentId) : undefined,
-                    type: (n.type || type) as MagicResourceType,
-                };
-                groups.push(info);
-                if (id) {
-                    this.pathToIdCache.set(`${type}/${path}`, id);
-                    this.idToPathCache.set(id, `${type}/${path}`);
-                }
-            }
-            const children: any[] = cur.children || [];
-            for (const child of children) queue.push(child);
+        for (const entry of snapshot.byPath.values()) {
+            if (entry.isGroup && entry.type === type) groups.push(this.toGroupInfo(entry));
         }
         return groups;
     }
 
     async getGroup(groupId: string): Promise<MagicGroupInfo | null> {
-        await this.ensureLogin();
-        const resp = await this.httpClient.post('/resource');
-        const tree = resp?.data?.data || {};
-        const typeKeys = Object.keys(tree);
-        for (const type of typeKeys) {
-            const root = tree[type];
-            const node = this.findGroupNodeById(root, groupId);
-            if (node) {
-                const n = node.node || {};
-                const id = String(n.id || '');
-                const name = String(n.name || '');
-                const path = this.buildPathFromNode(root, id);
-                const info: MagicGroupInfo = {
-                    id,
-                    name,
-                    path,
-                    parentId: n.parentId ? String(n.parentId) : undefined,
-                    type: (n.type || type) as MagicResourceType,
-                };
-                return info;
-            }
-        }
-        return null;
+        const snapshot = await this.getResourceTree();
+        const entry = snapshot.byId.get(String(groupId));
+        return entry && entry.isGroup ? this.toGroupInfo(entry) : null;
     }
 
     async getFiles(type: MagicResourceType, groupId: string | null): Promise<MagicFileInfo[]> {
-        await this.ensureLogin();
-        const resp = await this.httpClient.post('/resource');
-        const tree = resp?.data?.data || {};
-        const root = tree[type];
-        if (!root) return [];
+        const snapshot = await this.getResourceTree();
         let target: any = null;
         if (groupId) {
-            target = this.findGroupNodeById(root, groupId);
+            const entry = snapshot.byId.get(String(groupId));
+            target = entry && entry.isGroup && entry.type === type ? entry.treeNode : null;
         } else {
-            target = root;
-        }
-        if (!target) return [];
-        const files: MagicFileInfo[] = [];
-        const children: any[] = target.children || [];
-        for (const child of children) {
-            const n = child.node || {};
-            const isFile = n && typeof n.groupId !== 'undefined';
-            if (isFile) {
-                const groupPathName = this.buildPathFromNode(root, String(n.groupId || ''));
-                const groupPath = groupPathName ? `${type}/${groupPathName}` : `${type}`;
-                const info: MagicFileInfo = {
-                    id: String(n.id || ''),
-                    name: String(n.name || ''),
-                    type: type as MagicResourceType,
-                    groupId: String(n.groupId || ''),
-                    groupPath,
-                    path: String(n.path || ''),
-                    requestMapping: String(n.requestMapping || ''),
-                    method: String(n.method || ''),
-                    description: String(n.description || ''),
-                    script: String(n.script || ''),
-                };
-                files.push(info);
-                if (info.id) {
-                    const fileKey = `${groupPath}/${info.name}.ms`;
-                    this.idToPathCache.set(info.id, fileKey);
-                    this.pathToIdCache.set(fileKey, info.id);
-                }
-            }
+            target = snapshot.roots[type];
         }
-        return files;
+        return this.collectChildFiles(snapshot, target);
     }
 
     async getFile(fileId: string): Promise<MagicFileInfo | null> {
@@ -275,44 +310,33 @@ export class MagicApiClient {
         const name = String((data as any)?.name || '');
         const script = String((data as any)?.script || '');
         const groupId = String((data as any)?.groupId || '');
-        const type = (this.inferTypeFromId(id) || 'api') as MagicResourceType;
+        let type = (this.inferTypeFromId(id) || 'api') as MagicResourceType;
 
-        // 计算 groupPath 与缓存 fileKey
+        // 计算 groupPath 与缓存 fileKey（优先使用资源树索引）
         let fileKey = this.idToPathCache.get(id);
         let groupPath = '';
+        if (!fileKey) {
+            try {
+                const snapshot = await this.getResourceTree();
+                const entry = snapshot.byId.get(id);
+                if (entry && !entry.isGroup) {
+                    fileKey = entry.typedPath;
+                } else if (groupId) {
+                    const group = snapshot.byId.get(groupId);
+                    if (group && group.isGroup) fileKey = `${group.typedPath}/${name}.ms`;
+                }
+            } catch {}
+        }
         if (fileKey) {
             const segs = fileKey.split('/').filter(Boolean);
             groupPath = segs.slice(0, -1).join('/');
+            type = (segs[0] || type) as MagicResourceType;
         } else {
-            try {
-                const r = await this.httpClient.post('/resource');
-                const tree = r?.data?.data || {};
-                const root = tree[type];
-                if (root && groupId) {
-                    const gpName = this.buildPathFromNode(root, groupId);
-                    groupPath = gpName ? `${type}/${gpName}` : `${type}`;
-                } else if (root) {
-                    const queue: any[] = [root];
-                    while (queue.length) {
-                        const cur = queue.shift();
-                        const n = cur.node || {};
-                        if (n && String(n.id || '') === id) {
-                            const gpName = this.buildPathFromNode(root, String(n.groupId || ''));
-                            groupPath = gpName ? `${type}/${gpName}` : `${type}`;
-                            break;
-                        }
-                        const children: any[] = cur.children || [];
-                        for (const child of children) queue.push(child);
-                    }
-                }
-                if (!groupPath) groupPath = `${type}`;
-            } catch {
-                groupPath = `${type}`;
-            }
+            groupPath = `${type}`;
             fileKey = `${groupPath}/${name}.ms`;
-            if (id) this.idToPathCache.set(id, fileKey);
-            if (fileKey) this.pathToIdCache.set(fileKey, id);
         }
+        if (id) this.idToPathCache.set(id, fileKey);
+        this.pathToIdCache.set(fileKey, id);
 
         const info: MagicFileInfo = {
             id,
@@ -336,6 +360,23 @@ export class MagicApiClient {
             cron: (data as any)?.cron,
             enabled: (data as any)?.enabled,
             executeOnStart: (data as any)?.executeOnStart,
+            ...(type === 'function' ? {
+                returnType: (data as any)?.returnType,
+                mappingPath: (data as any)?.mappingPath,
+                parameters: (data as any)?.parameters,
+            } : {}),
+            ...(type === 'datasource' ? {
+                key: (data as any)?.key,
+                url: (data as any)?.url,
+                driverClassName: (data as any)?.driverClassName,
+                username: (data as any)?.username,
+                password: (data as any)?.password,
+                dataSourceType: (data as any)?.type,
+                maxRows: (data as any)?.maxRows,
+                properties: (data as any)?.properties,
+            } : {}),
+            locked: this.isLocked(data),
+            lockedBy: this.isLocked(data) ? (data as any)?.lockBy || (data as any)?.lockedBy || undefined : undefined,
             extra: (data as any)?.properties,
         };
         return info;
@@ -345,12 +386,14 @@ export class MagicApiClient {
     async saveFile(file: MagicFileInfo): Promise<boolean> {
         await this.ensureLogin();
         const resp = await this.httpClient.post('/file/save', file, { headers: this.getAuthHeaders() });
+        this.invalidateResourceTree();
         return !!(resp?.data?.success || resp?.data?.code === 200);
     }
 
     async createFile(request: CreateFileRequest): Promise<string | null> {
         await this.ensureLogin();
         const resp = await this.httpClient.post('/file/create', request, { headers: this.getAuthHeaders() });
+        this.invalidateResourceTree();
         const id = resp?.data?.data || resp?.data?.id || null;
         return id;
     }
@@ -358,28 +401,151 @@ export class MagicApiClient {
     async deleteFile(fileId: string): Promise<boolean> {
         await this.ensureLogin();
         const resp = await this.httpClient.post('/file/delete', { id: fileId }, { headers: this.getAuthHeaders() });
+        this.invalidateResourceTree();
         return !!(resp?.data?.success || resp?.data?.code === 200);
     }
 
     async createGroup(request: CreateGroupRequest): Promise<string | null> {
         await this.ensureLogin();
         const resp = await this.httpClient.post('/group/create', request, { headers: this.getAuthHeaders() });
+        this.invalidateResourceTree();
         const id = resp?.data?.data || resp?.data?.id || null;
         return id;
     }
 
+    // 重命名分组：以资源树中的原始分组数据保存，保留分组的请求路径（MagicGroupInfo.path 为按名称拼接的目录路径）
+    async renameGroup(groupId: string, name: string): Promise<boolean> {
+        const entry = (await this.getResourceTree()).byId.get(String(groupId));
+        if (!entry || !entry.isGroup) return false;
+        return this.saveGroup({ ...entry.node, name });
+    }
+
     async saveGroup(group: MagicGroupInfo): Promise<boolean> {
         await this.ensureLogin();
         const resp = await this.httpClient.post('/group/save', group, { headers: this.getAuthHeaders() });
+        this.invalidateResourceTree();
         return !!(resp?.data?.success || resp?.data?.code === 200);
     }
 
     async deleteGroup(groupId: string): Promise<boolean> {
         await this.ensureLogin();
         const resp = await this.httpClient.post('/group/delete', { id: groupId }, { headers: this.getAuthHeaders() });
+        this.invalidateResourceTree();
+        return !!(resp?.data?.success || resp?.data?.code === 200);
+    }
+
+    // 锁定/解锁资源：锁定后服务端拒绝修改
+    async lockFile(fileId: string): Promise<boolean> {
+        await this.ensureLogin();
+        const resp = await this.httpClient.post('/resource/lock', null, { params: { id: fileId }, headers: this.getAuthHeaders() });
+        this.invalidateResourceTree();
+        return !!(resp?.data?.success || resp?.data?.code === 200);
+    }
+
+    async unlockFile(fileId: string): Promise<boolean> {
+        await this.ensureLogin();
+        const resp = await this.httpClient.post('/resource/unlock', null, { params: { id: fileId }, headers: this.getAuthHeaders() });
+        this.invalidateResourceTree();
         return !!(resp?.data?.success || resp?.data?.code === 200);
     }
 
+    // 立即执行一次定时任务（不影响调度），返回服务端执行结果
+    async executeTask(taskId: string): Promise<{ ok: boolean; data?: any; message?: string }> {
+        await this.ensureLogin();
+        const resp = await this.httpClient.post('/task/execute', null, { params: { id: taskId }, headers: this.getAuthHeaders() });
+        const body = resp?.data;
+        const ok = !!(body?.success || body?.code === 200);
+        return { ok, data: body?.data, message: body?.message };
+    }
+
+    // 某个资源的备份历史（新到旧）
+    async getBackupHistory(fileId: string): Promise<MagicBackupRecord[]> {
+        await this.ensureLogin();
+        const resp = await this.httpClient.get(`/backup/${encodeURIComponent(fileId)}`, { headers: this.getAuthHeaders() });
+        const list = resp?.data?.data ?? resp?.data;
+        if (!Array.isArray(list)) return [];
+        return list
+            .map((b: any) => ({
+                id: String(b?.id || fileId),
+                timestamp: Number(b?.createDate ?? b?.timestamp ?? 0),
+                name: b?.name,
+                type: b?.type,
+                tag: b?.tag || undefined,
+                createBy: b?.createBy || undefined,
+            }))
+            .filter((b: MagicBackupRecord) => b.timestamp > 0)
+            .sort((a: MagicBackupRecord, b: MagicBackupRecord) => b.timestamp - a.timestamp);
+    }
+
+    // 某个备份版本的原始内容（元数据 JSON + 分隔线 + 脚本）
+    async getBackupContent(fileId: string, timestamp: number): Promise<string | null> {
+        await this.ensureLogin();
+        const resp = await this.httpClient.get('/backup', { params: { id: fileId, timestamp }, headers: this.getAuthHeaders() });
+        const body = resp?.data;
+        const data = body && typeof body === 'object' && 'data' in body ? body.data : body;
+        if (data === null || data === undefined) return null;
+        if (typeof data === 'string') return data;
+        if (typeof data?.content === 'string') return data.content;
+        return JSON.stringify(data);
+    }
+
+    // 数据源配置：与普通资源共用文件接口，字段直接位于返回数据中
+    async getDataSource(id: string): Promise<MagicDataSourceInfo | null> {
+        await this.ensureLogin();
+        const resp = await this.httpClient.get(`/resource/file/${id}`, { headers: this.getAuthHeaders() });
+        const data = resp?.data?.data || null;
+        if (!data || typeof data !== 'object') return null;
+        return {
+            id: String(data.id || id),
+            name: String(data.name || ''),
+            key: String(data.key || ''),
+            driverClassName: data.driverClassName || undefined,
+            url: String(data.url || ''),
+            username: data.username || undefined,
+            password: data.password || undefined,
+            type: data.type || undefined,
+            maxRows: typeof data.maxRows === 'number' ? data.maxRows : undefined,
+            groupId: data.groupId ? String(data.groupId) : undefined,
+            properties: data.properties && typeof data.properties === 'object' ? data.properties : undefined,
+        };
+    }
+
+    // 保存数据源（无 id 时新建），返回数据源 ID
+    async saveDataSource(ds: MagicDataSourceInfo): Promise<string | null> {
+        await this.ensureLogin();
+        const resp = await this.httpClient.post('/resource/file/datasource/save', ds, { headers: this.getAuthHeaders() });
+        this.invalidateResourceTree();
+        const body = resp?.data;
+        if (!(body?.success || body?.code === 200)) {
+            throw new Error(body?.message || '服务器保存失败');
+        }
+        return body?.data ? String(body.data) : ds.id || null;
+    }
+
+    // 由服务端按配置建立一次连接，失败时 message 为服务端返回的错误信息
+    async testDataSource(ds: MagicDataSourceInfo): Promise<{ ok: boolean; message: string }> {
+        await this.ensureLogin();
+        const resp = await this.httpClient.post('/datasource/jdbc/test', ds, { headers: this.getAuthHeaders() });
+        const data = resp?.data?.data;
+        const ok = data === 'ok' || data === true;
+        return { ok, message: ok ? '连接成功' : String(data || resp?.data?.message || '连接失败') };
+    }
+
+    // 当前服务器上配置的所有数据源（资源树节点缺少 key 时读取详情）
+    async listDataSources(): Promise<Array<{ id: string; name: string; key: string; typedPath: string }>> {
+        const snapshot = await this.getResourceTree();
+        const result: Array<{ id: string; name: string; key: string; typedPath: string }> = [];
+        for (const entry of snapshot.byPath.values()) {
+            if (entry.type !== 'datasource' || entry.isGroup) continue;
+            let key = entry.node?.key ? String(entry.node.key) : '';
+            if (!key) {
+                try { key = (await this.getDataSource(entry.id))?.key || ''; } catch {}
+            }
+            if (key) result.push({ id: entry.id, name: String(entry.node?.name || key), key, typedPath: entry.typedPath });
+        }
+        return result.sort((a, b) => a.key.localeCompare(b.key));
+    }
+
     getFileIdByPath(path: string): string | undefined {
         return this.pathToIdCache.get(path);
     }
@@ -392,45 +558,15 @@ export class MagicApiClient {
         return this.idToPathCache.get(id);
     }
 
-    // 兜底：通过遍历资源树按路径解析文件ID，并填充缓存
+    // 兜底：通过资源树索引按路径解析文件ID；缓存未命中时强制刷新一次
     async resolveFileIdByPath(fileKey: string): Promise<string | undefined> {
         try {
-            await this.ensureLogin();
             // 规范化输入路径（去除前导斜杠）
             const key = String(fileKey || '').replace(/^\/+/, '');
-            const segs = key.split('/').filter(Boolean);
-            if (segs.length < 2) return undefined;
-            const type = segs[0] as MagicResourceType;
-            const fileNameWithExt = segs[segs.length - 1];
-            const fileName = fileNameWithExt.replace(/\.ms$/i, '');
-            const groupSegs = segs.slice(1, -1);
-
-            const resp = await this.httpClient.post('/resource');
-            const tree = resp?.data?.data || {};
-            const root = tree[type];
-            if (!root) return undefined;
-
-            const queue: any[] = [root];
-            while (queue.length) {
-                const cur = queue.shift();
-                const n = cur.node || {};
-                const isFile = n && typeof n.groupId !== 'undefined';
-                if (isFile) {
-                    const gp = this.buildPathFromNode(root, String(n.groupId || ''));
-                    const full = `${type}/${gp}/${String(n.name || '')}.ms`;
-                    if (full === key) {
-                        const id = String(n.id || '');
-                        if (id) {
-                            this.idToPathCache.set(id, full);
-                            this.pathToIdCache.set(full, id);
-                            return id;
-                        }
-                    }
-                }
-                const children: any[] = cur.children || [];
-                for (const child of children) queue.push(child);
-            }
-            return undefined;
+            if (key.split('/').filter(Boolean).length < 2) return undefined;
+            let entry = (await this.getResourceTree()).byPath.get(key);
+            if (!entry) entry = (await this.getResourceTree(true)).byPath.get(key);
+            return entry && !entry.isGroup && entry.id ? entry.id : undefined;
         } catch {
             return undefined;
         }
@@ -449,77 +585,29 @@ export class MagicApiClient {
     }
 
     async getResourceDirs(): Promise<string[]> {
-        await this.ensureLogin();
-        const resp = await this.httpClient.post('/resource');
-        const tree = resp?.data?.data || {};
-        const dirs: string[] = [];
-        for (const type of Object.keys(tree)) {
-            const root = tree[type];
-            this.collectGroupDirsFromNode(type, root, [], dirs);
-        }
-        return dirs;
+        const snapshot = await this.getResourceTree();
+        return snapshot.dirs.slice();
     }
 
     async getResourceFiles(dir: string): Promise<MagicFileInfo[]> {
-        await this.ensureLogin();
-        const resp = await this.httpClient.post('/resource');
-        const tree = resp?.data?.data || {};
-        const segs = dir.split('/').filter(Boolean);
-        const type = segs[0];
-        const root = tree[type];
-        if (!root) return [];
-        const groupNode = this.findGroupNodeByPath(root, segs.slice(1));
-        const target = groupNode || root;
-        const files: MagicFileInfo[] = [];
-        const children: any[] = target.children || [];
-        for (const child of children) {
-            const n = child.node || {};
-            const isFile = n && typeof n.groupId !== 'undefined';
-            if (isFile) {
-                const groupPathName = this.buildPathFromNode(root, String(n.groupId || ''));
-                const groupPath = groupPathName ? `${type}/${groupPathName}` : `${type}`;
-                const info: MagicFileInfo = {
-                    id: String(n.id || ''),
-                    name: String(n.name || ''),
-                    type: type as MagicResourceType,
-                    groupId: String(n.groupId || ''),
-                    groupPath,
-                    path: String(n.path || ''),
-                    requestMapping: String(n.requestMapping || ''),
-                    method: String(n.method || ''),
-                    description: String(n.description || ''),
-                    script: String(n.script || ''),
-                };
-                files.push(info);
-                if (info.id) {
-                    const fileKey = `${groupPath}/${info.name}.ms`;
-                    this.idToPathCache.set(info.id, fileKey);
-                    this.pathToIdCache.set(fileKey, info.id);
-                }
-            }
-        }
-        return files;
+        const snapshot = await this.getResourceTree();
+        return this.collectChildFiles(snapshot, this.findTreeNodeByDir(snapshot, dir));
     }
 
     // 新增：根据目录获取分组原始元数据（用于写入 .group.meta.json）
     async getGroupMetaByDir(dir: string): Promise<MagicGroupMetaRaw | null> {
         try {
-            await this.ensureLogin();
-            const resp = await this.httpClient.post('/resource');
-            const tree = resp?.data?.data || {};
+            const snapshot = await this.getResourceTree();
             const segs = dir.split('/').filter(Boolean);
-            const type = segs[0];
-            const root = tree[type];
-            if (!root) return null;
             if (segs.length <= 1) return null; // 顶层类型目录没有分组节点
-            const groupNode = this.findGroupNodeByPath(root, segs.slice(1));
-            if (!groupNode) return null;
-            const n = groupNode.node || {};
+            const entry = snapshot.byPath.get(segs.join('/'));
+            if (!entry || !entry.isGroup) return null;
+            const n = entry.node;
             const raw: MagicGroupMetaRaw = {
                 properties: n.properties || {},
                 id: String(n.id || ''),
                 name: String(n.name || ''),
-                type: (n.type || type) as MagicResourceType,
+                type: (n.type || entry.type) as MagicResourceType,
                 parentId: n.parentId ? String(n.parentId) : undefined,
                 path: String(n.path || ''),
                 createTime: n.createTime,
@@ -535,6 +623,32 @@ export class MagicApiClient {
         }
     }
 
+    getServerConfig(): MagicServerConfig {
+        return this.config;
+    }
+
+    // 接口完整请求路径：沿父分组拼接各级分组 path 与接口自身 path
+    async getApiRequestPath(fileId: string): Promise<string | null> {
+        const snapshot = await this.getResourceTree();
+        const entry = snapshot.byId.get(String(fileId));
+        if (!entry || entry.isGroup) return null;
+        const segs: string[] = [apiRoutePath(entry.node)];
+        let parentId = entry.node.groupId ? String(entry.node.groupId) : undefined;
+        while (parentId) {
+            const group = snapshot.byId.get(parentId);
+            if (!group || !group.isGroup) break;
+            segs.unshift(String(group.node.path || ''));
+            parentId = group.parentId;
+        }
+        const joined = segs.map(s => s.replace(/^\/+|\/+$/g, '')).filter(Boolean).join('/');
+        return `/${joined}`;
+    }
+
+    // 接口访问地址的基础部分（保留应用上下文路径，不包含管理页前缀）
+    getApiBaseUrl(): string {
+        return apiBaseUrlOf(this.config.url);
+    }
+
     getLspServerUrl(): string {
         const base = new URL(this.config.url);
         const wsProto = base.protocol === 'https:' ? 'wss' : 'ws';
@@ -563,93 +677,107 @@ export class MagicApiClient {
         return wsUrl;
     }
 
-    // 通过资源树收集分组目录并填充缓存
-    private collectGroupDirsFromNode(type: string, node: any, pathSegs: string[], dirs: string[]): void {
-        const children: any[] = node?.children || [];
-        for (const child of children) {
-            const n = child.node || {};
-            const isGroup = n && typeof n.groupId === 'undefined';
-            if (isGroup) {
-                const seg = n.name;
-                const newSegs = pathSegs.concat([seg]);
-                const dirPath = `${type}/${newSegs.join('/')}`;
-                dirs.push(dirPath);
-                if (n.id) {
-                    this.pathToIdCache.set(dirPath, n.id);
-                    this.idToPathCache.set(n.id, dirPath);
+    // 构建资源树索引：按类型深度优先遍历，记录分组/文件的 typedPath 与 ID，并刷新路径缓存
+    private buildResourceIndex(tree: Record<string, any>): ResourceTreeSnapshot {
+        const snapshot: ResourceTreeSnapshot = {
+            version: ++this.resourceTreeVersionSeq,
+            fetchedAt: Date.now(),
+            roots: {},
+            dirs: [],
+            byPath: new Map(),
+            byId: new Map(),
+        };
+        this.pathToIdCache.clear();
+        this.idToPathCache.clear();
+        const walk = (type: MagicResourceType, treeNode: any, segs: string[], parentId?: string) => {
+            const groupPath = segs.length ? `${type}/${segs.join('/')}` : `${type}`;
+            for (const child of (treeNode?.children || [])) {
+                const n = child.node || {};
+                const id = String(n.id || '');
+                const name = String(n.name || '');
+                const isGroup = typeof n.groupId === 'undefined';
+                const typedPath = isGroup ? `${groupPath}/${name}` : `${groupPath}/${name}.ms`;
+                const entry: ResourceTreeEntry = { id, type, isGroup, typedPath, groupPath, parentId, node: n, treeNode: child };
+                snapshot.byPath.set(typedPath, entry);
+                if (id) {
+                    snapshot.byId.set(id, entry);
+                    this.pathToIdCache.set(typedPath, id);
+                    this.idToPathCache.set(id, typedPath);
+                }
+                if (isGroup) {
+                    snapshot.dirs.push(typedPath);
+                    walk(type, child, segs.concat([name]), id);
                 }
-                this.collectGroupDirsFromNode(type, child, newSegs, dirs);
             }
+        };
+        for (const typeKey of Object.keys(tree)) {
+            const root = tree[typeKey];
+            if (!root) continue;
+            snapshot.roots[typeKey] = root;
+            walk(typeKey as MagicResourceType, root, []);
         }
+        return snapshot;
     }
 
-    // 按路径段在资源树中查找分组节点
-    private findGroupNodeByPath(root: any, segs: string[]): any | null {
-        let current = root;
-        for (const seg of segs) {
-            const next = (current.children || []).find((c: any) => {
-                const n = c.node || {};
-                const isGroup = n && typeof n.groupId === 'undefined';
-                return isGroup && n.name === seg;
-            });
-            if (!next) return null;
-            current = next;
-        }
-        return current;
-    }
-
-    // 按 ID 在资源树中查找分组节点
-    private findGroupNodeById(root: any, id: string): any | null {
-        if (!root) return null;
-        const queue: any[] = [root];
-        while (queue.length) {
-            const cur = queue.shift();
-            const n = cur.node || {};
-            const isGroup = n && typeof n.groupId === 'undefined';
-            if (isGroup && n.id === id) return cur;
-            const children: any[] = cur.children || [];
-            for (const child of children) queue.push(child);
-        }
-        return null;
+    // 按目录（包含类型，例如 "api/user"）定位资源树节点
+    private findTreeNodeByDir(snapshot: ResourceTreeSnapshot, dir: string): any | null {
+        const segs = dir.split('/').filter(Boolean);
+        if (segs.length === 0) return null;
+        if (segs.length === 1) return snapshot.roots[segs[0]] || null;
+        const entry = snapshot.byPath.get(segs.join('/'));
+        return entry && entry.isGroup ? entry.treeNode : null;
     }
 
-    // 从资源树根构建指定分组的路径
-    private buildPathFromNode(root: any, targetId: string): string {
-        const path: string[] = [];
-        const stack: any[] = [root];
-        const parentMap = new Map<any, any>();
-        while (stack.length) {
-            const cur = stack.pop();
-            const children: any[] = cur.children || [];
-            for (const child of children) {
-                parentMap.set(child, cur);
-                stack.push(child);
-            }
+    // 收集某节点下的直接子文件
+    private collectChildFiles(snapshot: ResourceTreeSnapshot, target: any): MagicFileInfo[] {
+        if (!target) return [];
+        const files: MagicFileInfo[] = [];
+        for (const child of (target.children || [])) {
+            const n = child.node || {};
+            if (typeof n.groupId === 'undefined') continue;
+            const entry = n.id ? snapshot.byId.get(String(n.id)) : undefined;
+            if (entry) files.push(this.toFileInfo(entry));
         }
-        // DFS 找到目标节点
-        const findNode = (node: any): any | null => {
-            const n = node.node || {};
-            if (String(n.id || '') === String(targetId || '')) return node;
-            for (const child of (node.children || [])) {
-                const r = findNode(child);
-                if (r) return r;
-            }
-            return null;
+        return files;
+    }
+
+    private toFileInfo(entry: ResourceTreeEntry): MagicFileInfo {
+        const n = entry.node;
+        return {
+            id: entry.id,
+            name: String(n.name || ''),
+            type: entry.type,
+            groupId: String(n.groupId || ''),
+            groupPath: entry.groupPath,
+            path: String(n.path || ''),
+            requestMapping: String(n.requestMapping || ''),
+            method: String(n.method || ''),
+            description: String(n.description || ''),
+            script: String(n.script || ''),
+            createTime: n.createTime,
+            updateTime: n.updateTime,
+            cron: typeof n.cron === 'string' ? n.cron : undefined,
+            enabled: typeof n.enabled === 'boolean' ? n.enabled : undefined,
+            executeOnStart: typeof n.executeOnStart === 'boolean' ? n.executeOnStart : undefined,
+            locked: this.isLocked(n),
         };
-        const target = findNode(root);
-        if (!target) return '';
-        // 回溯构建路径名
-        let cur: any | undefined = target;
-        const nameSegs: string[] = [];
-        while (cur && cur !== root) {
-            const n = cur.node || {};
-            const isGroup = n && typeof n.groupId === 'undefined';
-            if (isGroup) nameSegs.unshift(String(n.name || ''));
-            cur = parentMap.get(cur);
-        }
-        return nameSegs.join('/');
     }
 
+    // 服务端以 lock: "1" 表示锁定，部分版本直接返回 locked 布尔值
+    private isLocked(n: any): boolean {
+        return n?.locked === true || String(n?.lock ?? '') === '1';
+    }
+
+    private toGroupInfo(entry: ResourceTreeEntry): MagicGroupInfo {
+        const n = entry.node;
+        return {
+            id: entry.id,
+            name: String(n.name || ''),
+            path: entry.typedPath.split('/').slice(1).join('/'),
+            parentId: n.parentId ? String(n.parentId) : undefined,
+            type: (n.type || entry.type) as MagicResourceType,
+        };
+    }
     private inferTypeFromId(id?: string): MagicResourceType | undefined {
         if (!id) return undefined;
         if (id.startsWith('api_')) return 'api';
@@ -1,7 +1,10 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { getAgentsManual } from './agentsManual';
 import { MagicApiClient } from './magicApiClient';
-import { MagicResourceType, MAGIC_RESOURCE_TYPES } from './types';
+import { MagicResourceType, MAGIC_RESOURCE_TYPES, lockOwnerLabel } from './types';
+import { ResourceChange, ResourceChangeWatcher } from './resourceChangeWatcher';
+import { MirrorWorkspaceManager } from './mirrorWorkspaceManager';
 
 export interface MagicFileInfo {
     id: string;
@@ -19,6 +22,7 @@ export interface MagicFileInfo {
     requestMapping?: string;
     description?: string;
     locked?: boolean;
+    lockedBy?: string; // 锁定人（服务端未返回时为空）
     // 类型专属字段：API
     params?: any[];
     headers?: Record<string, any> | any;
@@ -28,6 +32,19 @@ export interface MagicFileInfo {
     cron?: string;
     enabled?: boolean;
     executeOnStart?: boolean;
+    // 类型专属字段：函数
+    returnType?: string;
+    mappingPath?: string;
+    parameters?: any[];
+    // 类型专属字段：数据源（服务端字段 type 为连接池实现类，这里记为 dataSourceType）
+    key?: string;
+    url?: string;
+    driverClassName?: string;
+    username?: string;
+    password?: string;
+    dataSourceType?: string;
+    maxRows?: number;
+    properties?: Record<string, any>;
     // 其他服务端扩展字段（未识别的字段原样保留）
     extra?: Record<string, any>;
 }
@@ -46,10 +63,20 @@ export class MagicFileSystemProvider implements vscode.FileSystemProvider {
     private _emitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
     private _bufferedEvents: vscode.FileChangeEvent[] = [];
     private _fireSoonHandle?: NodeJS.Timer;
+    // 当前被监听的 URI（VS Code 通过 watch() 注册）
+    private _watches = new Set<{ uri: vscode.Uri; recursive: boolean; excludes: string[] }>();
+    private _changeWatcher: ResourceChangeWatcher;
+    // 每个文档最近一次读取到的服务器 updateTime，保存时据此检测冲突
+    private _readVersions = new Map<string, number | undefined>();
+    private _mergeListener: vscode.Disposable;
 
     readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._emitter.event;
 
-    constructor(private client: MagicApiClient, private configDir?: vscode.Uri) {}
+    constructor(private client: MagicApiClient, private configDir?: vscode.Uri) {
+        this._changeWatcher = new ResourceChangeWatcher(() => this.client);
+        this._changeWatcher.onDidChange((changes) => this.onServerChanges(changes));
+        this._mergeListener = vscode.workspace.onDidSaveTextDocument((doc) => this.onMergeFileSaved(doc));
+    }
 
     private isAgentsUri(uri: vscode.Uri): boolean {
         const p = uri.path.replace(/^\/+/, '');
@@ -101,10 +128,61 @@ export class MagicFileSystemProvider implements vscode.FileSystemProvider {
         await vscode.workspace.fs.writeFile(agentsUri, content);
     }
 
-    // 监听文件变化
+    // 监听文件变化：存在监听时启动服务端轮询，全部释放后停止
     watch(uri: vscode.Uri, options: { recursive: boolean; excludes: string[]; }): vscode.Disposable {
-        // 实现文件监听逻辑
-        return new vscode.Disposable(() => {});
+        const entry = { uri, recursive: options.recursive, excludes: options.excludes || [] };
+        this._watches.add(entry);
+        this._changeWatcher.start();
+        return new vscode.Disposable(() => {
+            this._watches.delete(entry);
+            if (this._watches.size === 0) this._changeWatcher.stop();
+        });
+    }
+
+    // 切换服务器后重建变化检测基线
+    setClient(client: MagicApiClient): void {
+        this.client = client;
+        this._changeWatcher.reset();
+    }
+
+    dispose(): void {
+        this._changeWatcher.dispose();
+        this._mergeListener.dispose();
+        this._watches.clear();
+    }
+
+    // 将服务端变化转换为针对被监听 URI 的文件事件
+    private onServerChanges(changes: ResourceChange[]): void {
+        const events: vscode.FileChangeEvent[] = [];
+        for (const change of changes) {
+            const uri = vscode.Uri.parse(`magic-api:/${change.typedPath}`);
+            if (this.isWatched(uri)) events.push({ type: change.type, uri });
+        }
+        if (events.length) this._fireSoon(...events);
+    }
+
+    private isWatched(uri: vscode.Uri): boolean {
+        const target = uri.path.replace(/\/+$/, '');
+        for (const w of this._watches) {
+            const base = w.uri.path.replace(/\/+$/, '');
+            const rel = base ? (target.startsWith(base + '/') ? target.substring(base.length + 1) : null) : target.replace(/^\/+/, '');
+            if (target === base) return true;
+            if (rel === null) continue;
+            if (w.excludes.some(ex => this.matchesExclude(rel, ex))) continue;
+            // 非递归监听仅覆盖直接子项
+            if (w.recursive || !rel.includes('/')) return true;
+        }
+        return false;
+    }
+
+    private matchesExclude(rel: string, pattern: string): boolean {
+        const re = new RegExp('^' + pattern
+            .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+            .replace(/\*\*\/?/g, '\u0000')
+            .replace(/\*/g, '[^/]*')
+            .replace(/\?/g, '[^/]')
+            .replace(/\u0000/g, '.*') + '$');
+        return re.test(rel);
     }
 
     // 获取文件状态（统一资源目录结构）
@@ -136,7 +214,9 @@ export class MagicFileSystemProvider implements vscode.FileSystemProvider {
                 type: vscode.FileType.File,
                 ctime: fileInfo.createTime || Date.now(),
                 mtime: fileInfo.updateTime || Date.now(),
-                size: Buffer.byteLength(fileInfo.script || '', 'utf8')
+                size: Buffer.byteLength(fileInfo.script || '', 'utf8'),
+                // 锁定的文件在编辑器中只读
+                permissions: fileInfo.locked ? vscode.FilePermission.Readonly : undefined
             };
         }
 
@@ -229,6 +309,7 @@ export class MagicFileSystemProvider implements vscode.FileSystemProvider {
         if (!fileInfo) {
             throw vscode.FileSystemError.FileNotFound(uri);
         }
+        this._readVersions.set(uri.toString(), fileInfo.updateTime);
 
         return Buffer.from(fileInfo.script || '', 'utf8');
     }
@@ -251,12 +332,29 @@ export class MagicFileSystemProvider implements vscode.FileSystemProvider {
             if (!fileInfo) {
                 throw vscode.FileSystemError.FileNotFound(uri);
             }
+            if (fileInfo.locked) {
+                throw vscode.FileSystemError.NoPermissions(`文件已被 ${lockOwnerLabel(fileInfo.lockedBy)} 锁定，无法保存`);
+            }
+
+            // 乐观并发：服务器版本在上次读取后已变化且内容不同，则进入冲突处理
+            const key = uri.toString();
+            const baseTime = this._readVersions.get(key);
+            const serverTime = fileInfo.updateTime;
+            const normalize = (s: string) => s.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+            if (typeof baseTime === 'number' && typeof serverTime === 'number' && serverTime !== baseTime
+                && normalize(fileInfo.script || '') !== normalize(script)) {
+                await this.handleSaveConflict(uri, `${p.dir}/${p.fileName}.ms`, script, fileInfo);
+            }
 
             await this.client.saveFile({
                 ...fileInfo,
                 script,
-                type
+                type,
+                // 携带上次读取的版本，便于服务端识别基于旧版本的覆盖
+                updateTime: this._readVersions.get(key) ?? serverTime
             });
+            const fresh = await this.client.getFile(p.fileId);
+            this._readVersions.set(key, fresh?.updateTime);
 
             this._fireSoon({ type: vscode.FileChangeType.Changed, uri });
         } else {
@@ -278,6 +376,73 @@ export class MagicFileSystemProvider implements vscode.FileSystemProvider {
         }
     }
 
+    // 保存冲突：提示用户合并或覆盖；未选择覆盖时拒绝本次保存
+    private async handleSaveConflict(uri: vscode.Uri, typedPath: string, localScript: string, serverInfo: MagicFileInfo): Promise<void> {
+        const when = serverInfo.updateTime ? new Date(serverInfo.updateTime).toLocaleString() : '未知时间';
+        const who = serverInfo.updateBy ? `（${serverInfo.updateBy}）` : '';
+        const choice = await vscode.window.showWarningMessage(
+            `${serverInfo.name}.ms 已在服务器上被修改${who}，更新时间 ${when}。直接保存会覆盖对方的修改。`,
+            { modal: true },
+            '打开合并', '覆盖服务器版本'
+        );
+        if (choice === '覆盖服务器版本') {
+            this._readVersions.set(uri.toString(), serverInfo.updateTime);
+            return;
+        }
+        if (choice === '打开合并') {
+            await this.openConflictMerge(typedPath, localScript, serverInfo.script || '');
+        }
+        throw vscode.FileSystemError.Unavailable(`保存冲突：${typedPath} 在服务器上已被修改`);
+    }
+
+    // 生成 token 级冲突文件（与镜像工作区合并流程一致）并使用 Merge Editor 打开
+    private async openConflictMerge(typedPath: string, localScript: string, serverScript: string): Promise<void> {
+        if (!this.configDir) return;
+        const conflict = MirrorWorkspaceManager.getInstance().generateTokenConflict(localScript, serverScript);
+        const segs = typedPath.split('/').filter(Boolean);
+        const tempBase = vscode.Uri.joinPath(this.configDir, '.merge', ...segs.slice(0, -1));
+        try { await vscode.workspace.fs.stat(tempBase); } catch { await vscode.workspace.fs.createDirectory(tempBase); }
+        const tempUri = vscode.Uri.joinPath(tempBase, segs[segs.length - 1]);
+        await vscode.workspace.fs.writeFile(tempUri, Buffer.from(conflict, 'utf8'));
+        try {
+            await vscode.commands.executeCommand('vscode.openWith', tempUri, 'mergeEditor');
+        } catch {
+            try { await vscode.window.showTextDocument(tempUri, { preview: true }); } catch {}
+        }
+    }
+
+    // 合并临时文件保存：以服务器当前版本为基线，将合并结果写回 magic-api 文档并保存
+    private async onMergeFileSaved(doc: vscode.TextDocument): Promise<void> {
+        try {
+            if (!this.configDir || doc.uri.scheme !== 'file') return;
+            const mergeRoot = vscode.Uri.joinPath(this.configDir, '.merge').fsPath;
+            const rel = path.relative(mergeRoot, doc.uri.fsPath).replace(/\\/g, '/');
+            if (!rel || rel.startsWith('..') || path.isAbsolute(rel) || !rel.endsWith('.ms')) return;
+            const merged = doc.getText();
+            if (/^<<<<<<< LOCAL$/m.test(merged) || /^>>>>>>> SERVER$/m.test(merged)) {
+                vscode.window.showWarningMessage('合并结果中仍有未解决的冲突标记，请处理后再保存');
+                return;
+            }
+            const fid = this.client.getFileIdByPath(rel) || await this.client.resolveFileIdByPath(rel);
+            const serverInfo = fid ? await this.client.getFile(fid) : null;
+            if (!serverInfo) {
+                vscode.window.showErrorMessage(`服务器上已不存在 ${rel}`);
+                return;
+            }
+            const target = vscode.Uri.parse(`magic-api:/${rel}`);
+            this._readVersions.set(target.toString(), serverInfo.updateTime);
+            const targetDoc = await vscode.workspace.openTextDocument(target);
+            const edit = new vscode.WorkspaceEdit();
+            edit.replace(target, new vscode.Range(0, 0, targetDoc.lineCount, 0), merged);
+            await vscode.workspace.applyEdit(edit);
+            await targetDoc.save();
+            try { await vscode.workspace.fs.delete(doc.uri, { useTrash: false }); } catch {}
+            vscode.window.showInformationMessage(`${path.basename(rel)} 合并结果已保存到服务器`);
+        } catch (e) {
+            vscode.window.showErrorMessage(`保存合并结果失败: ${String(e)}`);
+        }
+    }
+
     // 删除文件或目录
     async delete(uri: vscode.Uri, options: { recursive: boolean; }): Promise<void> {
         if (this.isAgentsUri(uri)) {
@@ -333,15 +498,9 @@ export class MagicFileSystemProvider implements vscode.FileSystemProvider {
             // 目录重命名仍通过分组接口实现
             await this.client.getResourceDirs();
             const gid = this.client.getGroupIdByPath(`${type}/${oldGroupPathStr}`);
-            const groupInfo = gid ? await this.client.getGroup(gid) : null;
-            if (!groupInfo) {
+            if (!gid || !(await this.client.renameGroup(gid, newName))) {
                 throw vscode.FileSystemError.FileNotFound(oldUri);
             }
-
-            await this.client.saveGroup({
-                ...groupInfo,
-                name: newName
-            });
         } else {
             // 尝试解析ID后再重命名
             const fileName = oldUri.path.split('/').pop() || '';
@@ -356,9 +515,7 @@ export class MagicFileSystemProvider implements vscode.FileSystemProvider {
                 } else {
                     const gid = this.client.getGroupIdByPath(`${type}/${oldGroupPathStr}`);
                     if (gid) {
-                        const groupInfo = await this.client.getGroup(gid);
-                        if (!groupInfo) throw vscode.FileSystemError.FileNotFound(oldUri);
-                        await this.client.saveGroup({ ...groupInfo, name: newName });
+                        if (!(await this.client.renameGroup(gid, newName))) throw vscode.FileSystemError.FileNotFound(oldUri);
                     } else {
                         throw vscode.FileSystemError.FileNotFound(oldUri);
                     }
@@ -395,6 +552,16 @@ export class MagicFileSystemProvider implements vscode.FileSystemProvider {
         return { isRoot: false, isFile, dir, fileName, fileId };
     }
 
+    // 元数据单独保存后更新记录的服务器版本，避免下次保存脚本时误报冲突
+    markRead(uri: vscode.Uri, updateTime: number | undefined): void {
+        this._readVersions.set(uri.toString(), updateTime);
+    }
+
+    // 文件状态（如锁定）在服务端变化后通知编辑器重新读取
+    notifyChanged(uri: vscode.Uri): void {
+        this._fireSoon({ type: vscode.FileChangeType.Changed, uri });
+    }
+
     // 触发文件变化事件
     private _fireSoon(...events: vscode.FileChangeEvent[]): void {
         this._bufferedEvents.push(...events);
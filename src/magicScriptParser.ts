@@ -0,0 +1,1025 @@
+// Magic Script 词法与语法分析：生成带源码偏移的语法树，供本地语言功能（定义、符号、悬停、补全）使用
+// 解析器容错：语句出错时记录错误并跳到下一条语句继续解析，因此编辑中的不完整脚本也能得到大部分语法树
+
+export type TokenType = 'identifier' | 'keyword' | 'number' | 'string' | 'template' | 'regex' | 'punct' | 'eof';
+
+export interface Token {
+    type: TokenType;
+    value: string; // 源码原文
+    start: number;
+    end: number;
+    newlineBefore: boolean; // 与上一个记号之间是否有换行
+    quote?: string; // 字符串的引号：' " """ ``` `
+    lang?: string; // 语言块 ```sql 的语言名
+    terminated?: boolean; // 字符串/正则是否正常闭合
+    parts?: Array<{ start: number; end: number }>; // 模板字符串中 ${...} 的表达式范围
+}
+
+export interface Comment {
+    start: number;
+    end: number;
+    block: boolean;
+    terminated: boolean;
+}
+
+export interface ParseError {
+    message: string;
+    start: number;
+    end: number;
+}
+
+export const KEYWORDS = new Set([
+    'import', 'as', 'var', 'let', 'const', 'return', 'break', 'continue', 'if', 'for', 'in', 'new', 'true', 'false', 'null',
+    'else', 'try', 'catch', 'finally', 'async', 'while', 'exit', 'throw', 'instanceof',
+]);
+
+// LINQ 子句关键字（仅在 select 表达式中有特殊含义，其余位置作为普通标识符）
+const LINQ_KEYWORDS = new Set(['from', 'join', 'left', 'on', 'where', 'group', 'by', 'having', 'order', 'limit', 'offset', 'asc', 'desc', 'and', 'or']);
+
+const PUNCTUATORS = [
+    '>>>=', '...', '===', '!==', '>>>', '<<=', '>>=',
+    '?.', '::', '=>', '->', '==', '!=', '<=', '>=', '&&', '||', '++', '--', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<', '>>', '??',
+    '+', '-', '*', '/', '%', '=', '<', '>', '!', '~', '&', '|', '^', '?', ':', ';', ',', '.', '(', ')', '[', ']', '{', '}', '@', '#',
+];
+
+const IDENT_START = /[\p{L}_$]/u;
+const IDENT_PART = /[\p{L}\p{N}_$]/u;
+
+// 可以出现在除号之前的记号（此时 / 为运算符，否则为正则字面量）
+function allowsDivision(prev: Token | undefined): boolean {
+    if (!prev) return false;
+    if (prev.type === 'identifier' || prev.type === 'number' || prev.type === 'string' || prev.type === 'template' || prev.type === 'regex') return true;
+    if (prev.type === 'keyword') return prev.value === 'true' || prev.value === 'false' || prev.value === 'null';
+    return prev.value === ')' || prev.value === ']' || prev.value === '}' || prev.value === '++' || prev.value === '--';
+}
+
+// 词法分析 [start, end) 范围内的源码；偏移始终相对于整个 text
+export function tokenize(text: string, start: number = 0, end: number = text.length): { tokens: Token[]; comments: Comment[]; errors: ParseError[] } {
+    const tokens: Token[] = [];
+    const comments: Comment[] = [];
+    const errors: ParseError[] = [];
+    let i = start;
+    let newline = false;
+
+    const push = (token: Omit<Token, 'newlineBefore'>) => {
+        tokens.push({ ...token, newlineBefore: newline });
+        newline = false;
+    };
+
+    // 读取带转义的单行或多行字符串，返回结束位置与是否闭合
+    const readQuoted = (from: number, quote: string, multiline: boolean): { end: number; terminated: boolean } => {
+        let j = from;
+        while (j < end) {
+            const c = text[j];
+            if (c === '\\' && quote !== '```') { j += 2; continue; }
+            if (text.startsWith(quote, j)) return { end: j + quote.length, terminated: true };
+            if (!multiline && c === '\n') return { end: j, terminated: false };
+            j++;
+        }
+        return { end, terminated: false };
+    };
+
+    while (i < end) {
+        const c = text[i];
+        if (c === '\n') { newline = true; i++; continue; }
+        if (/[ \t\r\f\v\u00a0\ufeff]/.test(c)) { i++; continue; }
+
+        if (c === '/' && text[i + 1] === '/') {
+            let j = i;
+            while (j < end && text[j] !== '\n') j++;
+            comments.push({ start: i, end: j, block: false, terminated: true });
+            i = j;
+            continue;
+        }
+        if (c === '/' && text[i + 1] === '*') {
+            const close = text.indexOf('*/', i + 2);
+            const j = close < 0 || close + 2 > end ? end : close + 2;
+            const terminated = close >= 0 && close + 2 <= end;
+            if (!terminated) errors.push({ message: '块注释未闭合', start: i, end: i + 2 });
+            if (text.slice(i, j).includes('\n')) newline = true;
+            comments.push({ start: i, end: j, block: true, terminated });
+            i = j;
+            continue;
+        }
+
+        if (text.startsWith('"""', i)) {
+            const r = readQuoted(i + 3, '"""', true);
+            const lang = /^([A-Za-z_][A-Za-z0-9_]*)[ \t]*\r?\n/.exec(text.slice(i + 3, Math.min(end, i + 40)))?.[1];
+            if (!r.terminated) errors.push({ message: '三引号字符串未闭合', start: i, end: i + 3 });
+            push({ type: 'string', value: text.slice(i, r.end), start: i, end: r.end, quote: '"""', lang, terminated: r.terminated });
+            i = r.end;
+            continue;
+        }
+        if (text.startsWith('```', i)) {
+            const lang = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(i + 3, Math.min(end, i + 40)))?.[0];
+            const r = readQuoted(i + 3 + (lang?.length || 0), '```', true);
+            if (!r.terminated) errors.push({ message: '语言块未闭合', start: i, end: i + 3 });
+            push({ type: 'string', value: text.slice(i, r.end), start: i, end: r.end, quote: '```', lang, terminated: r.terminated });
+            i = r.end;
+            continue;
+        }
+        if (c === '"' || c === '\'') {
+            const r = readQuoted(i + 1, c, false);
+            if (!r.terminated) errors.push({ message: '字符串未闭合', start: i, end: r.end });
+            push({ type: 'string', value: text.slice(i, r.end), start: i, end: r.end, quote: c, terminated: r.terminated });
+            i = r.end;
+            continue;
+        }
+        if (c === '`') {
+            const parts: Array<{ start: number; end: number }> = [];
+            let j = i + 1;
+            let terminated = false;
+            while (j < end) {
+                if (text[j] === '\\') { j += 2; continue; }
+                if (text[j] === '`') { terminated = true; j++; break; }
+                if (text[j] === '$' && text[j + 1] === '{') {
+                    // 找到与 ${ 匹配的 }，跳过其中的字符串
+                    let depth = 1;
+                    let k = j + 2;
+                    while (k < end && depth > 0) {
+                        const ch = text[k];
+                        if (ch === '"' || ch === '\'') { k = readQuoted(k + 1, ch, false).end; continue; }
+                        if (ch === '{') depth++;
+                        else if (ch === '}') depth--;
+                        k++;
+                    }
+                    parts.push({ start: j + 2, end: depth === 0 ? k - 1 : k });
+                    j = k;
+                    continue;
+                }
+                j++;
+            }
+            if (!terminated) errors.push({ message: '模板字符串未闭合', start: i, end: i + 1 });
+            push({ type: 'template', value: text.slice(i, j), start: i, end: j, quote: '`', terminated, parts });
+            i = j;
+            continue;
+        }
+
+        if (/[0-9]/.test(c) || (c === '.' && /[0-9]/.test(text[i + 1] || ''))) {
+            const m = /^(?:0[xX][0-9A-Fa-f_]+|0[bB][01_]+|(?:\d[0-9_]*)?(?:\.\d[0-9_]*)?(?:[eE][+-]?\d+)?)[bBsSlLfFdDmM]?/.exec(text.slice(i, Math.min(end, i + 64)));
+            const len = Math.max(m?.[0].length || 0, 1);
+            push({ type: 'number', value: text.slice(i, i + len), start: i, end: i + len });
+            i += len;
+            continue;
+        }
+
+        if (IDENT_START.test(c)) {
+            let j = i + 1;
+            while (j < end && IDENT_PART.test(text[j])) j++;
+            const word = text.slice(i, j);
+            push({ type: KEYWORDS.has(word) ? 'keyword' : 'identifier', value: word, start: i, end: j });
+            i = j;
+            continue;
+        }
+
+        if (c === '/' && !allowsDivision(tokens[tokens.length - 1])) {
+            // 正则字面量：同一行内找到未转义且不在字符类中的 /
+            let j = i + 1;
+            let inClass = false;
+            let closed = false;
+            while (j < end && text[j] !== '\n') {
+                const ch = text[j];
+                if (ch === '\\') { j += 2; continue; }
+                if (ch === '[') inClass = true;
+                else if (ch === ']') inClass = false;
+                else if (ch === '/' && !inClass) { closed = true; j++; break; }
+                j++;
+            }
+            if (closed) {
+                while (j < end && /[a-z]/i.test(text[j])) j++;
+                push({ type: 'regex', value: text.slice(i, j), start: i, end: j, terminated: true });
+                i = j;
+                continue;
+            }
+        }
+
+        const punct = PUNCTUATORS.find(p => text.startsWith(p, i));
+        if (punct) {
+            push({ type: 'punct', value: punct, start: i, end: i + punct.length });
+            i += punct.length;
+            continue;
+        }
+        errors.push({ message: `无法识别的字符「${c}」`, start: i, end: i + 1 });
+        i++;
+    }
+    tokens.push({ type: 'eof', value: '', start: end, end, newlineBefore: newline });
+    return { tokens, comments, errors };
+}
+
+// ---------------------------------------------------------------------------
+// 语法树
+
+export interface BaseNode {
+    type: string;
+    start: number;
+    end: number;
+}
+
+export interface Identifier extends BaseNode { type: 'Identifier'; name: string }
+
+export interface Literal extends BaseNode {
+    type: 'Literal';
+    kind: 'number' | 'string' | 'boolean' | 'null' | 'regex';
+    raw: string;
+    lang?: string;
+}
+
+export interface TemplateLiteral extends BaseNode { type: 'TemplateLiteral'; expressions: Expression[] }
+export interface ArrayExpression extends BaseNode { type: 'ArrayExpression'; elements: Expression[] }
+export interface Property extends BaseNode { type: 'Property'; key: Expression; value: Expression; computed: boolean; shorthand: boolean }
+export interface ObjectExpression extends BaseNode { type: 'ObjectExpression'; properties: Array<Property | SpreadElement> }
+export interface SpreadElement extends BaseNode { type: 'SpreadElement'; argument: Expression }
+export interface LambdaExpression extends BaseNode { type: 'LambdaExpression'; params: Identifier[]; rest?: Identifier; body: BlockStatement | Expression }
+export interface CallExpression extends BaseNode { type: 'CallExpression'; callee: Expression; arguments: Expression[]; optional: boolean }
+export interface NewExpression extends BaseNode { type: 'NewExpression'; callee: Expression; arguments: Expression[] }
+export interface MemberExpression extends BaseNode { type: 'MemberExpression'; object: Expression; property: Expression; computed: boolean; optional: boolean }
+export interface UnaryExpression extends BaseNode { type: 'UnaryExpression'; operator: string; argument: Expression }
+export interface UpdateExpression extends BaseNode { type: 'UpdateExpression'; operator: string; argument: Expression; prefix: boolean }
+export interface BinaryExpression extends BaseNode { type: 'BinaryExpression'; operator: string; left: Expression; right: Expression }
+export interface AssignmentExpression extends BaseNode { type: 'AssignmentExpression'; operator: string; left: Expression; right: Expression }
+export interface ConditionalExpression extends BaseNode { type: 'ConditionalExpression'; test: Expression; consequent: Expression; alternate: Expression }
+export interface AsyncExpression extends BaseNode { type: 'AsyncExpression'; argument: Expression }
+// 类型转换 value::int(0)
+export interface ConversionExpression extends BaseNode { type: 'ConversionExpression'; argument: Expression; target: Identifier; arguments: Expression[] }
+export interface LinqSource extends BaseNode { type: 'LinqSource'; expression: Expression; alias?: Identifier }
+export interface LinqField extends BaseNode { type: 'LinqField'; expression: Expression; alias?: Identifier }
+export interface LinqJoin extends BaseNode { type: 'LinqJoin'; left: boolean; source: LinqSource; on?: Expression }
+export interface LinqOrder extends BaseNode { type: 'LinqOrder'; expression: Expression; desc: boolean }
+export interface LinqExpression extends BaseNode {
+    type: 'LinqExpression';
+    fields: LinqField[];
+    from?: LinqSource;
+    joins: LinqJoin[];
+    where?: Expression;
+    groupBy: Expression[];
+    having?: Expression;
+    orderBy: LinqOrder[];
+    limit?: Expression;
+    offset?: Expression;
+}
+
+export type Expression =
+    | Identifier | Literal | TemplateLiteral | ArrayExpression | ObjectExpression | SpreadElement | LambdaExpression
+    | CallExpression | NewExpression | MemberExpression | UnaryExpression | UpdateExpression | BinaryExpression
+    | AssignmentExpression | ConditionalExpression | AsyncExpression | ConversionExpression | LinqExpression;
+
+export interface Program extends BaseNode { type: 'Program'; body: Statement[] }
+export interface BlockStatement extends BaseNode { type: 'BlockStatement'; body: Statement[] }
+export interface VariableDeclaration extends BaseNode { type: 'VariableDeclaration'; kind: 'var' | 'let' | 'const'; id: Identifier; init?: Expression }
+export interface ImportDeclaration extends BaseNode {
+    type: 'ImportDeclaration';
+    source: string; // 不含引号的导入内容
+    sourceKind: 'string' | 'name'; // import 'java.lang.System' / import log
+    sourceStart: number;
+    sourceEnd: number;
+    alias?: Identifier;
+}
+export interface ExpressionStatement extends BaseNode { type: 'ExpressionStatement'; expression: Expression }
+export interface IfStatement extends BaseNode { type: 'IfStatement'; test: Expression; consequent: Statement; alternate?: Statement }
+export interface ForStatement extends BaseNode { type: 'ForStatement'; index?: Identifier; item: Identifier; iterable: Expression; body: Statement }
+export interface WhileStatement extends BaseNode { type: 'WhileStatement'; test: Expression; body: Statement }
+export interface ReturnStatement extends BaseNode { type: 'ReturnStatement'; argument?: Expression }
+export interface ExitStatement extends BaseNode { type: 'ExitStatement'; arguments: Expression[] }
+export interface AssertStatement extends BaseNode { type: 'AssertStatement'; test: Expression; arguments: Expression[] }
+export interface ThrowStatement extends BaseNode { type: 'ThrowStatement'; argument: Expression }
+export interface BreakStatement extends BaseNode { type: 'BreakStatement' }
+export interface ContinueStatement extends BaseNode { type: 'ContinueStatement' }
+export interface TryStatement extends BaseNode {
+    type: 'TryStatement';
+    resources: VariableDeclaration[];
+    block: BlockStatement;
+    param?: Identifier;
+    handler?: BlockStatement;
+    finalizer?: BlockStatement;
+}
+
+export type Statement =
+    | BlockStatement | VariableDeclaration | ImportDeclaration | ExpressionStatement | IfStatement | ForStatement | WhileStatement
+    | ReturnStatement | ExitStatement | AssertStatement | ThrowStatement | BreakStatement | ContinueStatement | TryStatement;
+
+export type Node = Program | Statement | Expression | Property | LinqSource | LinqField | LinqJoin | LinqOrder;
+
+export interface ParseResult {
+    program: Program;
+    tokens: Token[];
+    comments: Comment[];
+    errors: ParseError[]; // 词法与语法错误
+}
+
+class ParseFailure extends Error {
+    constructor(message: string, readonly start: number, readonly end: number) {
+        super(message);
+    }
+}
+
+const ASSIGN_OPERATORS = new Set(['=', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<=', '>>=', '>>>=']);
+
+// 二元运算符优先级（数字越大越先结合）
+const BINARY_PRECEDENCE: Record<string, number> = {
+    '??': 1, '||': 2, '&&': 3, '|': 4, '^': 5, '&': 6,
+    '==': 7, '!=': 7, '===': 7, '!==': 7,
+    '<': 8, '>': 8, '<=': 8, '>=': 8, 'instanceof': 8,
+    '<<': 9, '>>': 9, '>>>': 9,
+    '+': 10, '-': 10,
+    '*': 11, '/': 11, '%': 11,
+};
+
+class Parser {
+    private pos = 0;
+    private linqDepth = 0;
+
+    constructor(private text: string, private tokens: Token[], private errors: ParseError[]) {}
+
+    private peek(offset: number = 0): Token {
+        return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+    }
+
+    private next(): Token {
+        const token = this.peek();
+        if (token.type !== 'eof') this.pos++;
+        return token;
+    }
+
+    private prevEnd(): number {
+        return this.pos > 0 ? this.tokens[this.pos - 1].end : 0;
+    }
+
+    // 标点或关键字
+    private is(value: string, offset: number = 0): boolean {
+        const token = this.peek(offset);
+        return (token.type === 'punct' || token.type === 'keyword') && token.value === value;
+    }
+
+    private isWord(value: string, offset: number = 0): boolean {
+        const token = this.peek(offset);
+        return token.type === 'identifier' && token.value === value;
+    }
+
+    private eat(value: string): boolean {
+        if (!this.is(value)) return false;
+        this.next();
+        return true;
+    }
+
+    private fail(message: string, token: Token = this.peek()): never {
+        throw new ParseFailure(message, token.start, Math.max(token.end, token.start + 1));
+    }
+
+    private expect(value: string): Token {
+        if (!this.is(value)) this.fail(`缺少「${value}」`);
+        return this.next();
+    }
+
+    private identifier(allowKeyword: boolean = false): Identifier {
+        const token = this.peek();
+        if (token.type !== 'identifier' && !(allowKeyword && token.type === 'keyword')) this.fail('缺少标识符');
+        this.next();
+        return { type: 'Identifier', name: token.value, start: token.start, end: token.end };
+    }
+
+    parseProgram(): Program {
+        const body = this.parseStatementList(false);
+        return { type: 'Program', body, start: 0, end: this.text.length };
+    }
+
+    private parseStatementList(inBlock: boolean): Statement[] {
+        const body: Statement[] = [];
+        while (this.peek().type !== 'eof' && !(inBlock && this.is('}'))) {
+            if (this.eat(';')) continue;
+            if (!inBlock && this.is('}')) {
+                const token = this.next();
+                this.errors.push({ message: '多余的「}」', start: token.start, end: token.end });
+                continue;
+            }
+            const startPos = this.pos;
+            try {
+                const statement = this.parseStatement();
+                body.push(statement);
+                const token = this.peek();
+                if (!this.eat(';') && token.type !== 'eof' && !token.newlineBefore && !this.is('}') && !this.endsWithBlock(statement)) {
+                    this.errors.push({ message: '语句之间缺少换行或分号', start: token.start, end: token.end });
+                }
+            } catch (e) {
+                if (!(e instanceof ParseFailure)) throw e;
+                this.errors.push({ message: e.message, start: e.start, end: e.end });
+                this.recover(startPos);
+            }
+        }
+        return body;
+    }
+
+    // 以代码块的 } 结尾的语句（if、for、while、try 等）之后可直接接下一条语句
+    private endsWithBlock(statement: Statement): boolean {
+        const last = this.tokens[this.pos - 1];
+        return !!last && last.type === 'punct' && last.value === '}'
+            && ['BlockStatement', 'IfStatement', 'ForStatement', 'WhileStatement', 'TryStatement'].includes(statement.type);
+    }
+
+    // 出错后跳到下一条语句：遇到换行、分号或当前层级的 } 为止
+    private recover(startPos: number): void {
+        if (this.pos === startPos) this.next();
+        let depth = 0;
+        while (this.peek().type !== 'eof') {
+            const token = this.peek();
+            if (depth === 0 && (token.newlineBefore || this.is('}'))) return;
+            if (this.is('(') || this.is('[') || this.is('{')) depth++;
+            else if (this.is(')') || this.is(']') || this.is('}')) depth = Math.max(depth - 1, 0);
+            this.next();
+            if (depth === 0 && token.value === ';' && token.type === 'punct') return;
+        }
+    }
+
+    private parseStatement(): Statement {
+        const token = this.peek();
+        if (token.type === 'keyword') {
+            switch (token.value) {
+                case 'var': case 'let': case 'const': return this.parseVariableDeclaration();
+                case 'import': return this.parseImport();
+                case 'if': return this.parseIf();
+                case 'for': return this.parseFor();
+                case 'while': return this.parseWhile();
+                case 'try': return this.parseTry();
+                case 'return': {
+                    this.next();
+                    const argument = this.atStatementEnd() ? undefined : this.parseExpression();
+                    return { type: 'ReturnStatement', argument, start: token.start, end: this.prevEnd() };
+                }
+                case 'exit': {
+                    this.next();
+                    const args = this.atStatementEnd() ? [] : this.parseExpressionList();
+                    return { type: 'ExitStatement', arguments: args, start: token.start, end: this.prevEnd() };
+                }
+                case 'throw': {
+                    this.next();
+                    const argument = this.parseExpression();
+                    return { type: 'ThrowStatement', argument, start: token.start, end: this.prevEnd() };
+                }
+                case 'break': this.next(); return { type: 'BreakStatement', start: token.start, end: token.end };
+                case 'continue': this.next(); return { type: 'ContinueStatement', start: token.start, end: token.end };
+            }
+        }
+        if (this.is('{')) return this.parseBlock();
+        // assert 表达式 : 状态码, 消息
+        if (this.isWord('assert') && !this.peek(1).newlineBefore && !['(', '.', '=', '?.', ')', ';', ','].includes(this.peek(1).value)) {
+            this.next();
+            const test = this.parseExpression();
+            const args = this.eat(':') || this.eat(',') ? this.parseExpressionList() : [];
+            return { type: 'AssertStatement', test, arguments: args, start: token.start, end: this.prevEnd() };
+        }
+        const expression = this.parseExpression();
+        return { type: 'ExpressionStatement', expression, start: expression.start, end: expression.end };
+    }
+
+    private atStatementEnd(): boolean {
+        const token = this.peek();
+        return token.type === 'eof' || token.newlineBefore || this.is(';') || this.is('}');
+    }
+
+    private parseExpressionList(): Expression[] {
+        const list = [this.parseExpression()];
+        while (this.eat(',')) list.push(this.parseExpression());
+        return list;
+    }
+
+    private parseBlock(): BlockStatement {
+        const open = this.expect('{');
+        const body = this.parseStatementList(true);
+        if (!this.is('}')) {
+            this.errors.push({ message: '缺少「}」', start: open.start, end: open.end });
+            return { type: 'BlockStatement', body, start: open.start, end: this.prevEnd() };
+        }
+        const close = this.next();
+        return { type: 'BlockStatement', body, start: open.start, end: close.end };
+    }
+
+    private parseBody(): Statement {
+        return this.is('{') ? this.parseBlock() : this.parseStatement();
+    }
+
+    private parseVariableDeclaration(): VariableDeclaration {
+        const kw = this.next();
+        const id = this.identifier();
+        const init = this.eat('=') ? this.parseExpression() : undefined;
+        return { type: 'VariableDeclaration', kind: kw.value as 'var' | 'let' | 'const', id, init, start: kw.start, end: this.prevEnd() };
+    }
+
+    // import 'java.lang.System' as System / import "@/common/util" as util / import log
+    private parseImport(): ImportDeclaration {
+        const kw = this.next();
+        const token = this.peek();
+        let source: string;
+        let sourceKind: 'string' | 'name';
+        let sourceStart = token.start;
+        if (token.type === 'string' && (token.quote === '\'' || token.quote === '"')) {
+            this.next();
+            source = token.value.slice(1, token.terminated ? -1 : undefined);
+            sourceKind = 'string';
+        } else if (token.type === 'identifier') {
+            const names = [this.next().value];
+            while (this.is('.') && !this.peek(1).newlineBefore) {
+                this.next();
+                if (this.eat('*')) { names.push('*'); break; }
+                names.push(this.identifier(true).name);
+            }
+            source = names.join('.');
+            sourceKind = 'name';
+        } else {
+            this.fail('import 后应为字符串或模块名', token.type === 'eof' ? kw : token);
+        }
+        const sourceEnd = this.prevEnd();
+        const alias = this.eat('as') ? this.identifier() : undefined;
+        return { type: 'ImportDeclaration', source, sourceKind, sourceStart, sourceEnd, alias, start: kw.start, end: this.prevEnd() };
+    }
+
+    private parseIf(): IfStatement {
+        const kw = this.next();
+        this.expect('(');
+        const test = this.parseExpression();
+        this.expect(')');
+        const consequent = this.parseBody();
+        let alternate: Statement | undefined;
+        if (this.eat('else')) alternate = this.is('if') ? this.parseIf() : this.parseBody();
+        return { type: 'IfStatement', test, consequent, alternate, start: kw.start, end: this.prevEnd() };
+    }
+
+    // for (item in list) / for (index, item in list)
+    private parseFor(): ForStatement {
+        const kw = this.next();
+        this.expect('(');
+        let index: Identifier | undefined;
+        let item = this.identifier();
+        if (this.eat(',')) {
+            index = item;
+            item = this.identifier();
+        }
+        this.expect('in');
+        const iterable = this.parseExpression();
+        this.expect(')');
+        const body = this.parseBody();
+        return { type: 'ForStatement', index, item, iterable, body, start: kw.start, end: this.prevEnd() };
+    }
+
+    private parseWhile(): WhileStatement {
+        const kw = this.next();
+        this.expect('(');
+        const test = this.parseExpression();
+        this.expect(')');
+        const body = this.parseBody();
+        return { type: 'WhileStatement', test, body, start: kw.start, end: this.prevEnd() };
+    }
+
+    private parseTry(): TryStatement {
+        const kw = this.next();
+        const resources: VariableDeclaration[] = [];
+        if (this.eat('(')) {
+            while (!this.is(')')) {
+                if (this.is('var') || this.is('let') || this.is('const')) {
+                    resources.push(this.parseVariableDeclaration());
+                } else {
+                    const id = this.identifier();
+                    this.expect('=');
+                    const init = this.parseExpression();
+                    resources.push({ type: 'VariableDeclaration', kind: 'var', id, init, start: id.start, end: init.end });
+                }
+                if (!this.eat(';') && !this.eat(',')) break;
+            }
+            this.expect(')');
+        }
+        const block = this.parseBlock();
+        let param: Identifier | undefined;
+        let handler: BlockStatement | undefined;
+        let finalizer: BlockStatement | undefined;
+        if (this.eat('catch')) {
+            if (this.eat('(')) {
+                param = this.identifier();
+                this.expect(')');
+            }
+            handler = this.parseBlock();
+        }
+        if (this.eat('finally')) finalizer = this.parseBlock();
+        if (!handler && !finalizer) this.fail('try 之后缺少 catch 或 finally');
+        return { type: 'TryStatement', resources, block, param, handler, finalizer, start: kw.start, end: this.prevEnd() };
+    }
+
+    // ------------------------------------------------------------------
+    // 表达式
+
+    parseExpression(): Expression {
+        if (this.isLambdaAhead()) return this.parseLambda();
+        const left = this.parseConditional();
+        const op = this.peek();
+        if (op.type === 'punct' && ASSIGN_OPERATORS.has(op.value)) {
+            if (left.type !== 'Identifier' && left.type !== 'MemberExpression') this.fail('无效的赋值目标', op);
+            this.next();
+            const right = this.parseExpression();
+            return { type: 'AssignmentExpression', operator: op.value, left, right, start: left.start, end: right.end };
+        }
+        return left;
+    }
+
+    private isArrow(offset: number): boolean {
+        return this.is('=>', offset) || this.is('->', offset);
+    }
+
+    private isLambdaAhead(): boolean {
+        if (this.peek().type === 'identifier') return this.isArrow(1);
+        if (!this.is('(')) return false;
+        let depth = 0;
+        for (let i = this.pos; i < this.tokens.length; i++) {
+            const token = this.tokens[i];
+            if (token.type !== 'punct') continue;
+            if (token.value === '(') depth++;
+            else if (token.value === ')' && --depth === 0) return this.isArrow(i + 1 - this.pos);
+        }
+        return false;
+    }
+
+    private parseLambda(): LambdaExpression {
+        const start = this.peek().start;
+        const params: Identifier[] = [];
+        let rest: Identifier | undefined;
+        if (this.eat('(')) {
+            while (!this.is(')')) {
+                if (this.eat('...')) {
+                    rest = this.identifier();
+                    break;
+                }
+                params.push(this.identifier());
+                if (!this.eat(',')) break;
+            }
+            this.expect(')');
+        } else {
+            params.push(this.identifier());
+        }
+        this.next(); // => 或 ->
+        const body = this.is('{') ? this.parseBlock() : this.parseExpression();
+        return { type: 'LambdaExpression', params, rest, body, start, end: body.end };
+    }
+
+    private parseConditional(): Expression {
+        const test = this.parseBinary(0);
+        if (!this.eat('?')) return test;
+        const consequent = this.parseExpression();
+        this.expect(':');
+        const alternate = this.parseExpression();
+        return { type: 'ConditionalExpression', test, consequent, alternate, start: test.start, end: alternate.end };
+    }
+
+    private binaryOperator(): string | undefined {
+        const token = this.peek();
+        if ((token.type === 'punct' || (token.type === 'keyword' && token.value === 'instanceof')) && BINARY_PRECEDENCE[token.value] !== undefined) {
+            return token.value;
+        }
+        // LINQ 条件中的 = 为相等比较，and / or 为逻辑运算
+        if (this.linqDepth > 0 && token.type === 'punct' && token.value === '=') return '==';
+        if (this.linqDepth > 0 && token.type === 'identifier') {
+            if (token.value === 'and') return '&&';
+            if (token.value === 'or') return '||';
+        }
+        return undefined;
+    }
+
+    private parseBinary(minPrecedence: number): Expression {
+        let left = this.parseUnary();
+        for (;;) {
+            const op = this.binaryOperator();
+            if (!op || BINARY_PRECEDENCE[op] <= minPrecedence) return left;
+            this.next();
+            const right = this.parseBinary(BINARY_PRECEDENCE[op]);
+            left = { type: 'BinaryExpression', operator: op, left, right, start: left.start, end: right.end };
+        }
+    }
+
+    private parseUnary(): Expression {
+        const token = this.peek();
+        if (token.type === 'punct' && ['!', '-', '+', '~'].includes(token.value)) {
+            this.next();
+            const argument = this.parseUnary();
+            return { type: 'UnaryExpression', operator: token.value, argument, start: token.start, end: argument.end };
+        }
+        if (token.type === 'punct' && (token.value === '++' || token.value === '--')) {
+            this.next();
+            const argument = this.parseUnary();
+            return { type: 'UpdateExpression', operator: token.value, argument, prefix: true, start: token.start, end: argument.end };
+        }
+        if (this.is('async')) {
+            this.next();
+            const argument = this.parseUnary();
+            return { type: 'AsyncExpression', argument, start: token.start, end: argument.end };
+        }
+        const expr = this.parseCallMember(this.parsePrimary());
+        const op = this.peek();
+        if (op.type === 'punct' && (op.value === '++' || op.value === '--') && !op.newlineBefore) {
+            this.next();
+            return { type: 'UpdateExpression', operator: op.value, argument: expr, prefix: false, start: expr.start, end: op.end };
+        }
+        return expr;
+    }
+
+    private parseArguments(): Expression[] {
+        this.expect('(');
+        const args: Expression[] = [];
+        while (!this.is(')')) {
+            args.push(this.parseElement());
+            if (!this.eat(',')) break;
+        }
+        this.expect(')');
+        return args;
+    }
+
+    // 数组元素与调用参数（支持 ...展开）
+    private parseElement(): Expression {
+        const token = this.peek();
+        if (this.eat('...')) {
+            const argument = this.parseExpression();
+            return { type: 'SpreadElement', argument, start: token.start, end: argument.end };
+        }
+        return this.parseExpression();
+    }
+
+    private parseCallMember(expr: Expression): Expression {
+        for (;;) {
+            const token = this.peek();
+            if (this.is('.') || this.is('?.')) {
+                this.next();
+                const optional = token.value === '?.';
+                if (optional && this.is('(')) {
+                    const args = this.parseArguments();
+                    expr = { type: 'CallExpression', callee: expr, arguments: args, optional, start: expr.start, end: this.prevEnd() };
+                    continue;
+                }
+                if (this.is('[')) {
+                    this.next();
+                    const property = this.parseExpression();
+                    this.expect(']');
+                    expr = { type: 'MemberExpression', object: expr, property, computed: true, optional, start: expr.start, end: this.prevEnd() };
+                    continue;
+                }
+                const property = this.identifier(true);
+                expr = { type: 'MemberExpression', object: expr, property, computed: false, optional, start: expr.start, end: property.end };
+            } else if (this.is('[') && !token.newlineBefore) {
+                this.next();
+                const property = this.parseExpression();
+                this.expect(']');
+                expr = { type: 'MemberExpression', object: expr, property, computed: true, optional: false, start: expr.start, end: this.prevEnd() };
+            } else if (this.is('(') && !token.newlineBefore) {
+                const args = this.parseArguments();
+                expr = { type: 'CallExpression', callee: expr, arguments: args, optional: false, start: expr.start, end: this.prevEnd() };
+            } else if (this.is('::')) {
+                this.next();
+                const target = this.identifier(true);
+                const args = this.is('(') && !this.peek().newlineBefore ? this.parseArguments() : [];
+                expr = { type: 'ConversionExpression', argument: expr, target, arguments: args, start: expr.start, end: this.prevEnd() };
+            } else {
+                return expr;
+            }
+        }
+    }
+
+    private parsePrimary(): Expression {
+        const token = this.peek();
+        switch (token.type) {
+            case 'number':
+                this.next();
+                return { type: 'Literal', kind: 'number', raw: token.value, start: token.start, end: token.end };
+            case 'string':
+                this.next();
+                return { type: 'Literal', kind: 'string', raw: token.value, lang: token.lang, start: token.start, end: token.end };
+            case 'regex':
+                this.next();
+                return { type: 'Literal', kind: 'regex', raw: token.value, start: token.start, end: token.end };
+            case 'template':
+                this.next();
+                return { type: 'TemplateLiteral', expressions: this.parseTemplateParts(token), start: token.start, end: token.end };
+            case 'identifier':
+                if (token.value === 'select' && this.isLinqAhead()) return this.parseLinq();
+                this.next();
+                return { type: 'Identifier', name: token.value, start: token.start, end: token.end };
+            case 'keyword':
+                if (token.value === 'true' || token.value === 'false') {
+                    this.next();
+                    return { type: 'Literal', kind: 'boolean', raw: token.value, start: token.start, end: token.end };
+                }
+                if (token.value === 'null') {
+                    this.next();
+                    return { type: 'Literal', kind: 'null', raw: token.value, start: token.start, end: token.end };
+                }
+                if (token.value === 'new') return this.parseNew();
+                break;
+            case 'punct':
+                if (token.value === '(') {
+                    this.next();
+                    const expr = this.parseExpression();
+                    this.expect(')');
+                    return expr;
+                }
+                if (token.value === '[') return this.parseArray();
+                if (token.value === '{') return this.parseObject();
+                break;
+        }
+        this.fail(token.type === 'eof' ? '表达式不完整' : `意外的「${token.value}」`);
+    }
+
+    private parseTemplateParts(token: Token): Expression[] {
+        const expressions: Expression[] = [];
+        for (const part of token.parts || []) {
+            const sub = tokenize(this.text, part.start, part.end);
+            this.errors.push(...sub.errors);
+            const parser = new Parser(this.text, sub.tokens, this.errors);
+            try {
+                if (sub.tokens.length > 1) expressions.push(parser.parseExpression());
+            } catch (e) {
+                if (!(e instanceof ParseFailure)) throw e;
+                this.errors.push({ message: e.message, start: e.start, end: e.end });
+            }
+        }
+        return expressions;
+    }
+
+    private parseNew(): NewExpression {
+        const kw = this.next();
+        let callee: Expression = this.identifier();
+        while (this.is('.')) {
+            this.next();
+            const property = this.identifier(true);
+            callee = { type: 'MemberExpression', object: callee, property, computed: false, optional: false, start: callee.start, end: property.end };
+        }
+        const args = this.is('(') ? this.parseArguments() : [];
+        return { type: 'NewExpression', callee, arguments: args, start: kw.start, end: this.prevEnd() };
+    }
+
+    private parseArray(): ArrayExpression {
+        const open = this.next();
+        const elements: Expression[] = [];
+        while (!this.is(']')) {
+            elements.push(this.parseElement());
+            if (!this.eat(',')) break;
+        }
+        const close = this.expect(']');
+        return { type: 'ArrayExpression', elements, start: open.start, end: close.end };
+    }
+
+    private parseObject(): ObjectExpression {
+        const open = this.next();
+        const properties: Array<Property | SpreadElement> = [];
+        while (!this.is('}')) {
+            const token = this.peek();
+            if (this.eat('...')) {
+                const argument = this.parseExpression();
+                properties.push({ type: 'SpreadElement', argument, start: token.start, end: argument.end });
+            } else {
+                let key: Expression;
+                let computed = false;
+                if (this.eat('[')) {
+                    key = this.parseExpression();
+                    this.expect(']');
+                    computed = true;
+                } else if (token.type === 'string' || token.type === 'number') {
+                    key = this.parsePrimary();
+                } else {
+                    key = this.identifier(true);
+                }
+                if (!computed && key.type === 'Identifier' && !this.is(':')) {
+                    properties.push({ type: 'Property', key, value: key, computed, shorthand: true, start: key.start, end: key.end });
+                } else {
+                    this.expect(':');
+                    const value = this.parseExpression();
+                    properties.push({ type: 'Property', key, value, computed, shorthand: false, start: token.start, end: value.end });
+                }
+            }
+            if (!this.eat(',')) break;
+        }
+        const close = this.expect('}');
+        return { type: 'ObjectExpression', properties, start: open.start, end: close.end };
+    }
+
+    // ------------------------------------------------------------------
+    // LINQ：select 字段 from 数据 别名 [left] join ... on ... where ... group by ... having ... order by ... limit ... offset ...
+
+    private isLinqAhead(): boolean {
+        const next = this.peek(1);
+        if (next.type === 'eof') return false;
+        if (next.type === 'identifier' || next.type === 'number' || next.type === 'string') return true;
+        return next.type === 'punct' && (next.value === '*' || next.value === '{' || next.value === '[');
+    }
+
+    private isLinqKeyword(value: string, offset: number = 0): boolean {
+        return this.isWord(value, offset);
+    }
+
+    private linqAlias(): Identifier | undefined {
+        if (this.eat('as')) return this.identifier();
+        const token = this.peek();
+        if (token.type === 'identifier' && !LINQ_KEYWORDS.has(token.value)) return this.identifier();
+        return undefined;
+    }
+
+    private parseLinqSource(): LinqSource {
+        const expression = this.parseBinary(0);
+        const alias = this.linqAlias();
+        return { type: 'LinqSource', expression, alias, start: expression.start, end: this.prevEnd() };
+    }
+
+    private parseLinq(): LinqExpression {
+        const kw = this.next();
+        this.linqDepth++;
+        try {
+            const fields: LinqField[] = [];
+            if (!this.eat('*')) {
+                do {
+                    const expression = this.parseBinary(0);
+                    const alias = this.linqAlias();
+                    fields.push({ type: 'LinqField', expression, alias, start: expression.start, end: this.prevEnd() });
+                } while (this.eat(','));
+            }
+            const node: LinqExpression = { type: 'LinqExpression', fields, joins: [], groupBy: [], orderBy: [], start: kw.start, end: kw.end };
+            if (this.isLinqKeyword('from')) {
+                this.next();
+                node.from = this.parseLinqSource();
+            } else {
+                this.fail('select 语句缺少 from');
+            }
+            for (;;) {
+                const token = this.peek();
+                if (this.isLinqKeyword('join') || (this.isLinqKeyword('left') && this.isLinqKeyword('join', 1))) {
+                    const left = token.value === 'left';
+                    if (left) this.next();
+                    this.next();
+                    const source = this.parseLinqSource();
+                    let on: Expression | undefined;
+                    if (this.isLinqKeyword('on')) {
+                        this.next();
+                        on = this.parseBinary(0);
+                    }
+                    node.joins.push({ type: 'LinqJoin', left, source, on, start: token.start, end: this.prevEnd() });
+                } else if (this.isLinqKeyword('where')) {
+                    this.next();
+                    node.where = this.parseBinary(0);
+                } else if (this.isLinqKeyword('group') && this.isLinqKeyword('by', 1)) {
+                    this.next();
+                    this.next();
+                    do node.groupBy.push(this.parseBinary(0)); while (this.eat(','));
+                } else if (this.isLinqKeyword('having')) {
+                    this.next();
+                    node.having = this.parseBinary(0);
+                } else if (this.isLinqKeyword('order') && this.isLinqKeyword('by', 1)) {
+                    this.next();
+                    this.next();
+                    do {
+                        const expression = this.parseBinary(0);
+                        let desc = false;
+                        if (this.isLinqKeyword('desc')) { this.next(); desc = true; }
+                        else if (this.isLinqKeyword('asc')) this.next();
+                        node.orderBy.push({ type: 'LinqOrder', expression, desc, start: expression.start, end: this.prevEnd() });
+                    } while (this.eat(','));
+                } else if (this.isLinqKeyword('limit')) {
+                    this.next();
+                    node.limit = this.parseBinary(0);
+                } else if (this.isLinqKeyword('offset')) {
+                    this.next();
+                    node.offset = this.parseBinary(0);
+                } else {
+                    break;
+                }
+            }
+            node.end = this.prevEnd();
+            return node;
+        } finally {
+            this.linqDepth--;
+        }
+    }
+}
+
+// 解析整个脚本
+export function parseScript(text: string): ParseResult {
+    const lexed = tokenize(text);
+    const errors = [...lexed.errors];
+    const program = new Parser(text, lexed.tokens, errors).parseProgram();
+    return { program, tokens: lexed.tokens, comments: lexed.comments, errors };
+}
+
+function isNode(value: any): value is Node {
+    return !!value && typeof value === 'object' && typeof value.type === 'string' && typeof value.start === 'number';
+}
+
+// 直接子节点（按源码顺序）
+export function childNodes(node: Node): Node[] {
+    const children: Node[] = [];
+    for (const key of Object.keys(node)) {
+        const value = (node as any)[key];
+        if (Array.isArray(value)) {
+            for (const item of value) if (isNode(item)) children.push(item);
+        } else if (isNode(value)) {
+            // 简写属性 {a} 中 key 与 value 为同一节点
+            if (key === 'value' && node.type === 'Property' && (node as Property).shorthand) continue;
+            children.push(value);
+        }
+    }
+    return children.sort((a, b) => a.start - b.start);
+}
+
+// 深度优先遍历；回调返回 false 时不再进入该节点的子节点
+export function walk(node: Node, visit: (node: Node, parent: Node | undefined) => boolean | void, parent?: Node): void {
+    if (visit(node, parent) === false) return;
+    for (const child of childNodes(node)) walk(child, visit, node);
+}
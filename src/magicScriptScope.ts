@@ -0,0 +1,318 @@
+import {
+    BlockStatement, Expression, Identifier, ImportDeclaration, LambdaExpression, LinqExpression, Node, ParseResult, Statement,
+    Token, VariableDeclaration, childNodes, parseScript,
+} from './magicScriptParser';
+
+// Magic Script 作用域分析：var 属于所在函数（lambda）或脚本，let/const 属于所在代码块
+// 未声明的标识符在 magic-api 中通常是请求参数、路径变量或内置模块，因此不视为错误
+
+export type DeclarationKind = 'var' | 'let' | 'const' | 'import' | 'param' | 'loop' | 'catch' | 'linq';
+
+export interface Reference {
+    id: Identifier;
+    write: boolean; // 赋值或自增/自减
+    declaration?: Declaration;
+    scope: Scope;
+    redeclaration?: VariableDeclaration; // 同一函数作用域中重复的 var 声明
+}
+
+export interface Declaration {
+    name: string;
+    kind: DeclarationKind;
+    id: Identifier;
+    node: Node; // 声明所在的语句或表达式
+    scope: Scope;
+    visibleFrom: number; // 自该偏移起可被引用
+    references: Reference[];
+}
+
+export interface Scope {
+    kind: 'program' | 'function' | 'block' | 'linq';
+    node: Node;
+    start: number;
+    end: number;
+    parent?: Scope;
+    children: Scope[];
+    declarations: Declaration[];
+}
+
+export interface ScriptAnalysis extends ParseResult {
+    scope: Scope;
+    declarations: Declaration[];
+    references: Reference[];
+}
+
+// 导入语句绑定的名称：别名，或模块名 / 类名的最后一段（import log、import 'java.util.Date'）
+export function importBindingName(node: ImportDeclaration): string | undefined {
+    if (node.alias) return node.alias.name;
+    if (node.sourceKind === 'name') return node.source.endsWith('.*') ? undefined : node.source.split('.').pop();
+    const last = node.source.split('.').pop() || '';
+    return !node.source.startsWith('@') && /^[A-Z][A-Za-z0-9_$]*$/.test(last) ? last : undefined;
+}
+
+class ScopeBuilder {
+    readonly declarations: Declaration[] = [];
+    readonly references: Reference[] = [];
+    readonly root: Scope;
+    private current: Scope;
+
+    constructor(program: Node) {
+        this.root = { kind: 'program', node: program, start: program.start, end: program.end, children: [], declarations: [] };
+        this.current = this.root;
+    }
+
+    private push(kind: Scope['kind'], node: Node, start: number = node.start, end: number = node.end): void {
+        const scope: Scope = { kind, node, start, end, parent: this.current, children: [], declarations: [] };
+        this.current.children.push(scope);
+        this.current = scope;
+    }
+
+    private pop(): void {
+        this.current = this.current.parent || this.root;
+    }
+
+    private declare(kind: DeclarationKind, id: Identifier, node: Node, visibleFrom: number, scope: Scope = this.current): void {
+        const declaration: Declaration = { name: id.name, kind, id, node, scope, visibleFrom, references: [] };
+        scope.declarations.push(declaration);
+        this.declarations.push(declaration);
+    }
+
+    private functionScope(): Scope {
+        let scope = this.current;
+        while (scope.kind !== 'function' && scope.kind !== 'program' && scope.parent) scope = scope.parent;
+        return scope;
+    }
+
+    private reference(id: Identifier, write: boolean = false): void {
+        this.references.push({ id, write, scope: this.current });
+    }
+
+    visitStatements(body: Statement[]): void {
+        for (const statement of body) this.visit(statement);
+    }
+
+    // 代码块：作为 lambda 或 for 的函数体时不再单独建立作用域
+    private visitBlock(block: BlockStatement, ownScope: boolean = true): void {
+        if (ownScope) this.push('block', block);
+        this.visitStatements(block.body);
+        if (ownScope) this.pop();
+    }
+
+    private visitDeclaration(node: VariableDeclaration): void {
+        if (node.init) this.visit(node.init);
+        const scope = node.kind === 'var' ? this.functionScope() : this.current;
+        // var 在同一函数作用域中重复声明时仍是同一个变量，按赋值处理
+        const existing = node.kind === 'var' ? scope.declarations.find(d => d.kind === 'var' && d.name === node.id.name) : undefined;
+        if (existing) {
+            this.references.push({ id: node.id, write: true, declaration: existing, scope: this.current, redeclaration: node });
+            return;
+        }
+        // 以 lambda 初始化时允许在函数体内递归引用自身
+        const visibleFrom = node.init?.type === 'LambdaExpression' ? node.id.end : node.end;
+        this.declare(node.kind, node.id, node, visibleFrom, scope);
+    }
+
+    private visitLambda(node: LambdaExpression): void {
+        this.push('function', node);
+        for (const param of node.params) this.declare('param', param, node, node.start);
+        if (node.rest) this.declare('param', node.rest, node, node.start);
+        if (node.body.type === 'BlockStatement') this.visitBlock(node.body, false);
+        else this.visit(node.body);
+        this.pop();
+    }
+
+    private visitLinq(node: LinqExpression): void {
+        // 别名在整个 select 表达式中可见（字段写在 from 之前）
+        if (node.from) this.visit(node.from.expression);
+        this.push('linq', node);
+        if (node.from?.alias) this.declare('linq', node.from.alias, node, node.start);
+        for (const join of node.joins) {
+            this.visit(join.source.expression);
+            if (join.source.alias) this.declare('linq', join.source.alias, node, node.start);
+        }
+        for (const field of node.fields) this.visit(field.expression);
+        for (const join of node.joins) if (join.on) this.visit(join.on);
+        const rest: Array<Expression | undefined> = [node.where, ...node.groupBy, node.having, ...node.orderBy.map(o => o.expression), node.limit, node.offset];
+        for (const expr of rest) if (expr) this.visit(expr);
+        this.pop();
+    }
+
+    private visitAssignable(target: Expression): void {
+        if (target.type === 'Identifier') this.reference(target, true);
+        else this.visit(target);
+    }
+
+    visit(node: Node): void {
+        switch (node.type) {
+            case 'Identifier':
+                this.reference(node);
+                return;
+            case 'VariableDeclaration':
+                this.visitDeclaration(node);
+                return;
+            case 'ImportDeclaration': {
+                const name = importBindingName(node);
+                if (!name) return;
+                const id: Identifier = node.alias || { type: 'Identifier', name, start: node.sourceEnd - name.length - (node.sourceKind === 'string' ? 1 : 0), end: node.sourceEnd - (node.sourceKind === 'string' ? 1 : 0) };
+                this.declare('import', id, node, node.end);
+                return;
+            }
+            case 'BlockStatement':
+                this.visitBlock(node);
+                return;
+            case 'ForStatement':
+                this.visit(node.iterable);
+                this.push('block', node);
+                if (node.index) this.declare('loop', node.index, node, node.body.start);
+                this.declare('loop', node.item, node, node.body.start);
+                if (node.body.type === 'BlockStatement') this.visitBlock(node.body, false);
+                else this.visit(node.body);
+                this.pop();
+                return;
+            case 'TryStatement':
+                this.push('block', node, node.start, node.block.end);
+                for (const resource of node.resources) this.visitDeclaration(resource);
+                this.visitBlock(node.block, false);
+                this.pop();
+                if (node.handler) {
+                    this.push('block', node.handler);
+                    if (node.param) this.declare('catch', node.param, node, node.handler.start);
+                    this.visitBlock(node.handler, false);
+                    this.pop();
+                }
+                if (node.finalizer) this.visitBlock(node.finalizer);
+                return;
+            case 'LambdaExpression':
+                this.visitLambda(node);
+                return;
+            case 'LinqExpression':
+                this.visitLinq(node);
+                return;
+            case 'MemberExpression':
+                this.visit(node.object);
+                if (node.computed) this.visit(node.property);
+                return;
+            case 'Property':
+                if (node.computed) this.visit(node.key);
+                this.visit(node.value);
+                return;
+            case 'ConversionExpression':
+                this.visit(node.argument);
+                node.arguments.forEach(arg => this.visit(arg));
+                return;
+            case 'AssignmentExpression':
+                // 复合赋值同时读取原值
+                if (node.operator !== '=' && node.left.type === 'Identifier') this.reference(node.left);
+                this.visitAssignable(node.left);
+                this.visit(node.right);
+                return;
+            case 'UpdateExpression':
+                if (node.argument.type === 'Identifier') this.reference(node.argument);
+                this.visitAssignable(node.argument);
+                return;
+            default:
+                for (const child of childNodes(node)) this.visit(child);
+        }
+    }
+}
+
+// 在作用域链上查找名称：取可见位置不晚于 offset 的最近一次声明
+export function resolveName(scope: Scope | undefined, name: string, offset: number): Declaration | undefined {
+    for (let s = scope; s; s = s.parent) {
+        let found: Declaration | undefined;
+        for (const d of s.declarations) {
+            if (d.name === name && d.visibleFrom <= offset && (!found || d.visibleFrom >= found.visibleFrom)) found = d;
+        }
+        if (found) return found;
+    }
+    return undefined;
+}
+
+// 解析并分析脚本
+export function analyzeScript(text: string): ScriptAnalysis {
+    const parsed = parseScript(text);
+    const builder = new ScopeBuilder(parsed.program);
+    builder.visitStatements(parsed.program.body);
+    for (const ref of builder.references) {
+        ref.declaration = ref.declaration || resolveName(ref.scope, ref.id.name, ref.id.start);
+        ref.declaration?.references.push(ref);
+    }
+    return { ...parsed, scope: builder.root, declarations: builder.declarations, references: builder.references };
+}
+
+// 包含 offset 的最内层作用域
+export function scopeAt(root: Scope, offset: number): Scope {
+    let scope = root;
+    for (;;) {
+        const child = scope.children.find(c => c.start <= offset && offset <= c.end);
+        if (!child) return scope;
+        scope = child;
+    }
+}
+
+// offset 处可见的全部声明（内层同名声明优先）
+export function visibleDeclarations(analysis: ScriptAnalysis, offset: number): Declaration[] {
+    const result = new Map<string, Declaration>();
+    for (let s: Scope | undefined = scopeAt(analysis.scope, offset); s; s = s.parent) {
+        for (const d of s.declarations) {
+            if (d.visibleFrom > offset || result.has(d.name)) continue;
+            const latest = resolveName(s, d.name, offset);
+            if (latest && latest.scope === s) result.set(d.name, latest);
+        }
+    }
+    return Array.from(result.values());
+}
+
+// offset 处的标识符对应的声明（位于声明名称或引用上）
+export function declarationAt(analysis: ScriptAnalysis, offset: number): { id: Identifier; declaration?: Declaration } | undefined {
+    const inside = (id: Identifier) => id.start <= offset && offset <= id.end;
+    const decl = analysis.declarations.find(d => inside(d.id));
+    if (decl) return { id: decl.id, declaration: decl };
+    const ref = analysis.references.find(r => inside(r.id));
+    return ref ? { id: ref.id, declaration: ref.declaration } : undefined;
+}
+
+// 按文档版本缓存分析结果（定义、符号、悬停、补全在同一版本上共用）
+const documentCache = new Map<string, { version: number; analysis: ScriptAnalysis }>();
+const DOCUMENT_CACHE_SIZE = 20;
+
+export function analyzeDocument(document: { uri: { toString(): string }; version: number; getText(): string }): ScriptAnalysis {
+    const key = document.uri.toString();
+    const cached = documentCache.get(key);
+    if (cached && cached.version === document.version) return cached.analysis;
+    const analysis = analyzeScript(document.getText());
+    documentCache.delete(key);
+    documentCache.set(key, { version: document.version, analysis });
+    if (documentCache.size > DOCUMENT_CACHE_SIZE) documentCache.delete(documentCache.keys().next().value as string);
+    return analysis;
+}
+
+// offset 处的记号（位于记号末尾时也算，便于在输入中的标识符上查询）
+export function tokenAt(analysis: ParseResult, offset: number): Token | undefined {
+    const tokens = analysis.tokens;
+    let lo = 0;
+    let hi = tokens.length - 1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        const token = tokens[mid];
+        if (offset < token.start) hi = mid - 1;
+        else if (offset > token.end) lo = mid + 1;
+        else {
+            // 两个记号相邻时优先取标识符
+            const next = tokens[mid + 1];
+            if (offset === token.end && next && next.start === offset && next.type === 'identifier') return next;
+            return token.type === 'eof' ? undefined : token;
+        }
+    }
+    return undefined;
+}
+
+// offset 是否位于注释或字符串内部（模板字符串的 ${} 表达式除外）
+export function isInCommentOrString(analysis: ParseResult, offset: number): boolean {
+    if (analysis.comments.some(c => c.start < offset && (offset < c.end || (!c.block && offset === c.end)))) return true;
+    const token = analysis.tokens.find(t => t.start < offset && offset < t.end);
+    if (!token) return false;
+    if (token.type === 'string') return true;
+    if (token.type === 'template') return !(token.parts || []).some(p => p.start <= offset && offset <= p.end);
+    return false;
+}
@@ -1,8 +1,11 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { MagicApiClient, MagicServerConfig, MagicGroupMetaRaw } from './magicApiClient';
+import { MagicApiClient, MagicServerConfig, MagicGroupMetaRaw, apiRoutePath } from './magicApiClient';
 import { getAgentsManual } from './agentsManual';
-import { MAGIC_RESOURCE_TYPES, MagicResourceType } from './types';
+import { MAGIC_RESOURCE_TYPES, MagicResourceType, REQUEST_COLLECTION_SUFFIX, lockOwnerLabel } from './types';
+import { CredentialStore, ServerCredentials } from './credentialStore';
+import { ServerManager } from './serverManager';
+import { debug } from './logger';
 import { Buffer } from 'buffer';
 import os from 'os';
 import { diff_match_patch, DIFF_DELETE, DIFF_EQUAL, DIFF_INSERT } from 'diff-match-patch';
@@ -11,9 +14,11 @@ interface MirrorMeta {
     createdAt: number;
     // 持久化基础连接信息，支持镜像工作区独立直连
     url?: string; // baseUrl，例如 http://localhost:8080/app
-    // 认证信息（用于镜像运行/调试直连，不依赖全局当前服务器）
-    token?: string;
     username?: string;
+    // 凭据引用：密码与令牌保存在 SecretStorage 中，此处仅记录引用键
+    credentialRef?: string;
+    // 旧版明文凭据，读取时迁移到 SecretStorage 后删除
+    token?: string;
     password?: string;
     // 端口（可选）：若服务自定义了 LSP/Debug 端口，方便直连使用
     lspPort?: number;
@@ -28,7 +33,7 @@ interface MirrorMeta {
 }
 
 // 镜像文件的本地元数据格式（参考 MagicFileInfo，但不包含脚本）
-interface MirrorFileMeta {
+export interface MirrorFileMeta {
     id?: string; // 服务器文件ID
     name: string; // 文件名（不含扩展名）
     type: MagicResourceType; // 资源类型
@@ -39,6 +44,7 @@ interface MirrorFileMeta {
     requestMapping?: string; // API 映射
     description?: string; // 描述
     locked?: boolean; // 锁定
+    lockedBy?: string; // 锁定人
     // —— 类型专属字段（根据服务器导出定义） ——
     // API：参数、请求头、内容类型、超时等
     params?: any[];
@@ -49,6 +55,19 @@ interface MirrorFileMeta {
     cron?: string;
     enabled?: boolean;
     executeOnStart?: boolean;
+    // 函数：返回值类型、映射路径与参数
+    returnType?: string;
+    mappingPath?: string;
+    parameters?: any[];
+    // 数据源：连接配置（dataSourceType 对应服务端字段 type，即连接池实现类）
+    key?: string;
+    url?: string;
+    driverClassName?: string;
+    username?: string;
+    password?: string;
+    dataSourceType?: string;
+    maxRows?: number;
+    properties?: Record<string, any>;
     // 其他未识别的扩展字段（完整保留服务端原始内容）
     extra?: Record<string, any>;
     createTime?: number; // 服务器创建时间
@@ -114,17 +133,113 @@ export class MirrorWorkspaceManager {
         return false;
     }
 
-    public async readMirrorMeta(folder: vscode.Uri): Promise<MirrorMeta | null> {
+    private async readMirrorMeta(folder: vscode.Uri): Promise<MirrorMeta | null> {
         try {
             const metaUri = vscode.Uri.joinPath(folder, '.magic-api-mirror.json');
             const buf = await vscode.workspace.fs.readFile(metaUri);
-            const text = Buffer.from(buf).toString('utf8');
-            return JSON.parse(text);
+            return JSON.parse(Buffer.from(buf).toString('utf8'));
         } catch {
             return null;
         }
     }
 
+    // 读取镜像元数据（供连接、请求等使用）：其中仍有明文凭据时先迁移到 SecretStorage
+    public async loadMirrorMeta(root: vscode.Uri): Promise<MirrorMeta | null> {
+        await this.migrateMirrorCredentials(root);
+        return this.readMirrorMeta(root);
+    }
+
+    // 旧版镜像中的明文凭据：迁移到该镜像专用的 SecretStorage 引用，已有凭据的引用不会被覆盖
+    private async migrateMirrorCredentials(root: vscode.Uri): Promise<void> {
+        const meta = await this.readMirrorMeta(root);
+        const plain = CredentialStore.pick(meta);
+        const store = CredentialStore.getInstance();
+        if (!meta || !store || CredentialStore.isEmpty(plain)) return;
+        try {
+            let ref = this.getCredentialRefFor(root);
+            if (await store.get(ref)) ref = `${ref}#${Date.now().toString(36)}`;
+            await store.set(ref, plain);
+            delete meta.token;
+            delete meta.password;
+            meta.credentialRef = ref;
+            await this.writeMirrorMeta(root, meta);
+        } catch (e) {
+            // 迁移失败时保持原样，下次打开再尝试
+            debug(`迁移镜像凭据失败: ${root.toString()} ${String(e)}`);
+        }
+    }
+
+    // 凭据引用：已配置的服务器复用其 ID（凭据由服务器配置维护），否则按镜像根目录生成专用引用
+    private getCredentialRefFor(root: vscode.Uri, serverConfig?: MagicServerConfig): string {
+        const configured = !!serverConfig?.id && ServerManager.getInstance().getServers().some(s => s.id === serverConfig.id);
+        return configured ? serverConfig!.id : `mirror:${root.toString()}`;
+    }
+
+    // 生成写入镜像元数据的连接信息（凭据写入 SecretStorage，元数据中只记录引用）
+    private async toMirrorConnection(root: vscode.Uri, serverConfig?: MagicServerConfig): Promise<Partial<MirrorMeta>> {
+        const conn: Partial<MirrorMeta> = {
+            url: serverConfig?.url,
+            username: serverConfig?.username,
+            lspPort: serverConfig?.lspPort,
+            debugPort: serverConfig?.debugPort,
+        };
+        const creds = CredentialStore.pick(serverConfig);
+        if (serverConfig && !CredentialStore.isEmpty(creds)) {
+            const store = CredentialStore.getInstance();
+            const ref = this.getCredentialRefFor(root, serverConfig);
+            if (store) {
+                if (ref !== serverConfig.id) await store.set(ref, creds);
+                conn.credentialRef = ref;
+            } else {
+                // SecretStorage 不可用时退回明文（不应发生，扩展激活时即初始化）
+                conn.token = creds.token;
+                conn.password = creds.password;
+            }
+        }
+        return conn;
+    }
+
+    // 根据镜像元数据解析连接配置：优先使用已配置的服务器，否则从 SecretStorage 读取凭据
+    public async resolveMirrorServerConfig(meta: MirrorMeta | null | undefined): Promise<MagicServerConfig | null> {
+        if (!meta?.url) return null;
+        const norm = meta.url.replace(/\/$/, '');
+        const fromManager = ServerManager.getInstance().getServers().find(s => (s.url || '').replace(/\/$/, '') === norm);
+        if (fromManager) return fromManager;
+
+        let creds: ServerCredentials = CredentialStore.pick(meta);
+        const store = CredentialStore.getInstance();
+        if (meta.credentialRef && store && CredentialStore.isEmpty(creds)) {
+            creds = (await store.get(meta.credentialRef)) || {};
+            if (CredentialStore.isEmpty(creds)) {
+                // 引用存在但本机没有对应凭据（例如镜像目录来自其他机器），提示重新输入
+                const input = await vscode.window.showInputBox({
+                    prompt: meta.username
+                        ? `请输入 ${meta.url} 用户 ${meta.username} 的密码`
+                        : `请输入 ${meta.url} 的访问令牌`,
+                    password: true,
+                    ignoreFocusOut: true,
+                });
+                if (input) {
+                    creds = meta.username ? { password: input } : { token: input };
+                    await store.set(meta.credentialRef, creds);
+                }
+            }
+        }
+
+        let host = meta.url;
+        try { host = new URL(meta.url).host; } catch {}
+        return {
+            id: `mirror_${meta.url.replace(/^https?:\/\//, '').replace(/\/$/, '').replace(/[^a-zA-Z0-9._-]/g, '_')}`,
+            name: `Mirror: ${host}`,
+            url: meta.url,
+            username: meta.username,
+            password: creds.password,
+            token: creds.token,
+            lspPort: meta.lspPort,
+            debugPort: meta.debugPort,
+        };
+    }
+
     private async writeMirrorMeta(root: vscode.Uri, meta: MirrorMeta): Promise<void> {
         const dirUri = root;
         await this.ensureDir(dirUri);
@@ -171,6 +286,12 @@ export class MirrorWorkspaceManager {
         return vscode.Uri.joinPath(dirUri, metaName);
     }
 
+    // 计算某文件对应的请求示例集合路径（<name>.ms.requests.json）
+    private getRequestCollectionUriFor(root: vscode.Uri, type: MagicResourceType, groupPathSub: string | undefined, fileName: string): vscode.Uri {
+        const dirUri = vscode.Uri.joinPath(root, type, ...(groupPathSub ? groupPathSub.split('/') : []));
+        return vscode.Uri.joinPath(dirUri, `${fileName}${REQUEST_COLLECTION_SUFFIX}`);
+    }
+
     // 新增：计算某分组目录的分组元数据文件路径 (.group.meta.json)
     private getGroupMetaFileUriFor(root: vscode.Uri, type: MagicResourceType, groupPathSub: string | undefined): vscode.Uri {
         const dirUri = vscode.Uri.joinPath(root, type, ...(groupPathSub ? groupPathSub.split('/') : []));
@@ -204,6 +325,43 @@ export class MirrorWorkspaceManager {
         }
     }
 
+    // 读取镜像 .ms 文件对应的本地元数据（文件不在镜像工作区时返回 null）
+    public async readMirrorFileMeta(fileUri: vscode.Uri): Promise<{ root: vscode.Uri; type: MagicResourceType; groupPathSub: string; fileName: string; meta: MirrorFileMeta | null; metaUri: vscode.Uri } | null> {
+        const root = await this.findMirrorRootForUri(fileUri);
+        if (!root) return null;
+        const parsed = this.parseMirrorFile(root, fileUri);
+        if (!parsed.type || !parsed.fileName) return null;
+        const meta = await this.readLocalMeta(root, parsed.type, parsed.groupPathSub, parsed.fileName);
+        const metaUri = this.getMetaFileUriFor(root, parsed.type, parsed.groupPathSub, parsed.fileName);
+        return { root, type: parsed.type, groupPathSub: parsed.groupPathSub, fileName: parsed.fileName, meta, metaUri };
+    }
+
+    // 更新镜像 .ms 文件元数据中的锁定状态（不触发推送）
+    public async setMirrorFileLock(fileUri: vscode.Uri, locked: boolean, lockedBy?: string): Promise<void> {
+        const local = await this.readMirrorFileMeta(fileUri);
+        if (!local?.meta) return;
+        await this.writeLocalMeta(local.root, { ...local.meta, locked: locked || undefined, lockedBy: locked ? lockedBy : undefined });
+    }
+
+    // 合并镜像 .ms 文件元数据中的接口定义字段（不触发推送）
+    public async mergeMirrorFileMeta(fileUri: vscode.Uri, fields: Partial<MirrorFileMeta>): Promise<void> {
+        const local = await this.readMirrorFileMeta(fileUri);
+        if (!local?.meta) return;
+        await this.writeLocalMeta(local.root, { ...local.meta, ...fields });
+    }
+
+    // 根据各级 .group.meta.json 的 path 与文件元数据计算接口请求路径
+    public async resolveLocalRequestPath(root: vscode.Uri, type: MagicResourceType, groupPathSub: string, meta: MirrorFileMeta | null, fileName: string): Promise<string> {
+        const segs: string[] = [];
+        const parts = groupPathSub.split('/').filter(Boolean);
+        for (let i = 1; i <= parts.length; i++) {
+            const gmeta = await this.readLocalGroupMeta(root, type, parts.slice(0, i).join('/'));
+            if (gmeta?.path) segs.push(String(gmeta.path));
+        }
+        segs.push((meta && apiRoutePath(meta)) || fileName);
+        return '/' + segs.map(s => s.replace(/^\/+|\/+$/g, '')).filter(Boolean).join('/');
+    }
+
     // 写入某文件对应的本地元数据
     private async writeLocalMeta(root: vscode.Uri, meta: MirrorFileMeta): Promise<void> {
         const segs = meta.groupPath.split('/').filter(Boolean);
@@ -225,7 +383,7 @@ export class MirrorWorkspaceManager {
     }
 
     // 从服务器文件信息生成本地元数据对象
-    private toMirrorMetaFromServer(info: any): MirrorFileMeta {
+    public toMirrorMetaFromServer(info: any): MirrorFileMeta {
         const segs = String(info.groupPath || '').split('/').filter(Boolean);
         const type = (segs[0] || info.type) as MagicResourceType;
         const groupPath = String(info.groupPath || segs.join('/')) || type;
@@ -241,6 +399,7 @@ export class MirrorWorkspaceManager {
             requestMapping: info.requestMapping || undefined,
             description: info.description || undefined,
             locked: info.locked || undefined,
+            lockedBy: info.locked ? info.lockedBy || undefined : undefined,
             createTime: info.createTime,
             updateTime: info.updateTime,
         };
@@ -256,6 +415,20 @@ export class MirrorWorkspaceManager {
             meta.cron = raw.cron ?? undefined;
             meta.enabled = (typeof raw.enabled !== 'undefined') ? !!raw.enabled : undefined;
             meta.executeOnStart = (typeof raw.executeOnStart !== 'undefined') ? !!raw.executeOnStart : undefined;
+        } else if (type === 'function') {
+            meta.returnType = info.returnType ?? raw.returnType ?? undefined;
+            meta.mappingPath = info.mappingPath ?? raw.mappingPath ?? undefined;
+            meta.parameters = info.parameters ?? raw.parameters ?? undefined;
+        } else if (type === 'datasource') {
+            // 数据源的 properties 是连接池参数，不能当作扩展字段读取，直接取顶层字段
+            meta.key = info.key ?? undefined;
+            meta.url = info.url ?? undefined;
+            meta.driverClassName = info.driverClassName ?? undefined;
+            meta.username = info.username ?? undefined;
+            meta.password = info.password ?? undefined;
+            meta.dataSourceType = info.dataSourceType ?? undefined;
+            meta.maxRows = (typeof info.maxRows === 'number') ? info.maxRows : undefined;
+            meta.properties = info.properties ?? undefined;
         }
 
         try {
@@ -274,6 +447,8 @@ export class MirrorWorkspaceManager {
             delete extraCopy.requestMapping;
             delete extraCopy.description;
             delete extraCopy.locked;
+            delete extraCopy.lockedBy;
+            delete extraCopy.lock;
             meta.extra = extraCopy;
         } catch {}
         return meta;
@@ -337,7 +512,7 @@ export class MirrorWorkspaceManager {
         return out;
     }
 
-    private generateTokenConflict(local: string, server: string): string {
+    public generateTokenConflict(local: string, server: string): string {
         const dmp = new diff_match_patch();
         const dict = new Map<string, string>();
         const nextCodeRef = { value: 0xe000 };
@@ -464,12 +639,7 @@ export class MirrorWorkspaceManager {
         progress?.report({ message: '写入镜像连接信息' });
         const mirrorMeta: MirrorMeta = {
             createdAt: Date.now(),
-            url: serverConfig?.url,
-            token: serverConfig?.token,
-            username: serverConfig?.username,
-            password: serverConfig?.password,
-            lspPort: (serverConfig as any)?.lspPort,
-            debugPort: (serverConfig as any)?.debugPort,
+            ...(await this.toMirrorConnection(root, serverConfig)),
         };
         await this.writeMirrorMeta(root, mirrorMeta);
     }
@@ -493,12 +663,7 @@ export class MirrorWorkspaceManager {
             progress.report({ message: '写入镜像元数据' });
             const baseMeta: MirrorMeta = {
                 createdAt: Date.now(),
-                url: serverConfig?.url,
-                token: serverConfig?.token,
-                username: serverConfig?.username,
-                password: serverConfig?.password,
-                lspPort: (serverConfig as any)?.lspPort,
-                debugPort: (serverConfig as any)?.debugPort,
+                ...(await this.toMirrorConnection(root, serverConfig)),
             };
             await this.writeMirrorMeta(root, baseMeta);
             // 刷新写入本地补全用的工作台数据
@@ -546,7 +711,9 @@ export class MirrorWorkspaceManager {
             const last = parts[parts.length - 1] || '';
             const isMsFile = last.endsWith('.ms');
             const isMetaFile = last.startsWith('.') && last.endsWith('.meta.json');
-            const isFile = isMsFile || isMetaFile;
+            // 请求示例集合只保存在本地，不推送到服务端
+            const isRequestCollection = last.endsWith(REQUEST_COLLECTION_SUFFIX);
+            const isFile = isMsFile || isMetaFile || isRequestCollection;
             // 更稳健地定位资源类型段：在路径中寻找第一个顶层类型标识
             const typeIndex = parts.findIndex(seg => (MAGIC_RESOURCE_TYPES as readonly string[]).includes(seg));
             const type = (typeIndex >= 0 ? parts[typeIndex] : parts[0]) as MagicResourceType;
@@ -581,6 +748,11 @@ export class MirrorWorkspaceManager {
                         localUpdateTime: Date.now()
                     };
                 }
+                // 服务端已锁定的文件不推送
+                if (meta.locked) {
+                    vscode.window.showWarningMessage(`${fileName} 已被 ${lockOwnerLabel(meta.lockedBy)} 锁定，本次保存未推送到服务器`);
+                    return;
+                }
 
                 // 如果保存的是 .ms 文件，拿脚本内容；如果保存的是 .meta.json，则解析 meta
                 let script: string = '';
@@ -1025,9 +1197,11 @@ export class MirrorWorkspaceManager {
                         if (fid) {
                             await client.deleteFile(fid);
                         }
-                        // 同步删除本地 meta 文件
+                        // 同步删除本地 meta 文件与请求示例集合
                         const metaUri = this.getMetaFileUriFor(mirrorRoot, type, groupPathSub, fileName);
                         try { await vscode.workspace.fs.delete(metaUri); } catch {}
+                        const requestsUri = this.getRequestCollectionUriFor(mirrorRoot, type, groupPathSub, fileName);
+                        try { await vscode.workspace.fs.delete(requestsUri); } catch {}
                     } else if (isMetaFile && fileName) {
                         // 删除元数据文件不直接删除服务器资源，仅忽略
                     }
@@ -1058,6 +1232,9 @@ export class MirrorWorkspaceManager {
                         const oldMeta = this.getMetaFileUriFor(mirrorRoot, oldRel.type, oldRel.groupPathSub, oldRel.fileName);
                         const newMeta = this.getMetaFileUriFor(mirrorRoot, newRel.type, newRel.groupPathSub, newRel.fileName);
                         try { await vscode.workspace.fs.rename(oldMeta, newMeta, { overwrite: true }); } catch {}
+                        const oldRequests = this.getRequestCollectionUriFor(mirrorRoot, oldRel.type, oldRel.groupPathSub, oldRel.fileName);
+                        const newRequests = this.getRequestCollectionUriFor(mirrorRoot, newRel.type, newRel.groupPathSub, newRel.fileName);
+                        try { await vscode.workspace.fs.rename(oldRequests, newRequests, { overwrite: true }); } catch {}
                     } else if (!oldRel.isFile && !newRel.isFile && MAGIC_RESOURCE_TYPES.includes(oldRel.type)) {
                         // 目录重命名 -> 分组重命名
                         const type = oldRel.type;
@@ -1066,10 +1243,7 @@ export class MirrorWorkspaceManager {
                         await client.getGroups(type);
                         const gid = client.getGroupIdByPath(`${type}/${oldPathSub}`);
                         if (gid) {
-                            const groupInfo = await client.getGroup(gid);
-                            if (groupInfo) {
-                                await client.saveGroup({ ...groupInfo, name: newSeg });
-                            }
+                            await client.renameGroup(gid, newSeg);
                         }
                     }
                 } catch (e4) {
@@ -1261,12 +1435,7 @@ export class MirrorWorkspaceManager {
                 // 在选定目录写入镜像元数据，并以该目录作为根（而不是 globalStorage）
                 const baseMeta: MirrorMeta = {
                     createdAt: Date.now(),
-                    url: serverConfig?.url,
-                    token: serverConfig?.token,
-                    username: serverConfig?.username,
-                    password: serverConfig?.password,
-                    lspPort: (serverConfig as any)?.lspPort,
-                    debugPort: (serverConfig as any)?.debugPort,
+                    ...(await this.toMirrorConnection(folder, serverConfig)),
                 };
                 await vscode.window.withProgress({
                     location: vscode.ProgressLocation.Notification,
@@ -1760,18 +1929,17 @@ export class MirrorWorkspaceManager {
     }
 
     // 根据连接信息在工作区内查找对应的镜像根目录
-    public async findMirrorRootByConnection(conn: { url?: string; token?: string; username?: string; password?: string; lspPort?: number; debugPort?: number; }): Promise<vscode.Uri | null> {
+    public async findMirrorRootByConnection(conn: { url?: string; username?: string; lspPort?: number; debugPort?: number; }): Promise<vscode.Uri | null> {
         const roots = await this.findAllMirrorRootsInWorkspace();
         const normUrl = (u?: string) => (u || '').replace(/\/$/, '');
         const targetUrl = normUrl(conn.url);
         for (const root of roots) {
-            const meta = await this.readMirrorMeta(root);
+            const meta = await this.loadMirrorMeta(root);
             if (!meta) continue;
             const metaUrl = normUrl(meta.url);
             if (targetUrl && metaUrl === targetUrl) {
-                const tokenOk = !conn.token || conn.token === (meta as any).token;
-                const basicOk = (!conn.username && !conn.password) || (conn.username === (meta as any).username && conn.password === (meta as any).password);
-                if (tokenOk && basicOk) return root;
+                // 凭据保存在 SecretStorage 中，仅按 URL 与用户名匹配
+                if (!conn.username || !meta.username || conn.username === meta.username) return root;
             }
         }
         return null;
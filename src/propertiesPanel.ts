@@ -0,0 +1,507 @@
+import * as vscode from 'vscode';
+import { Buffer } from 'buffer';
+import { MagicFileSystemProvider } from './magicFileSystemProvider';
+import { MirrorFileMeta, MirrorWorkspaceManager } from './mirrorWorkspaceManager';
+import { toSaveFields } from './serverCompare';
+import { HistoryTarget, resolveHistoryTarget } from './versionHistory';
+import { MagicResourceType } from './types';
+import { CRON_PRESETS, describeCron, nextFireTimes, parseCron, validateCron } from './cron';
+import { debug } from './logger';
+import { getNonce } from './webviewUtils';
+
+// 参数/请求头定义（与 magic-api 接口设置中的字段一致）
+export interface PropertyParam {
+    name: string;
+    value?: string;
+    defaultValue?: string;
+    dataType?: string;
+    required?: boolean;
+    description?: string;
+    validateType?: string; // pass / expression / pattern
+    expression?: string;
+    error?: string;
+}
+
+// 属性表单的数据模型（服务器文件信息与镜像元数据共用）
+export interface PropertiesModel {
+    type: MagicResourceType;
+    name: string;
+    path?: string;
+    method?: string;
+    requestMapping?: string;
+    description?: string;
+    params: PropertyParam[];
+    headers: PropertyParam[];
+    contentType?: string;
+    timeout?: number;
+    cron?: string;
+    enabled?: boolean;
+    executeOnStart?: boolean;
+}
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
+
+// 对象形式的请求头（{ name: value }）统一转换为数组
+function toParamList(defs: any): PropertyParam[] {
+    if (Array.isArray(defs)) return defs.filter(d => d && typeof d === 'object').map(d => ({ ...d, name: String(d.name ?? '') }));
+    if (defs && typeof defs === 'object') return Object.keys(defs).map(name => ({ name, value: String(defs[name] ?? '') }));
+    return [];
+}
+
+function toModel(source: Partial<MirrorFileMeta> & { type: MagicResourceType; name: string }): PropertiesModel {
+    return {
+        type: source.type,
+        name: source.name,
+        path: source.path || undefined,
+        method: source.method || undefined,
+        requestMapping: source.requestMapping || undefined,
+        description: source.description || undefined,
+        params: toParamList(source.params),
+        headers: toParamList(source.headers),
+        contentType: source.contentType || undefined,
+        timeout: typeof source.timeout === 'number' ? source.timeout : undefined,
+        cron: source.cron || undefined,
+        enabled: source.enabled,
+        executeOnStart: source.executeOnStart,
+    };
+}
+
+// 保存前校验，返回错误列表
+export function validatePropertiesModel(model: PropertiesModel): string[] {
+    const errors: string[] = [];
+    for (const key of ['params', 'headers'] as const) {
+        const label = key === 'params' ? '参数' : '请求头';
+        const names = new Set<string>();
+        model[key].forEach((p, i) => {
+            if (!p.name?.trim()) errors.push(`第 ${i + 1} 个${label}缺少名称`);
+            else if (names.has(p.name)) errors.push(`${label}「${p.name}」重复`);
+            else names.add(p.name);
+            if (p.validateType && p.validateType !== 'pass' && !p.expression?.trim()) errors.push(`${label}「${p.name}」缺少验证表达式`);
+        });
+    }
+    if (model.type === 'api') {
+        if (!model.method || !HTTP_METHODS.includes(model.method.toUpperCase())) errors.push('请求方法不合法');
+        if (!model.requestMapping && !model.path) errors.push('请求路径不能为空');
+    }
+    if (model.timeout !== undefined && (!Number.isInteger(model.timeout) || model.timeout < 0)) errors.push('超时时间必须为非负整数');
+    if (model.type === 'task') {
+        const cronError = model.cron?.trim() ? validateCron(model.cron) : { message: 'cron 表达式不能为空' };
+        if (cronError) errors.push(cronError.message);
+    }
+    return errors;
+}
+
+// 表单中 cron 输入框下方的提示：描述与接下来 3 次执行时间，或错误信息
+function describeCronInfo(value: string): { text: string; error: boolean } {
+    if (!value.trim()) return { text: '', error: false };
+    const error = validateCron(value);
+    if (error) return { text: error.message, error: true };
+    const expr = parseCron(value);
+    const next = nextFireTimes(expr, 3).map(d => d.toLocaleString());
+    return { text: `${describeCron(expr)}${next.length ? `，下次执行: ${next.join('、')}` : ''}`, error: false };
+}
+
+// 属性面板：跟随当前活动的 Magic Script 文件，按资源类型渲染表单
+export class PropertiesPanel {
+    private static current?: PropertiesPanel;
+    private disposables: vscode.Disposable[] = [];
+    private target?: HistoryTarget;
+    private mirrorSource?: { uri: vscode.Uri; metaUri: vscode.Uri; meta: MirrorFileMeta };
+
+    private constructor(
+        private panel: vscode.WebviewPanel,
+        private context: vscode.ExtensionContext,
+        private fileSystemProvider: MagicFileSystemProvider
+    ) {
+        this.panel.webview.html = this.getHtml();
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        this.panel.webview.onDidReceiveMessage((msg) => this.onMessage(msg), null, this.disposables);
+        vscode.window.onDidChangeActiveTextEditor((editor) => {
+            const uri = editor?.document.uri;
+            if (uri && uri.path.endsWith('.ms') && (uri.scheme === 'magic-api' || uri.scheme === 'file')) this.bind(uri);
+        }, null, this.disposables);
+    }
+
+    public static async show(context: vscode.ExtensionContext, fileSystemProvider: MagicFileSystemProvider, uri: vscode.Uri): Promise<void> {
+        if (!PropertiesPanel.current) {
+            const panel = vscode.window.createWebviewPanel(
+                'magicApi.properties',
+                '属性',
+                { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+                { enableScripts: true, retainContextWhenHidden: true }
+            );
+            PropertiesPanel.current = new PropertiesPanel(panel, context, fileSystemProvider);
+        } else {
+            PropertiesPanel.current.panel.reveal(vscode.ViewColumn.Beside, true);
+        }
+        await PropertiesPanel.current.bind(uri);
+    }
+
+    // 绑定到脚本文件：镜像文件读取 .meta.json，magic-api: 文档读取服务器文件信息
+    private async bind(uri: vscode.Uri): Promise<void> {
+        try {
+            this.target = undefined;
+            this.mirrorSource = undefined;
+            let model: PropertiesModel;
+            let readonly = false;
+            if (uri.scheme === 'file') {
+                const local = await MirrorWorkspaceManager.getInstance(this.context).readMirrorFileMeta(uri);
+                if (!local) {
+                    this.post({ type: 'empty', message: '当前文件不在镜像工作区中' });
+                    return;
+                }
+                const groupPath = `${local.type}${local.groupPathSub ? '/' + local.groupPathSub : ''}`;
+                const meta: MirrorFileMeta = local.meta || { name: local.fileName, type: local.type, groupPath };
+                this.mirrorSource = { uri, metaUri: local.metaUri, meta };
+                model = toModel(meta);
+                readonly = !!meta.locked;
+            } else {
+                const target = await resolveHistoryTarget(this.context, uri, true);
+                const info = target ? await target.client.getFile(target.fileId) : null;
+                if (!target || !info) {
+                    this.post({ type: 'empty', message: '无法获取当前文件信息' });
+                    return;
+                }
+                this.target = target;
+                model = toModel({ ...info, type: info.type, name: info.name });
+                readonly = !!info.locked;
+            }
+            this.panel.title = `属性: ${model.name}`;
+            this.post({ type: 'load', model, readonly, source: uri.scheme === 'file' ? '镜像 .meta.json' : '服务器' });
+        } catch (e) {
+            this.post({ type: 'empty', message: `读取属性失败: ${String((e as any)?.message || e)}` });
+        }
+    }
+
+    private post(msg: any): void {
+        this.panel.webview.postMessage(msg);
+    }
+
+    private async onMessage(msg: any): Promise<void> {
+        if (msg?.type === 'cron') {
+            this.post({ type: 'cronInfo', value: msg.value, ...describeCronInfo(String(msg.value || '')) });
+            return;
+        }
+        if (msg?.type !== 'save') return;
+        const model = msg.model as PropertiesModel;
+        const errors = validatePropertiesModel(model);
+        if (errors.length) {
+            this.post({ type: 'error', message: errors.join('；') });
+            return;
+        }
+        try {
+            if (this.mirrorSource) await this.saveToMirror(model);
+            else if (this.target) await this.saveToServer(this.target, model);
+            else return;
+            this.post({ type: 'saved' });
+        } catch (e) {
+            debug(`保存属性失败: ${String((e as any)?.message || e)}`);
+            this.post({ type: 'error', message: String((e as any)?.message || e) });
+        }
+    }
+
+    // 服务器文件：与虚拟文件系统保存走同一个 saveFile 接口，脚本保持服务器上的内容
+    private async saveToServer(target: HistoryTarget, model: PropertiesModel): Promise<void> {
+        const info = await target.client.getFile(target.fileId);
+        if (!info) throw new Error('文件不存在');
+        if (info.locked) throw new Error('文件已锁定');
+        const ok = await target.client.saveFile({ ...info, ...toSaveFields(info.type, model) } as any);
+        if (!ok) throw new Error('服务器保存失败');
+        const fresh = await target.client.getFile(target.fileId);
+        if (target.uri.scheme === 'magic-api') this.fileSystemProvider.markRead(target.uri, fresh?.updateTime);
+    }
+
+    // 镜像文件：改写并保存 .meta.json 文档，由镜像监听器完成校验与推送
+    private async saveToMirror(model: PropertiesModel): Promise<void> {
+        const source = this.mirrorSource!;
+        const merged: Record<string, any> = { ...source.meta, ...toSaveFields(model.type, model) };
+        // 镜像元数据校验要求接口提供 requestMapping，未填写时沿用路径
+        if (model.type === 'api' && !merged.requestMapping) merged.requestMapping = merged.path;
+        for (const key of Object.keys(merged)) {
+            if (merged[key] === undefined || merged[key] === '') delete merged[key];
+        }
+        const text = JSON.stringify(merged, null, 2);
+        let doc: vscode.TextDocument;
+        try {
+            doc = await vscode.workspace.openTextDocument(source.metaUri);
+        } catch {
+            await vscode.workspace.fs.writeFile(source.metaUri, Buffer.from('{}', 'utf8'));
+            doc = await vscode.workspace.openTextDocument(source.metaUri);
+        }
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(source.metaUri, new vscode.Range(doc.positionAt(0), doc.positionAt(doc.getText().length)), text);
+        if (!(await vscode.workspace.applyEdit(edit)) || !(await doc.save())) throw new Error('写入 .meta.json 失败');
+        source.meta = merged as MirrorFileMeta;
+    }
+
+    private getHtml(): string {
+        const nonce = getNonce();
+        return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 8px 12px; }
+    input, select, textarea { background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); padding: 3px 5px; font-family: var(--vscode-editor-font-family); }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 12px; cursor: pointer; }
+    button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+    label.field { display: flex; align-items: center; gap: 8px; margin-bottom: 6px; }
+    label.field > span { width: 90px; color: var(--vscode-descriptionForeground); }
+    label.field > input[type=text], label.field > input[type=number], label.field > select { flex: 1; }
+    h3 { margin: 14px 0 4px; font-size: 1em; }
+    table { width: 100%; border-collapse: collapse; }
+    th { text-align: left; font-weight: normal; color: var(--vscode-descriptionForeground); padding: 2px; }
+    td { padding: 2px; }
+    td input[type=text], td select { width: 100%; box-sizing: border-box; }
+    .cron { display: grid; grid-template-columns: repeat(6, 1fr); gap: 4px; margin-bottom: 6px; }
+    .cron input { width: 100%; box-sizing: border-box; text-align: center; }
+    .cron span { text-align: center; color: var(--vscode-descriptionForeground); }
+    .muted { color: var(--vscode-descriptionForeground); }
+    .error { color: var(--vscode-errorForeground); }
+    .ok { color: var(--vscode-testing-iconPassed, #3c3); }
+    .banner { padding: 4px 8px; margin-bottom: 8px; background: var(--vscode-inputValidation-warningBackground); }
+    [hidden] { display: none !important; }
+</style>
+</head>
+<body>
+    <div id="empty" class="muted">打开一个 Magic Script 文件以编辑属性</div>
+    <div id="form" hidden>
+        <div id="lockedBanner" class="banner" hidden>文件已锁定，属性只读</div>
+        <div class="muted" id="source"></div>
+        <label class="field"><span>名称</span><input id="name" type="text" disabled></label>
+        <label class="field"><span>描述</span><input id="description" type="text"></label>
+
+        <div data-types="api function">
+            <label class="field"><span>路径</span><input id="path" type="text" placeholder="/user/get"></label>
+        </div>
+        <div data-types="api">
+            <label class="field"><span>请求方法</span><select id="method">${HTTP_METHODS.map(m => `<option>${m}</option>`).join('')}</select></label>
+            <label class="field"><span>请求映射</span><input id="requestMapping" type="text" placeholder="留空时使用路径"></label>
+            <label class="field"><span>Content-Type</span><input id="contentType" type="text" list="contentTypes"></label>
+            <datalist id="contentTypes"><option>application/json</option><option>application/x-www-form-urlencoded</option><option>multipart/form-data</option><option>text/plain</option></datalist>
+            <label class="field"><span>超时 (ms)</span><input id="timeout" type="number" min="0" step="1"></label>
+        </div>
+
+        <div data-types="task">
+            <h3>执行计划</h3>
+            <label class="field"><span>常用</span><select id="cronPreset">
+                <option value="">自定义</option>
+                ${CRON_PRESETS.map(p => `<option value="${p.cron}">${p.label}</option>`).join('')}
+            </select></label>
+            <div class="cron">
+                <span>秒</span><span>分</span><span>时</span><span>日</span><span>月</span><span>周</span>
+                <input data-cron="0"><input data-cron="1"><input data-cron="2"><input data-cron="3"><input data-cron="4"><input data-cron="5">
+            </div>
+            <label class="field"><span>cron</span><input id="cron" type="text" placeholder="秒 分 时 日 月 周"></label>
+            <div id="cronHint" class="muted"></div>
+            <label class="field"><span>启用</span><input id="enabled" type="checkbox"></label>
+            <label class="field"><span>启动时执行</span><input id="executeOnStart" type="checkbox"></label>
+        </div>
+
+        <div data-types="api">
+            <h3>参数 <button class="secondary" data-add="params">+</button></h3>
+            <table id="params"></table>
+        </div>
+        <div data-types="api">
+            <h3>请求头 <button class="secondary" data-add="headers">+</button></h3>
+            <table id="headers"></table>
+        </div>
+
+        <p><button id="save">保存</button> <button id="reset" class="secondary">还原</button> <span id="status"></span></p>
+    </div>
+
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const DATA_TYPES = ['String', 'Integer', 'Long', 'Double', 'Float', 'Boolean', 'Date', 'Object', 'Array', 'MultipartFile', 'Any'];
+    const VALIDATE_TYPES = [['pass', '不验证'], ['expression', '表达式'], ['pattern', '正则']];
+    let model = null;
+    let original = null;
+    let readonly = false;
+    const $ = (id) => document.getElementById(id);
+
+    function setStatus(text, cls) {
+        const el = $('status');
+        el.textContent = text || '';
+        el.className = cls || '';
+    }
+
+    function option(value, label, selected) {
+        const o = document.createElement('option');
+        o.value = value;
+        o.textContent = label;
+        if (selected) o.selected = true;
+        return o;
+    }
+
+    function renderTable(key) {
+        const table = $(key);
+        table.innerHTML = '<tr><th>名称</th><th>类型</th><th>必填</th><th>默认值</th><th>描述</th><th>验证</th><th>表达式</th><th>错误提示</th><th></th></tr>';
+        (model[key] || []).forEach((p, i) => {
+            const tr = document.createElement('tr');
+            const cell = (el) => { const td = document.createElement('td'); td.appendChild(el); tr.appendChild(td); return el; };
+            const text = (prop, placeholder) => {
+                const input = cell(document.createElement('input'));
+                input.type = 'text';
+                input.placeholder = placeholder || '';
+                input.value = p[prop] ?? '';
+                input.oninput = () => { p[prop] = input.value || undefined; };
+                return input;
+            };
+            text('name', '名称');
+            const dataType = cell(document.createElement('select'));
+            DATA_TYPES.forEach(t => dataType.appendChild(option(t, t, (p.dataType || 'String') === t)));
+            dataType.onchange = () => { p.dataType = dataType.value; };
+            const required = cell(document.createElement('input'));
+            required.type = 'checkbox';
+            required.checked = !!p.required;
+            required.onchange = () => { p.required = required.checked; };
+            text('defaultValue', '默认值');
+            text('description', '描述');
+            const validateType = cell(document.createElement('select'));
+            VALIDATE_TYPES.forEach(([v, l]) => validateType.appendChild(option(v, l, (p.validateType || 'pass') === v)));
+            const expression = text('expression', '表达式 / 正则');
+            const error = text('error', '验证失败提示');
+            const syncValidate = () => { expression.disabled = error.disabled = readonly || validateType.value === 'pass'; };
+            validateType.onchange = () => { p.validateType = validateType.value; syncValidate(); };
+            const remove = cell(document.createElement('button'));
+            remove.className = 'secondary';
+            remove.textContent = '×';
+            remove.onclick = () => { model[key].splice(i, 1); renderTable(key); };
+            table.appendChild(tr);
+            syncValidate();
+        });
+        if (readonly) table.querySelectorAll('input, select, button').forEach(el => el.disabled = true);
+    }
+
+    function setCron(value) {
+        $('cron').value = value || '';
+        const parts = (value || '').trim().split(/\\s+/);
+        document.querySelectorAll('[data-cron]').forEach(el => { el.value = parts[Number(el.getAttribute('data-cron'))] || ''; });
+        $('cronPreset').value = Array.from($('cronPreset').options).some(o => o.value === value) ? value : '';
+        vscode.postMessage({ type: 'cron', value: value || '' });
+    }
+
+    function render() {
+        $('empty').hidden = true;
+        $('form').hidden = false;
+        $('lockedBanner').hidden = !readonly;
+        document.querySelectorAll('[data-types]').forEach(el => {
+            el.hidden = !el.getAttribute('data-types').split(' ').includes(model.type);
+        });
+        $('name').value = model.name;
+        $('description').value = model.description || '';
+        $('path').value = model.path || '';
+        $('method').value = (model.method || 'GET').toUpperCase();
+        $('requestMapping').value = model.requestMapping || '';
+        $('contentType').value = model.contentType || '';
+        $('timeout').value = model.timeout ?? '';
+        setCron(model.cron);
+        $('enabled').checked = model.enabled !== false;
+        $('executeOnStart').checked = !!model.executeOnStart;
+        renderTable('params');
+        renderTable('headers');
+        document.querySelectorAll('#form input, #form select, #form button').forEach(el => {
+            if (el.id !== 'name' && el.id !== 'reset') el.disabled = readonly;
+        });
+        $('name').disabled = true;
+        setStatus('');
+    }
+
+    function collect() {
+        const m = model;
+        m.description = $('description').value || undefined;
+        if (m.type === 'api' || m.type === 'function') m.path = $('path').value || undefined;
+        if (m.type === 'api') {
+            m.method = $('method').value;
+            m.requestMapping = $('requestMapping').value || undefined;
+            m.contentType = $('contentType').value || undefined;
+            m.timeout = $('timeout').value === '' ? undefined : Number($('timeout').value);
+        }
+        if (m.type === 'task') {
+            m.cron = $('cron').value.trim() || undefined;
+            m.enabled = $('enabled').checked;
+            m.executeOnStart = $('executeOnStart').checked;
+        }
+        return m;
+    }
+
+    document.querySelectorAll('[data-add]').forEach(btn => {
+        btn.onclick = () => {
+            const key = btn.getAttribute('data-add');
+            model[key] = model[key] || [];
+            model[key].push({ name: '', dataType: 'String', required: false, validateType: 'pass' });
+            renderTable(key);
+        };
+    });
+    document.querySelectorAll('[data-cron]').forEach(el => {
+        el.oninput = () => {
+            const parts = Array.from(document.querySelectorAll('[data-cron]')).map(i => i.value.trim() || '*');
+            setCron(parts.join(' '));
+        };
+    });
+    $('cronPreset').onchange = () => { if ($('cronPreset').value) setCron($('cronPreset').value); };
+    $('cron').oninput = () => setCron($('cron').value);
+    $('save').onclick = () => {
+        setStatus('保存中...', 'muted');
+        vscode.postMessage({ type: 'save', model: collect() });
+    };
+    $('reset').onclick = () => {
+        model = JSON.parse(JSON.stringify(original));
+        render();
+    };
+
+    window.addEventListener('message', (event) => {
+        const msg = event.data;
+        if (msg.type === 'load') {
+            model = msg.model;
+            original = JSON.parse(JSON.stringify(msg.model));
+            readonly = !!msg.readonly;
+            $('source').textContent = '保存到: ' + msg.source;
+            render();
+        } else if (msg.type === 'empty') {
+            $('form').hidden = true;
+            $('empty').hidden = false;
+            $('empty').textContent = msg.message;
+        } else if (msg.type === 'saved') {
+            original = JSON.parse(JSON.stringify(model));
+            setStatus('已保存', 'ok');
+        } else if (msg.type === 'error') {
+            setStatus(msg.message, 'error');
+        } else if (msg.type === 'cronInfo' && msg.value === $('cron').value) {
+            $('cronHint').textContent = msg.text;
+            $('cronHint').className = msg.error ? 'error' : 'muted';
+        }
+    });
+</script>
+</body>
+</html>`;
+    }
+
+    private dispose(): void {
+        PropertiesPanel.current = undefined;
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
+
+// 注册「属性」命令
+export function registerPropertiesPanel(context: vscode.ExtensionContext, fileSystemProvider: MagicFileSystemProvider): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('magicApi.showProperties', async (arg?: any) => {
+            let uri: vscode.Uri | undefined = arg instanceof vscode.Uri ? arg : vscode.window.activeTextEditor?.document.uri;
+            // 资源视图节点：仅当前服务器的文件可通过虚拟文件系统编辑
+            if (arg && arg.kind === 'file' && arg.typedPath) {
+                uri = vscode.Uri.parse(`magic-api:/${arg.typedPath}`);
+                await vscode.commands.executeCommand('magicApi.explorer.open', arg);
+                // 未切换到该服务器时不打开
+                if (vscode.window.activeTextEditor?.document.uri.toString() !== uri.toString()) return;
+            }
+            if (!uri || !uri.path.endsWith('.ms') || (uri.scheme !== 'magic-api' && uri.scheme !== 'file')) {
+                vscode.window.showErrorMessage('请在 Magic Script (.ms) 文件中执行');
+                return;
+            }
+            await PropertiesPanel.show(context, fileSystemProvider, uri);
+        })
+    );
+}
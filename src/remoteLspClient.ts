@@ -10,6 +10,8 @@ export class RemoteLspClient {
     private static instance: RemoteLspClient;
     private client: LanguageClient | null = null;
     private isStarted = false;
+    private _onDidChangeState = new vscode.EventEmitter<boolean>();
+    public readonly onDidChangeState = this._onDidChangeState.event;
 
     private constructor() {
         // 监听服务器变化
@@ -115,6 +117,7 @@ export class RemoteLspClient {
             // 启动客户端
             await this.client.start();
             this.isStarted = true;
+            this._onDidChangeState.fire(true);
             
             vscode.window.showInformationMessage('Magic API 语言服务器已启动');
             
@@ -134,8 +137,10 @@ export class RemoteLspClient {
             }
         }
 
+        const wasRunning = this.isStarted;
         this.client = null;
         this.isStarted = false;
+        if (wasRunning) this._onDidChangeState.fire(false);
     }
 
     // 重启 LSP 客户端
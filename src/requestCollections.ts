@@ -0,0 +1,222 @@
+import * as vscode from 'vscode';
+import { Buffer } from 'buffer';
+import { ApiRequestSpec, RequestKeyValue, RequestRunnerPanel, fillPathVariables, resolveRequestSpec } from './requestRunner';
+import { REQUEST_COLLECTION_SUFFIX } from './types';
+
+// 保存的请求示例：url 仅在与接口定义推导出的地址不同时记录，便于跨环境复用
+export interface SavedRequest {
+    name: string;
+    method: string;
+    url?: string;
+    query: RequestKeyValue[];
+    headers: RequestKeyValue[];
+    contentType?: string;
+    body?: string;
+}
+
+export interface RequestCollection {
+    requests: SavedRequest[];
+}
+
+// 脚本 get.ms 对应的示例集合 get.ms.requests.json
+export function getRequestCollectionUri(scriptUri: vscode.Uri): vscode.Uri {
+    return scriptUri.with({ path: scriptUri.path.replace(/\.ms$/, REQUEST_COLLECTION_SUFFIX) });
+}
+
+export async function readRequestCollection(scriptUri: vscode.Uri): Promise<RequestCollection> {
+    try {
+        const buf = await vscode.workspace.fs.readFile(getRequestCollectionUri(scriptUri));
+        const obj = JSON.parse(Buffer.from(buf).toString('utf8'));
+        return { requests: Array.isArray(obj?.requests) ? obj.requests.filter((r: any) => r && r.name) : [] };
+    } catch {
+        return { requests: [] };
+    }
+}
+
+// 集合为空时删除文件，避免留下空的示例文件
+export async function writeRequestCollection(scriptUri: vscode.Uri, collection: RequestCollection): Promise<void> {
+    const uri = getRequestCollectionUri(scriptUri);
+    if (collection.requests.length === 0) {
+        try { await vscode.workspace.fs.delete(uri); } catch {}
+        return;
+    }
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(collection, null, 2) + '\n', 'utf8'));
+}
+
+function toSavedRequest(name: string, spec: ApiRequestSpec, defaultUrl?: string): SavedRequest {
+    return {
+        name,
+        method: spec.method,
+        url: spec.url && spec.url !== defaultUrl ? spec.url : undefined,
+        query: spec.query || [],
+        headers: spec.headers || [],
+        contentType: spec.contentType,
+        body: spec.body || undefined,
+    };
+}
+
+// 在接口定义推导出的请求上叠加示例内容
+function applySavedRequest(base: ApiRequestSpec, saved: SavedRequest): ApiRequestSpec {
+    return {
+        method: saved.method || base.method,
+        url: saved.url || base.url,
+        query: saved.query || [],
+        headers: saved.headers || [],
+        contentType: saved.contentType ?? base.contentType,
+        body: saved.body ?? '',
+    };
+}
+
+// 脚本顶部的 CodeLens：每个示例一个运行入口
+class RequestCollectionCodeLensProvider implements vscode.CodeLensProvider {
+    private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+    refresh(): void {
+        this._onDidChangeCodeLenses.fire();
+    }
+
+    async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+        if (document.uri.scheme !== 'file' || !document.uri.path.endsWith('.ms')) return [];
+        const collection = await readRequestCollection(document.uri);
+        if (collection.requests.length === 0) return [];
+        const range = new vscode.Range(0, 0, 0, 0);
+        const lenses = collection.requests.map(r => new vscode.CodeLens(range, {
+            title: `$(play) ${r.name}`,
+            tooltip: `${r.method} ${r.url || ''}`.trim(),
+            command: 'magicApi.requests.run',
+            arguments: [document.uri, r.name],
+        }));
+        lenses.push(new vscode.CodeLens(range, {
+            title: '管理请求示例',
+            command: 'magicApi.requests.manage',
+            arguments: [document.uri],
+        }));
+        return lenses;
+    }
+}
+
+// 注册请求示例集合的 CodeLens 与增删改查命令
+export function registerRequestCollections(context: vscode.ExtensionContext): void {
+    const codeLensProvider = new RequestCollectionCodeLensProvider();
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/*${REQUEST_COLLECTION_SUFFIX}`);
+    watcher.onDidCreate(() => codeLensProvider.refresh());
+    watcher.onDidChange(() => codeLensProvider.refresh());
+    watcher.onDidDelete(() => codeLensProvider.refresh());
+
+    const activeScript = (uri?: vscode.Uri): vscode.Uri | undefined => {
+        const target = uri instanceof vscode.Uri ? uri : vscode.window.activeTextEditor?.document.uri;
+        if (!target || target.scheme !== 'file' || !target.path.endsWith('.ms')) {
+            vscode.window.showErrorMessage('请求示例仅支持镜像工作区中的接口脚本');
+            return undefined;
+        }
+        return target;
+    };
+
+    const pickRequest = async (scriptUri: vscode.Uri, placeHolder: string): Promise<SavedRequest | undefined> => {
+        const collection = await readRequestCollection(scriptUri);
+        if (collection.requests.length === 0) {
+            vscode.window.showInformationMessage('当前脚本还没有保存的请求示例，可在请求面板中「保存为示例」');
+            return undefined;
+        }
+        const picked = await vscode.window.showQuickPick(
+            collection.requests.map(r => ({ label: r.name, description: `${r.method} ${r.url || ''}`.trim(), request: r })),
+            { placeHolder }
+        );
+        return picked?.request;
+    };
+
+    const openRequest = async (scriptUri: vscode.Uri, saved: SavedRequest, autoSend: boolean) => {
+        const resolved = await resolveRequestSpec(context, scriptUri);
+        if (!resolved) return;
+        const spec = await fillPathVariables(context, applySavedRequest(resolved.spec, saved));
+        if (!spec) return;
+        RequestRunnerPanel.show(`${resolved.title} · ${saved.name}`, spec, {
+            source: scriptUri,
+            exampleName: saved.name,
+            autoSend,
+        });
+    };
+
+    context.subscriptions.push(
+        watcher,
+        vscode.languages.registerCodeLensProvider({ scheme: 'file', language: 'magic-script' }, codeLensProvider),
+
+        vscode.commands.registerCommand('magicApi.requests.run', async (uri?: vscode.Uri, name?: string) => {
+            const scriptUri = activeScript(uri);
+            if (!scriptUri) return;
+            let saved: SavedRequest | undefined;
+            if (name) {
+                saved = (await readRequestCollection(scriptUri)).requests.find(r => r.name === name);
+                if (!saved) {
+                    vscode.window.showErrorMessage(`未找到请求示例: ${name}`);
+                    return;
+                }
+            } else {
+                saved = await pickRequest(scriptUri, '选择要运行的请求示例');
+            }
+            if (saved) await openRequest(scriptUri, saved, true);
+        }),
+
+        // 由请求面板调用：保存（新建或覆盖）示例，返回最终名称
+        vscode.commands.registerCommand('magicApi.requests.save', async (uri: vscode.Uri, spec: ApiRequestSpec, defaultName?: string): Promise<string | undefined> => {
+            const scriptUri = activeScript(uri);
+            if (!scriptUri || !spec) return undefined;
+            const name = await vscode.window.showInputBox({ prompt: '请求示例名称', value: defaultName || '', placeHolder: '例如: 正常查询' });
+            if (!name) return undefined;
+            const collection = await readRequestCollection(scriptUri);
+            const index = collection.requests.findIndex(r => r.name === name);
+            if (index >= 0 && name !== defaultName) {
+                const confirm = await vscode.window.showWarningMessage(`已存在名为「${name}」的示例，是否覆盖？`, { modal: true }, '覆盖');
+                if (confirm !== '覆盖') return undefined;
+            }
+            const resolved = await resolveRequestSpec(context, scriptUri);
+            const saved = toSavedRequest(name, spec, resolved?.spec.url);
+            if (index >= 0) collection.requests[index] = saved;
+            else collection.requests.push(saved);
+            await writeRequestCollection(scriptUri, collection);
+            vscode.window.showInformationMessage(`已保存请求示例「${name}」`);
+            return name;
+        }),
+
+        vscode.commands.registerCommand('magicApi.requests.manage', async (uri?: vscode.Uri) => {
+            const scriptUri = activeScript(uri);
+            if (!scriptUri) return;
+            const saved = await pickRequest(scriptUri, '选择请求示例');
+            if (!saved) return;
+            const action = await vscode.window.showQuickPick(['运行', '在请求面板中编辑', '重命名', '删除', '打开示例文件'], { placeHolder: saved.name });
+            if (!action) return;
+            const collection = await readRequestCollection(scriptUri);
+            const index = collection.requests.findIndex(r => r.name === saved.name);
+            switch (action) {
+                case '运行':
+                    await openRequest(scriptUri, saved, true);
+                    break;
+                case '在请求面板中编辑':
+                    await openRequest(scriptUri, saved, false);
+                    break;
+                case '重命名': {
+                    const name = await vscode.window.showInputBox({ prompt: '新名称', value: saved.name });
+                    if (!name || name === saved.name || index < 0) return;
+                    if (collection.requests.some(r => r.name === name)) {
+                        vscode.window.showErrorMessage(`已存在名为「${name}」的示例`);
+                        return;
+                    }
+                    collection.requests[index] = { ...collection.requests[index], name };
+                    await writeRequestCollection(scriptUri, collection);
+                    break;
+                }
+                case '删除': {
+                    const confirm = await vscode.window.showWarningMessage(`确定删除请求示例「${saved.name}」？`, { modal: true }, '删除');
+                    if (confirm !== '删除' || index < 0) return;
+                    collection.requests.splice(index, 1);
+                    await writeRequestCollection(scriptUri, collection);
+                    break;
+                }
+                case '打开示例文件':
+                    await vscode.window.showTextDocument(getRequestCollectionUri(scriptUri));
+                    break;
+            }
+        }),
+    );
+}
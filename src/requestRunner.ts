@@ -0,0 +1,437 @@
+import * as vscode from 'vscode';
+import axios from 'axios';
+import { ServerManager } from './serverManager';
+import { MirrorWorkspaceManager } from './mirrorWorkspaceManager';
+import { MagicFileInfo } from './magicFileSystemProvider';
+import { apiBaseUrlOf } from './magicApiClient';
+import { debug } from './logger';
+import { getNonce } from './webviewUtils';
+
+export interface RequestKeyValue {
+    name: string;
+    value: string;
+    enabled?: boolean;
+    description?: string;
+}
+
+// 一次接口请求的完整描述（webview 表单的数据模型）
+export interface ApiRequestSpec {
+    method: string;
+    url: string;
+    query: RequestKeyValue[];
+    headers: RequestKeyValue[];
+    contentType?: string;
+    body?: string;
+}
+
+export interface ApiResponseResult {
+    status: number;
+    statusText: string;
+    durationMs: number;
+    size: number;
+    headers: Record<string, string>;
+    body: string;
+    isJson: boolean;
+}
+
+// 接口定义中与请求相关的字段（服务器文件信息与镜像元数据共用）
+type ApiDefinition = Pick<MagicFileInfo, 'method' | 'requestMapping' | 'params' | 'headers' | 'contentType'>;
+
+const BODY_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+const LAST_PATH_VALUES_KEY = 'magicApi.request.lastPathValues';
+
+// 将 params/headers 定义（数组或对象）转换为键值对
+function toKeyValues(defs: any): RequestKeyValue[] {
+    if (!defs) return [];
+    if (Array.isArray(defs)) {
+        return defs
+            .filter(d => d && d.name)
+            .map(d => ({
+                name: String(d.name),
+                value: d.value !== undefined && d.value !== null ? String(d.value) : (d.defaultValue !== undefined && d.defaultValue !== null ? String(d.defaultValue) : ''),
+                enabled: true,
+                description: d.description ? String(d.description) : undefined,
+            }));
+    }
+    if (typeof defs === 'object') {
+        return Object.keys(defs).map(name => ({ name, value: String(defs[name] ?? ''), enabled: true }));
+    }
+    return [];
+}
+
+export function buildRequestSpec(def: ApiDefinition, baseUrl: string, requestPath: string): ApiRequestSpec {
+    const method = (def.method || 'GET').toUpperCase();
+    const contentType = def.contentType || (BODY_METHODS.includes(method) ? 'application/json' : undefined);
+    return {
+        method,
+        url: `${baseUrl.replace(/\/$/, '')}${requestPath}`,
+        query: toKeyValues(def.params),
+        headers: toKeyValues(def.headers),
+        contentType,
+        body: BODY_METHODS.includes(method) && /json/i.test(contentType || '') ? '{\n  \n}' : '',
+    };
+}
+
+export async function sendApiRequest(spec: ApiRequestSpec): Promise<ApiResponseResult> {
+    const params: Record<string, string> = {};
+    for (const q of spec.query) {
+        if (q.enabled !== false && q.name) params[q.name] = q.value;
+    }
+    const headers: Record<string, string> = {};
+    for (const h of spec.headers) {
+        if (h.enabled !== false && h.name) headers[h.name] = h.value;
+    }
+    const hasBody = BODY_METHODS.includes(spec.method.toUpperCase()) && !!spec.body?.trim();
+    if (hasBody && spec.contentType && !Object.keys(headers).some(k => k.toLowerCase() === 'content-type')) {
+        headers['Content-Type'] = spec.contentType;
+    }
+
+    const started = Date.now();
+    const resp = await axios.request({
+        method: spec.method as any,
+        url: spec.url,
+        params,
+        headers,
+        data: hasBody ? spec.body : undefined,
+        timeout: 60000,
+        // 原样获取响应文本，状态码不做校验
+        responseType: 'text',
+        transformResponse: (data: any) => data,
+        validateStatus: () => true,
+    });
+    const durationMs = Date.now() - started;
+
+    const raw = typeof resp.data === 'string' ? resp.data : String(resp.data ?? '');
+    let body = raw;
+    let isJson = false;
+    try {
+        body = JSON.stringify(JSON.parse(raw), null, 2);
+        isJson = true;
+    } catch {}
+    const respHeaders: Record<string, string> = {};
+    for (const [k, v] of Object.entries(resp.headers || {})) {
+        respHeaders[k] = Array.isArray(v) ? v.join(', ') : String(v);
+    }
+    return {
+        status: resp.status,
+        statusText: resp.statusText || '',
+        durationMs,
+        size: Buffer.byteLength(raw, 'utf8'),
+        headers: respHeaders,
+        body,
+        isJson,
+    };
+}
+
+// URL 中的路径变量 {name} 依次弹出输入框填写（记住上次输入的值）；取消时返回 null
+export async function fillPathVariables(context: vscode.ExtensionContext, spec: ApiRequestSpec): Promise<ApiRequestSpec | null> {
+    const pathEnd = spec.url.search(/[?#]/);
+    const path = pathEnd < 0 ? spec.url : spec.url.slice(0, pathEnd);
+    const names = [...new Set([...path.matchAll(/\{([A-Za-z_$][\w$]*)\}/g)].map(m => m[1]))];
+    if (names.length === 0) return spec;
+    const last = context.workspaceState.get<Record<string, string>>(LAST_PATH_VALUES_KEY) || {};
+    let filled = path;
+    for (const name of names) {
+        const value = await vscode.window.showInputBox({ title: `路径变量 ${name}`, value: last[name] ?? '', ignoreFocusOut: true });
+        if (value === undefined) return null;
+        last[name] = value;
+        filled = filled.split(`{${name}}`).join(encodeURIComponent(value));
+    }
+    await context.workspaceState.update(LAST_PATH_VALUES_KEY, last);
+    return { ...spec, url: filled + (pathEnd < 0 ? '' : spec.url.slice(pathEnd)) };
+}
+
+// 根据 magic-api 文档、镜像文件或资源视图节点解析请求；source 为请求来源的镜像脚本（可保存示例）
+export async function resolveRequestSpec(context: vscode.ExtensionContext, target: any): Promise<{ title: string; spec: ApiRequestSpec; source?: vscode.Uri } | null> {
+    const serverManager = ServerManager.getInstance();
+
+    // 资源视图中的接口节点（可属于非当前服务器）
+    if (target && target.kind === 'file' && target.serverId) {
+        const client = serverManager.getClient(target.serverId);
+        if (!client) return null;
+        const info = await client.getFile(target.file.id);
+        const requestPath = await client.getApiRequestPath(target.file.id);
+        if (!info || !requestPath) return null;
+        return { title: info.name, spec: buildRequestSpec(info, client.getApiBaseUrl(), requestPath) };
+    }
+
+    const uri: vscode.Uri | undefined = target instanceof vscode.Uri ? target : vscode.window.activeTextEditor?.document.uri;
+    if (!uri || !uri.path.endsWith('.ms')) {
+        vscode.window.showErrorMessage('请在 Magic Script (.ms) 接口文件中执行');
+        return null;
+    }
+
+    if (uri.scheme === 'magic-api') {
+        const client = serverManager.getCurrentClient();
+        if (!client) {
+            vscode.window.showErrorMessage('请先选择服务器');
+            return null;
+        }
+        const fileKey = uri.path.replace(/^\/+/, '');
+        if (!fileKey.startsWith('api/')) {
+            vscode.window.showErrorMessage('仅接口（api）文件支持发送请求');
+            return null;
+        }
+        const fid = await client.resolveFileIdByPath(fileKey);
+        const info = fid ? await client.getFile(fid) : null;
+        const requestPath = fid ? await client.getApiRequestPath(fid) : null;
+        if (!info || !requestPath) {
+            vscode.window.showErrorMessage('无法获取当前接口信息');
+            return null;
+        }
+        return { title: info.name, spec: buildRequestSpec(info, client.getApiBaseUrl(), requestPath) };
+    }
+
+    if (uri.scheme === 'file') {
+        const mirrorManager = MirrorWorkspaceManager.getInstance(context);
+        const local = await mirrorManager.readMirrorFileMeta(uri);
+        if (!local) {
+            vscode.window.showErrorMessage('当前文件不在镜像工作区中');
+            return null;
+        }
+        if (local.type !== 'api') {
+            vscode.window.showErrorMessage('仅接口（api）文件支持发送请求');
+            return null;
+        }
+        const mirrorMeta = await mirrorManager.loadMirrorMeta(local.root);
+        const baseUrl = mirrorMeta?.url ? apiBaseUrlOf(mirrorMeta.url) : (serverManager.getCurrentClient()?.getApiBaseUrl() || '');
+        const requestPath = await mirrorManager.resolveLocalRequestPath(local.root, local.type, local.groupPathSub, local.meta, local.fileName);
+        return { title: local.meta?.name || local.fileName, spec: buildRequestSpec(local.meta || {}, baseUrl, requestPath), source: uri };
+    }
+
+    vscode.window.showErrorMessage('不支持的文件类型');
+    return null;
+}
+
+export interface RequestPanelOptions {
+    // 镜像工作区中的脚本文件，存在时可将请求保存为示例
+    source?: vscode.Uri;
+    // 当前编辑的示例名称（保存时作为默认名称）
+    exampleName?: string;
+    // 打开后立即发送
+    autoSend?: boolean;
+}
+
+// 请求面板：上方表单编辑请求，下方展示响应
+export class RequestRunnerPanel {
+    private static current?: RequestRunnerPanel;
+    private disposables: vscode.Disposable[] = [];
+
+    private constructor(private panel: vscode.WebviewPanel, private spec: ApiRequestSpec, private options: RequestPanelOptions) {
+        this.panel.webview.html = this.getHtml();
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        this.panel.webview.onDidReceiveMessage((msg) => this.onMessage(msg), null, this.disposables);
+    }
+
+    public static show(title: string, spec: ApiRequestSpec, options: RequestPanelOptions = {}): RequestRunnerPanel {
+        const existing = RequestRunnerPanel.current;
+        if (existing) {
+            existing.panel.title = `请求: ${title}`;
+            existing.spec = spec;
+            existing.options = options;
+            existing.panel.webview.postMessage({ type: 'load', spec, canSave: !!options.source, autoSend: !!options.autoSend });
+            existing.panel.reveal(vscode.ViewColumn.Beside);
+            return existing;
+        }
+        const panel = vscode.window.createWebviewPanel(
+            'magicApi.requestRunner',
+            `请求: ${title}`,
+            vscode.ViewColumn.Beside,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        RequestRunnerPanel.current = new RequestRunnerPanel(panel, spec, options);
+        return RequestRunnerPanel.current;
+    }
+
+    private async onMessage(msg: any): Promise<void> {
+        if (msg?.type === 'save') {
+            if (!this.options.source) return;
+            const name = await vscode.commands.executeCommand<string | undefined>(
+                'magicApi.requests.save', this.options.source, msg.spec as ApiRequestSpec, this.options.exampleName
+            );
+            if (name) this.options.exampleName = name;
+            return;
+        }
+        if (msg?.type !== 'send') return;
+        const spec = msg.spec as ApiRequestSpec;
+        this.spec = spec;
+        try {
+            debug(`发送请求: ${spec.method} ${spec.url}`);
+            const result = await sendApiRequest(spec);
+            this.panel.webview.postMessage({ type: 'response', result });
+        } catch (e) {
+            this.panel.webview.postMessage({ type: 'error', message: String((e as any)?.message || e) });
+        }
+    }
+
+    private getHtml(): string {
+        const nonce = getNonce();
+        const initial = JSON.stringify({ spec: this.spec, canSave: !!this.options.source, autoSend: !!this.options.autoSend }).replace(/</g, '\\u003c');
+        return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 8px 12px; }
+    input, select, textarea { background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); padding: 3px 5px; font-family: var(--vscode-editor-font-family); }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 12px; cursor: pointer; }
+    button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+    .row { display: flex; gap: 6px; margin-bottom: 8px; }
+    .row input.url { flex: 1; }
+    h3 { margin: 12px 0 4px; font-size: 1em; }
+    table { width: 100%; border-collapse: collapse; }
+    td { padding: 2px; }
+    td input[type=text] { width: 100%; box-sizing: border-box; }
+    textarea { width: 100%; box-sizing: border-box; min-height: 120px; }
+    .status { font-weight: bold; margin-right: 12px; }
+    .ok { color: var(--vscode-testing-iconPassed, #3c3); }
+    .fail { color: var(--vscode-errorForeground); }
+    pre { background: var(--vscode-textCodeBlock-background); padding: 8px; overflow: auto; white-space: pre-wrap; word-break: break-all; }
+    .muted { color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+    <div class="row">
+        <select id="method">
+            ${['GET', 'POST', 'PUT', 'DELETE', 'PATCH'].map(m => `<option>${m}</option>`).join('')}
+        </select>
+        <input id="url" class="url" type="text">
+        <button id="send">发送</button>
+        <button id="save" class="secondary" title="保存到脚本旁的 .requests.json">保存为示例</button>
+    </div>
+
+    <h3>查询参数 <button class="secondary" data-add="query">+</button></h3>
+    <table id="query"></table>
+
+    <h3>请求头 <button class="secondary" data-add="headers">+</button></h3>
+    <table id="headers"></table>
+
+    <h3>请求体</h3>
+    <div class="row"><span class="muted">Content-Type</span><input id="contentType" type="text" style="flex:1"></div>
+    <textarea id="body"></textarea>
+
+    <h3>响应</h3>
+    <div id="meta" class="muted">尚未发送</div>
+    <details id="respHeadersBox"><summary>响应头</summary><pre id="respHeaders"></pre></details>
+    <pre id="respBody"></pre>
+
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const initial = ${initial};
+    let spec = initial.spec;
+    const $ = (id) => document.getElementById(id);
+
+    function renderTable(key) {
+        const table = $(key);
+        table.innerHTML = '';
+        (spec[key] || []).forEach((kv, i) => {
+            const tr = document.createElement('tr');
+            tr.innerHTML = '<td style="width:20px"><input type="checkbox"></td><td><input type="text" placeholder="名称"></td><td><input type="text" placeholder="值"></td><td style="width:24px"><button class="secondary">×</button></td>';
+            const [chk, name, value] = tr.querySelectorAll('input');
+            chk.checked = kv.enabled !== false;
+            name.value = kv.name || '';
+            value.value = kv.value || '';
+            if (kv.description) value.title = kv.description;
+            chk.onchange = () => { kv.enabled = chk.checked; };
+            name.oninput = () => { kv.name = name.value; };
+            value.oninput = () => { kv.value = value.value; };
+            tr.querySelector('button').onclick = () => { spec[key].splice(i, 1); renderTable(key); };
+            table.appendChild(tr);
+        });
+    }
+
+    function render(canSave) {
+        $('save').style.display = canSave ? '' : 'none';
+        $('method').value = spec.method || 'GET';
+        $('url').value = spec.url || '';
+        $('contentType').value = spec.contentType || '';
+        $('body').value = spec.body || '';
+        renderTable('query');
+        renderTable('headers');
+    }
+
+    function collect() {
+        spec.method = $('method').value;
+        spec.url = $('url').value;
+        spec.contentType = $('contentType').value || undefined;
+        spec.body = $('body').value;
+        return spec;
+    }
+
+    function send() {
+        $('meta').textContent = '请求中...';
+        $('respBody').textContent = '';
+        $('respHeaders').textContent = '';
+        vscode.postMessage({ type: 'send', spec: collect() });
+    }
+
+    document.querySelectorAll('[data-add]').forEach(btn => {
+        btn.onclick = () => {
+            const key = btn.getAttribute('data-add');
+            spec[key] = spec[key] || [];
+            spec[key].push({ name: '', value: '', enabled: true });
+            renderTable(key);
+        };
+    });
+    $('send').onclick = send;
+    $('save').onclick = () => vscode.postMessage({ type: 'save', spec: collect() });
+
+    window.addEventListener('message', (event) => {
+        const msg = event.data;
+        if (msg.type === 'load') {
+            spec = msg.spec;
+            render(msg.canSave);
+            if (msg.autoSend) send();
+        } else if (msg.type === 'response') {
+            const r = msg.result;
+            const cls = r.status >= 200 && r.status < 400 ? 'ok' : 'fail';
+            $('meta').innerHTML = '';
+            const status = document.createElement('span');
+            status.className = 'status ' + cls;
+            status.textContent = r.status + ' ' + r.statusText;
+            const info = document.createElement('span');
+            info.className = 'muted';
+            info.textContent = r.durationMs + ' ms · ' + r.size + ' B' + (r.isJson ? ' · JSON' : '');
+            $('meta').append(status, info);
+            $('respHeaders').textContent = Object.entries(r.headers).map(([k, v]) => k + ': ' + v).join('\\n');
+            $('respBody').textContent = r.body;
+        } else if (msg.type === 'error') {
+            $('meta').innerHTML = '';
+            const err = document.createElement('span');
+            err.className = 'fail';
+            err.textContent = '请求失败: ' + msg.message;
+            $('meta').append(err);
+        }
+    });
+
+    render(initial.canSave);
+    if (initial.autoSend) send();
+</script>
+</body>
+</html>`;
+    }
+
+    private dispose(): void {
+        RequestRunnerPanel.current = undefined;
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
+
+// 注册「发送请求」命令
+export function registerRequestRunner(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('magicApi.sendRequest', async (target?: any) => {
+            try {
+                const resolved = await resolveRequestSpec(context, target);
+                if (!resolved) return;
+                const spec = await fillPathVariables(context, resolved.spec);
+                if (!spec) return;
+                RequestRunnerPanel.show(resolved.title, spec, { source: resolved.source });
+            } catch (e) {
+                vscode.window.showErrorMessage(`构建请求失败: ${String((e as any)?.message || e)}`);
+            }
+        })
+    );
+}
@@ -0,0 +1,368 @@
+import * as vscode from 'vscode';
+import { Buffer } from 'buffer';
+import { MagicApiClient, MagicGroupMetaRaw, ResourceTreeSnapshot } from './magicApiClient';
+import { MirrorFileMeta, MirrorWorkspaceManager } from './mirrorWorkspaceManager';
+import { ServerManager } from './serverManager';
+import { ServerExplorerNode } from './serverExplorer';
+import { MAGIC_RESOURCE_TYPES, MagicResourceType, isMagicResourceType } from './types';
+import { createZip, readZip, ZipEntry } from './zipArchive';
+import { toDataSourceInfo, toSaveFields } from './serverCompare';
+import { debug } from './logger';
+import { parseBackupContent } from './versionHistory';
+
+// 备份包布局与镜像工作区一致：<type>/<group...>/.group.meta.json、<name>.ms、.<name>.meta.json
+// 导入时也接受 magic-api 控制台导出的 zip：<type>/<group...>/group.json、<name>.ms（元数据 JSON + 分隔线 + 脚本）
+const MANIFEST_NAME = 'magic-api-backup.json';
+
+interface BackupManifest {
+    version: number;
+    root: string; // 导出的子树根目录（包含类型），例如 "api/user"
+    server?: string;
+    exportedAt: number;
+}
+
+interface ArchiveFile {
+    dir: string;
+    name: string;
+    script: string;
+    meta?: MirrorFileMeta;
+}
+
+interface ParsedArchive {
+    roots: string[];
+    groups: Map<string, MagicGroupMetaRaw | null>; // 目录 -> 分组元数据（可能缺失）
+    files: Map<string, ArchiveFile>; // typedPath -> 文件
+}
+
+export type ImportMode = 'full' | 'incremental';
+
+export interface ImportAction {
+    kind: 'createGroup' | 'updateGroup' | 'createFile' | 'overwriteFile' | 'deleteFile' | 'deleteGroup';
+    typedPath: string;
+    id?: string; // 服务器上已存在的资源 ID（覆盖/删除时）
+}
+
+export interface ImportPlan {
+    mode: ImportMode;
+    actions: ImportAction[];
+    unchanged: number;
+}
+
+const inSubtree = (typedPath: string, root: string) => typedPath === root || typedPath.startsWith(`${root}/`);
+
+// 将服务器文件信息转换为备份中的元数据
+async function collectExportEntries(client: MagicApiClient, root: string, mirrorManager: MirrorWorkspaceManager, progress: vscode.Progress<{ message?: string }>): Promise<ZipEntry[]> {
+    const snapshot = await client.getResourceTree(true);
+    const entries: ZipEntry[] = [];
+    const manifest: BackupManifest = { version: 1, root, server: client.getServerConfig().url, exportedAt: Date.now() };
+    entries.push({ path: MANIFEST_NAME, data: Buffer.from(JSON.stringify(manifest, null, 2), 'utf8') });
+
+    for (const entry of snapshot.byPath.values()) {
+        if (!inSubtree(entry.isGroup ? entry.typedPath : entry.groupPath, root)) continue;
+        if (entry.isGroup) {
+            const gmeta = await client.getGroupMetaByDir(entry.typedPath);
+            if (gmeta) entries.push({ path: `${entry.typedPath}/.group.meta.json`, data: Buffer.from(JSON.stringify(gmeta, null, 2), 'utf8') });
+            continue;
+        }
+        progress.report({ message: entry.typedPath });
+        const full = await client.getFile(entry.id);
+        if (!full) continue;
+        const meta = mirrorManager.toMirrorMetaFromServer(full);
+        meta.groupPath = entry.groupPath;
+        entries.push({ path: `${entry.groupPath}/${meta.name}.ms`, data: Buffer.from(full.script || '', 'utf8') });
+        entries.push({ path: `${entry.groupPath}/.${meta.name}.meta.json`, data: Buffer.from(JSON.stringify(meta, null, 2), 'utf8') });
+    }
+    return entries;
+}
+
+function parseArchive(entries: ZipEntry[]): ParsedArchive {
+    const parsed: ParsedArchive = { roots: [], groups: new Map(), files: new Map() };
+    const metas = new Map<string, MirrorFileMeta>();
+    let manifest: BackupManifest | undefined;
+
+    const addGroupDirs = (dir: string) => {
+        const segs = dir.split('/').filter(Boolean);
+        for (let i = 2; i <= segs.length; i++) {
+            const d = segs.slice(0, i).join('/');
+            if (!parsed.groups.has(d)) parsed.groups.set(d, null);
+        }
+    };
+
+    for (const e of entries) {
+        const pathSegs = e.path.split('/').filter(Boolean);
+        const last = pathSegs[pathSegs.length - 1] || '';
+        if (pathSegs.length === 1 && last === MANIFEST_NAME) {
+            try { manifest = JSON.parse(e.data.toString('utf8')); } catch {}
+            continue;
+        }
+        // 控制台导出的 zip 可能带有外层目录（如 magic-api/），从第一个资源类型目录开始解析
+        const typeIndex = pathSegs.findIndex(isMagicResourceType);
+        if (typeIndex < 0) continue;
+        const segs = pathSegs.slice(typeIndex);
+        const dir = segs.slice(0, -1).join('/');
+        if (last === '.group.meta.json' || last === 'group.json') {
+            addGroupDirs(dir);
+            try { parsed.groups.set(dir, JSON.parse(e.data.toString('utf8'))); } catch {}
+        } else if (last.startsWith('.') && last.endsWith('.meta.json')) {
+            try { metas.set(`${dir}/${last.slice(1, -'.meta.json'.length)}.ms`, JSON.parse(e.data.toString('utf8'))); } catch {}
+        } else if (last.endsWith('.ms')) {
+            addGroupDirs(dir);
+            // 控制台导出的脚本文件内嵌元数据，镜像布局的 .<name>.meta.json 优先
+            const text = e.data.toString('utf8');
+            const embedded = parseBackupContent(text);
+            parsed.files.set(`${dir}/${last}`, embedded.meta
+                ? { dir, name: last.replace(/\.ms$/, ''), script: embedded.script, meta: embedded.meta as MirrorFileMeta }
+                : { dir, name: last.replace(/\.ms$/, ''), script: text });
+        }
+    }
+    for (const [typedPath, file] of parsed.files) {
+        file.meta = metas.get(typedPath) ?? file.meta;
+    }
+
+    // 全量模式的作用范围：优先使用清单中的导出根目录，否则按包含的资源类型
+    if (manifest?.root) {
+        parsed.roots = [manifest.root];
+    } else {
+        const types = new Set<string>();
+        for (const f of parsed.files.values()) types.add(f.dir.split('/')[0]);
+        for (const d of parsed.groups.keys()) types.add(d.split('/')[0]);
+        parsed.roots = Array.from(types);
+    }
+    return parsed;
+}
+
+async function buildImportPlan(client: MagicApiClient, archive: ParsedArchive, mode: ImportMode): Promise<ImportPlan> {
+    const snapshot = await client.getResourceTree(true);
+    const plan: ImportPlan = { mode, actions: [], unchanged: 0 };
+
+    for (const [dir, gmeta] of archive.groups) {
+        const existing = snapshot.byPath.get(dir);
+        if (!existing) {
+            plan.actions.push({ kind: 'createGroup', typedPath: dir });
+        } else if (gmeta && typeof gmeta.path === 'string' && String(existing.node.path || '') !== gmeta.path) {
+            plan.actions.push({ kind: 'updateGroup', typedPath: dir, id: existing.id });
+        }
+    }
+
+    for (const [typedPath, file] of archive.files) {
+        const existing = snapshot.byPath.get(typedPath);
+        if (!existing) {
+            plan.actions.push({ kind: 'createFile', typedPath });
+            continue;
+        }
+        const server = await client.getFile(existing.id);
+        const type = file.dir.split('/')[0] as MagicResourceType;
+        const fields = toSaveFields(type, file.meta);
+        const metaChanged = Object.keys(fields).some(k => fields[k] !== undefined && JSON.stringify(fields[k]) !== JSON.stringify((server as any)?.[k]));
+        if (server && server.script === file.script && !metaChanged) {
+            plan.unchanged++;
+        } else {
+            plan.actions.push({ kind: 'overwriteFile', typedPath, id: existing.id });
+        }
+    }
+
+    if (mode === 'full') {
+        // 全量：删除范围内服务器有而备份中没有的文件与分组
+        for (const entry of snapshot.byPath.values()) {
+            if (!archive.roots.some(r => inSubtree(entry.isGroup ? entry.typedPath : entry.groupPath, r))) continue;
+            if (entry.isGroup) {
+                if (!archive.groups.has(entry.typedPath) && !archive.roots.includes(entry.typedPath)) {
+                    plan.actions.push({ kind: 'deleteGroup', typedPath: entry.typedPath, id: entry.id });
+                }
+            } else if (!archive.files.has(entry.typedPath)) {
+                plan.actions.push({ kind: 'deleteFile', typedPath: entry.typedPath, id: entry.id });
+            }
+        }
+    }
+    return plan;
+}
+
+async function applyImportPlan(client: MagicApiClient, archive: ParsedArchive, actions: ImportAction[], progress: vscode.Progress<{ message?: string; increment?: number }>): Promise<{ done: number; failed: string[] }> {
+    const failed: string[] = [];
+    let done = 0;
+    const step = actions.length ? 100 / actions.length : 100;
+    const depth = (p: string) => p.split('/').length;
+    const run = async (action: ImportAction, fn: () => Promise<boolean>) => {
+        progress.report({ message: action.typedPath, increment: step });
+        try {
+            if (await fn()) done++;
+            else failed.push(action.typedPath);
+        } catch (e) {
+            debug(`导入失败: ${action.typedPath} ${String((e as any)?.message || e)}`);
+            failed.push(action.typedPath);
+        }
+    };
+
+    // 1) 分组：由浅到深创建，保证父分组先存在
+    let snapshot: ResourceTreeSnapshot = await client.getResourceTree(true);
+    const groupIds = new Map<string, string>();
+    const groupActions = actions.filter(a => a.kind === 'createGroup' || a.kind === 'updateGroup').sort((a, b) => depth(a.typedPath) - depth(b.typedPath));
+    for (const action of groupActions) {
+        const segs = action.typedPath.split('/');
+        const type = segs[0] as MagicResourceType;
+        const gmeta = archive.groups.get(action.typedPath);
+        await run(action, async () => {
+            if (action.kind === 'updateGroup') {
+                const group = await client.getGroup(action.id!);
+                return !!group && await client.saveGroup({ ...group, path: gmeta?.path ?? group.path } as any);
+            }
+            const parentDir = segs.slice(0, -1).join('/');
+            const parentId = segs.length > 2 ? (groupIds.get(parentDir) || snapshot.byPath.get(parentDir)?.id) : null;
+            // 父分组未勾选或创建失败时不能退回到类型根目录下创建
+            if (parentId === undefined) throw new Error(`父分组不存在: ${parentDir}`);
+            const id = await client.createGroup({ name: segs[segs.length - 1], parentId, type, path: gmeta?.path, description: (gmeta as any)?.description });
+            if (id) groupIds.set(action.typedPath, String(id));
+            return !!id;
+        });
+    }
+    if (groupActions.length) snapshot = await client.getResourceTree(true);
+
+    // 2) 文件：新建或覆盖
+    for (const action of actions.filter(a => a.kind === 'createFile' || a.kind === 'overwriteFile')) {
+        const file = archive.files.get(action.typedPath)!;
+        const type = file.dir.split('/')[0] as MagicResourceType;
+        await run(action, async () => {
+            const groupId = file.dir.includes('/') ? snapshot.byPath.get(file.dir)?.id : null;
+            if (groupId === undefined) throw new Error(`分组不存在: ${file.dir}`);
+            if (type === 'datasource') {
+                // 数据源的连接配置只能通过数据源接口保存
+                return !!(await client.saveDataSource(toDataSourceInfo({ id: action.id, name: file.name, groupId }, file.meta)));
+            }
+            if (action.kind === 'overwriteFile') {
+                const info = await client.getFile(action.id!);
+                if (!info) return false;
+                return client.saveFile({ ...info, ...toSaveFields(type, file.meta), script: file.script } as any);
+            }
+            const id = await client.createFile({
+                name: file.name,
+                script: file.script,
+                type,
+                groupPath: file.dir,
+                groupId,
+                ...toSaveFields(type, file.meta),
+            } as any);
+            return !!id;
+        });
+    }
+
+    // 3) 删除：先文件后分组，分组由深到浅
+    for (const action of actions.filter(a => a.kind === 'deleteFile')) {
+        await run(action, () => client.deleteFile(action.id!));
+    }
+    const groupDeletes = actions.filter(a => a.kind === 'deleteGroup').sort((a, b) => depth(b.typedPath) - depth(a.typedPath));
+    for (const action of groupDeletes) {
+        await run(action, () => client.deleteGroup(action.id!));
+    }
+    return { done, failed };
+}
+
+const ACTION_LABELS: Record<ImportAction['kind'], { label: string; icon: string }> = {
+    createGroup: { label: '新建分组', icon: 'new-folder' },
+    updateGroup: { label: '更新分组', icon: 'folder' },
+    createFile: { label: '新建', icon: 'diff-added' },
+    overwriteFile: { label: '覆盖', icon: 'diff-modified' },
+    deleteFile: { label: '删除', icon: 'diff-removed' },
+    deleteGroup: { label: '删除分组', icon: 'trash' },
+};
+
+// 导入预览：列出全部变更，允许取消勾选个别条目
+async function previewImportPlan(plan: ImportPlan): Promise<ImportAction[] | undefined> {
+    if (plan.actions.length === 0) {
+        vscode.window.showInformationMessage(`没有需要导入的变更（${plan.unchanged} 个文件与服务器一致）`);
+        return undefined;
+    }
+    const count = (kinds: ImportAction['kind'][]) => plan.actions.filter(a => kinds.includes(a.kind)).length;
+    const items = plan.actions.map(action => ({
+        label: `$(${ACTION_LABELS[action.kind].icon}) ${action.typedPath}`,
+        description: ACTION_LABELS[action.kind].label,
+        picked: true,
+        action,
+    }));
+    const picked = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        ignoreFocusOut: true,
+        title: `导入预览（${plan.mode === 'full' ? '全量' : '增量'}）：新建 ${count(['createGroup', 'createFile'])}，覆盖 ${count(['updateGroup', 'overwriteFile'])}，删除 ${count(['deleteFile', 'deleteGroup'])}，未变化 ${plan.unchanged}`,
+        placeHolder: '取消勾选不需要导入的条目，确认后开始导入',
+    });
+    return picked && picked.length ? picked.map(p => p.action) : undefined;
+}
+
+// 注册资源导入/导出命令（资源视图中的服务器、类型与分组节点）
+export function registerResourceArchive(context: vscode.ExtensionContext, serverManager: ServerManager): void {
+    const mirrorManager = MirrorWorkspaceManager.getInstance(context);
+
+    const clientFor = (node?: ServerExplorerNode): MagicApiClient | null => {
+        return node ? serverManager.getClient(node.serverId) : serverManager.getCurrentClient();
+    };
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('magicApi.explorer.exportZip', async (node?: ServerExplorerNode) => {
+            let root: string | undefined;
+            if (node?.kind === 'type') root = node.type;
+            else if (node?.kind === 'group') root = node.typedPath;
+            else root = await vscode.window.showQuickPick([...MAGIC_RESOURCE_TYPES], { placeHolder: '选择要导出的资源类型' });
+            const client = clientFor(node);
+            if (!root || !client) return;
+
+            const defaultName = `${root.replace(/\//g, '-')}-${new Date().toISOString().slice(0, 10)}.zip`;
+            const base = vscode.workspace.workspaceFolders?.find(f => f.uri.scheme === 'file')?.uri;
+            const target = await vscode.window.showSaveDialog({
+                defaultUri: base ? vscode.Uri.joinPath(base, defaultName) : undefined,
+                filters: { 'Magic API 备份': ['zip'] },
+                saveLabel: '导出',
+            });
+            if (!target) return;
+            try {
+                const count = await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: `导出 ${root}` }, async (progress) => {
+                    const entries = await collectExportEntries(client, root!, mirrorManager, progress);
+                    await vscode.workspace.fs.writeFile(target, createZip(entries));
+                    return entries.filter(e => e.path.endsWith('.ms')).length;
+                });
+                vscode.window.showInformationMessage(`已导出 ${count} 个文件到 ${target.fsPath}`);
+            } catch (e) {
+                vscode.window.showErrorMessage(`导出失败: ${String((e as any)?.message || e)}`);
+            }
+        }),
+
+        vscode.commands.registerCommand('magicApi.explorer.importZip', async (node?: ServerExplorerNode) => {
+            const client = clientFor(node);
+            if (!client) {
+                vscode.window.showErrorMessage('请先选择服务器');
+                return;
+            }
+            const picked = await vscode.window.showOpenDialog({ canSelectMany: false, filters: { 'Magic API 备份': ['zip'] }, openLabel: '导入' });
+            if (!picked?.[0]) return;
+            const mode = await vscode.window.showQuickPick([
+                { label: '增量导入', description: '仅新建与覆盖，不删除服务器上已有的资源', mode: 'incremental' as ImportMode },
+                { label: '全量导入', description: '额外删除导出范围内备份中不存在的文件与分组', mode: 'full' as ImportMode },
+            ], { placeHolder: '选择导入模式' });
+            if (!mode) return;
+
+            try {
+                const archive = parseArchive(readZip(Buffer.from(await vscode.workspace.fs.readFile(picked[0]))));
+                if (archive.files.size === 0 && archive.groups.size === 0) {
+                    vscode.window.showWarningMessage('备份中没有可导入的资源');
+                    return;
+                }
+                const plan = await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: '分析备份内容' },
+                    () => buildImportPlan(client, archive, mode.mode));
+                const actions = await previewImportPlan(plan);
+                if (!actions) return;
+                if (actions.some(a => a.kind === 'deleteFile' || a.kind === 'deleteGroup')) {
+                    const confirm = await vscode.window.showWarningMessage('导入将删除服务器上的部分资源，是否继续？', { modal: true }, '继续');
+                    if (confirm !== '继续') return;
+                }
+                const result = await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: '导入资源' },
+                    (progress) => applyImportPlan(client, archive, actions, progress));
+                await vscode.commands.executeCommand('magicApi.explorer.refresh');
+                if (result.failed.length) {
+                    vscode.window.showWarningMessage(`导入完成：成功 ${result.done} 项，失败 ${result.failed.length} 项（${result.failed.slice(0, 5).join('，')}${result.failed.length > 5 ? ' 等' : ''}）`);
+                } else {
+                    vscode.window.showInformationMessage(`导入完成：共 ${result.done} 项`);
+                }
+            } catch (e) {
+                vscode.window.showErrorMessage(`导入失败: ${String((e as any)?.message || e)}`);
+            }
+        }),
+    );
+}
@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import { MagicApiClient, ResourceTreeSnapshot } from './magicApiClient';
+import { debug } from './logger';
+
+export interface ResourceChange {
+    type: vscode.FileChangeType;
+    typedPath: string; // 例如 "api/user" 或 "api/user/get.ms"
+    isGroup: boolean;
+}
+
+interface ResourceState {
+    typedPath: string;
+    isGroup: boolean;
+    updateTime?: number;
+}
+
+// 服务端资源变化检测：定时拉取资源树，按 ID 与 updateTime 与上一轮快照对比
+export class ResourceChangeWatcher implements vscode.Disposable {
+    private timer?: NodeJS.Timeout;
+    private polling = false;
+    private baseline?: Map<string, ResourceState>;
+    private baselineClient?: MagicApiClient;
+    private _onDidChange = new vscode.EventEmitter<ResourceChange[]>();
+    private configListener: vscode.Disposable;
+
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor(private getClient: () => MagicApiClient | null | undefined) {
+        this.configListener = vscode.workspace.onDidChangeConfiguration((e) => {
+            if (e.affectsConfiguration('magicApi.watchInterval') && this.timer) {
+                this.stop();
+                this.start();
+            }
+        });
+    }
+
+    // 轮询间隔（秒），0 表示关闭
+    private getInterval(): number {
+        const sec = vscode.workspace.getConfiguration('magicApi').get<number>('watchInterval', 10);
+        return typeof sec === 'number' && sec > 0 ? sec : 0;
+    }
+
+    isRunning(): boolean {
+        return !!this.timer;
+    }
+
+    start(): void {
+        if (this.timer) return;
+        const sec = this.getInterval();
+        if (!sec) return;
+        this.timer = setInterval(() => { this.poll(); }, sec * 1000);
+        // 立即建立基线，避免首轮将全部资源视为新增
+        this.poll();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    // 丢弃基线（例如切换服务器后），下一轮重新建立
+    reset(): void {
+        this.baseline = undefined;
+        this.baselineClient = undefined;
+    }
+
+    async poll(): Promise<void> {
+        if (this.polling) return;
+        const client = this.getClient();
+        if (!client) return;
+        // 窗口失焦时不轮询，待重新聚焦后的下一轮再检测
+        if (!vscode.window.state.focused && this.baseline) return;
+        this.polling = true;
+        try {
+            if (this.baselineClient !== client) this.reset();
+            const snapshot = await client.getResourceTree(true);
+            const next = this.toStateMap(snapshot);
+            if (this.baseline) {
+                const changes = this.diff(this.baseline, next);
+                if (changes.length) {
+                    debug(`检测到服务端资源变化 ${changes.length} 项`);
+                    this._onDidChange.fire(changes);
+                }
+            }
+            this.baseline = next;
+            this.baselineClient = client;
+        } catch (e) {
+            debug(`资源变化检测失败: ${String((e as any)?.message || e)}`);
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    private toStateMap(snapshot: ResourceTreeSnapshot): Map<string, ResourceState> {
+        const map = new Map<string, ResourceState>();
+        for (const entry of snapshot.byPath.values()) {
+            // 无 ID 的节点以路径作为键
+            const key = entry.id || `path:${entry.typedPath}`;
+            map.set(key, {
+                typedPath: entry.typedPath,
+                isGroup: entry.isGroup,
+                updateTime: typeof entry.node?.updateTime === 'number' ? entry.node.updateTime : undefined,
+            });
+        }
+        return map;
+    }
+
+    private diff(prev: Map<string, ResourceState>, next: Map<string, ResourceState>): ResourceChange[] {
+        const changes: ResourceChange[] = [];
+        for (const [key, cur] of next) {
+            const old = prev.get(key);
+            if (!old) {
+                changes.push({ type: vscode.FileChangeType.Created, typedPath: cur.typedPath, isGroup: cur.isGroup });
+            } else if (old.typedPath !== cur.typedPath) {
+                // 重命名或移动：旧路径删除、新路径创建
+                changes.push({ type: vscode.FileChangeType.Deleted, typedPath: old.typedPath, isGroup: old.isGroup });
+                changes.push({ type: vscode.FileChangeType.Created, typedPath: cur.typedPath, isGroup: cur.isGroup });
+            } else if (!cur.isGroup && old.updateTime !== cur.updateTime) {
+                changes.push({ type: vscode.FileChangeType.Changed, typedPath: cur.typedPath, isGroup: false });
+            }
+        }
+        for (const [key, old] of prev) {
+            if (!next.has(key)) {
+                changes.push({ type: vscode.FileChangeType.Deleted, typedPath: old.typedPath, isGroup: old.isGroup });
+            }
+        }
+        return changes;
+    }
+
+    dispose(): void {
+        this.stop();
+        this.configListener.dispose();
+        this._onDidChange.dispose();
+    }
+}
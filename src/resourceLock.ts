@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+import { MagicFileSystemProvider } from './magicFileSystemProvider';
+import { MirrorWorkspaceManager } from './mirrorWorkspaceManager';
+import { ServerExplorerNode } from './serverExplorer';
+import { HistoryTarget, resolveHistoryTarget } from './versionHistory';
+import { lockOwnerLabel } from './types';
+import { debug } from './logger';
+
+const LOCKED_CONTEXT_KEY = 'magicApi.activeFileLocked';
+
+// 查询服务端的锁定状态
+async function readLockState(target: HistoryTarget): Promise<{ locked: boolean; lockedBy?: string } | null> {
+    const info = await target.client.getFile(target.fileId);
+    if (!info) return null;
+    return { locked: !!info.locked, lockedBy: info.lockedBy };
+}
+
+// 注册锁定/解锁命令，并让锁定的镜像文件在编辑器中只读
+export function registerResourceLock(context: vscode.ExtensionContext, fileSystemProvider: MagicFileSystemProvider): void {
+    const mirrorManager = MirrorWorkspaceManager.getInstance(context);
+
+    const isMagicScript = (uri?: vscode.Uri) => !!uri && uri.path.endsWith('.ms') && (uri.scheme === 'magic-api' || uri.scheme === 'file');
+
+    // 活动编辑器切换时更新上下文键；镜像文件按本地元数据判断，避免频繁请求服务端
+    const updateActiveEditor = async (editor?: vscode.TextEditor) => {
+        const uri = editor?.document.uri;
+        if (!isMagicScript(uri)) {
+            await vscode.commands.executeCommand('setContext', LOCKED_CONTEXT_KEY, false);
+            return;
+        }
+        let locked = false;
+        if (uri!.scheme === 'file') {
+            const local = await mirrorManager.readMirrorFileMeta(uri!);
+            locked = !!local?.meta?.locked;
+            // 将当前编辑器设为会话内只读（VS Code 1.79 起提供）
+            if (locked) {
+                await vscode.commands.executeCommand('workbench.action.files.setActiveEditorReadonlyInSession')
+                    .then(undefined, e => debug(`设置只读失败: ${String(e?.message || e)}`));
+            }
+        } else {
+            const target = await resolveHistoryTarget(context, uri, true);
+            locked = !!(target && (await readLockState(target))?.locked);
+        }
+        if (vscode.window.activeTextEditor?.document.uri.toString() === uri!.toString()) {
+            await vscode.commands.executeCommand('setContext', LOCKED_CONTEXT_KEY, locked);
+        }
+    };
+
+    const applyLock = async (arg: ServerExplorerNode | vscode.Uri | undefined, lock: boolean) => {
+        const target = await resolveHistoryTarget(context, arg);
+        if (!target) return;
+        try {
+            const state = await readLockState(target);
+            if (!state) {
+                vscode.window.showErrorMessage('无法获取文件信息');
+                return;
+            }
+            if (state.locked === lock) {
+                vscode.window.showInformationMessage(lock
+                    ? `${target.typedPath} 已被 ${lockOwnerLabel(state.lockedBy)} 锁定`
+                    : `${target.typedPath} 未锁定`);
+                return;
+            }
+            // 解锁他人（或未知用户）锁定的文件前确认
+            const username = target.client.getServerConfig().username;
+            if (!lock && (!state.lockedBy || state.lockedBy !== username)) {
+                const confirm = await vscode.window.showWarningMessage(`${target.typedPath} 由 ${lockOwnerLabel(state.lockedBy)} 锁定，确定解锁？`, { modal: true }, '解锁');
+                if (confirm !== '解锁') return;
+            }
+            const ok = lock ? await target.client.lockFile(target.fileId) : await target.client.unlockFile(target.fileId);
+            if (!ok) {
+                vscode.window.showErrorMessage(`${lock ? '锁定' : '解锁'}失败，请确认当前账号有相应权限`);
+                return;
+            }
+            const fresh = await readLockState(target);
+            const lockedBy = lock ? (fresh?.lockedBy || username) : undefined;
+            if (target.mirrorRoot) {
+                await mirrorManager.setMirrorFileLock(target.uri, lock, lockedBy);
+                if (!lock && vscode.window.activeTextEditor?.document.uri.toString() === target.uri.toString()) {
+                    await vscode.commands.executeCommand('workbench.action.files.resetActiveEditorReadonlyInSession')
+                        .then(undefined, e => debug(`取消只读失败: ${String(e?.message || e)}`));
+                }
+            } else if (target.uri.scheme === 'magic-api') {
+                fileSystemProvider.notifyChanged(target.uri);
+            }
+            await vscode.commands.executeCommand('magicApi.explorer.refresh');
+            await updateActiveEditor(vscode.window.activeTextEditor);
+            vscode.window.showInformationMessage(`${target.typedPath} 已${lock ? '锁定' : '解锁'}`);
+        } catch (e) {
+            debug(`${lock ? '锁定' : '解锁'}失败: ${target.typedPath} ${String((e as any)?.message || e)}`);
+            vscode.window.showErrorMessage(`${lock ? '锁定' : '解锁'}失败: ${String((e as any)?.message || e)}`);
+        }
+    };
+
+    context.subscriptions.push(
+        vscode.window.onDidChangeActiveTextEditor(editor => { updateActiveEditor(editor); }),
+        vscode.commands.registerCommand('magicApi.lock', (arg?: ServerExplorerNode | vscode.Uri) => applyLock(arg, true)),
+        vscode.commands.registerCommand('magicApi.unlock', (arg?: ServerExplorerNode | vscode.Uri) => applyLock(arg, false)),
+    );
+    updateActiveEditor(vscode.window.activeTextEditor);
+}
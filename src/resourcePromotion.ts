@@ -0,0 +1,218 @@
+import * as vscode from 'vscode';
+import { MagicApiClient, MagicServerConfig } from './magicApiClient';
+import { ServerManager } from './serverManager';
+import { ServerExplorerNode } from './serverExplorer';
+import { CompareContentProvider, CompareEntry, compareSubtree, openCompareDiff, toDataSourceInfo, toSaveFields } from './serverCompare';
+import { MagicResourceType } from './types';
+import { debug } from './logger';
+
+interface PromotionSource {
+    serverId: string;
+    root: string; // 类型、分组目录或文件的 typedPath
+}
+
+// 解析推送来源：资源视图节点或当前服务器上的 magic-api: 文档
+function resolveSource(serverManager: ServerManager, target?: ServerExplorerNode | vscode.Uri): PromotionSource | null {
+    if (target && !(target instanceof vscode.Uri)) {
+        if (target.kind === 'server') return null;
+        return { serverId: target.serverId, root: target.kind === 'type' ? target.type : target.typedPath };
+    }
+    const uri = target instanceof vscode.Uri ? target : vscode.window.activeTextEditor?.document.uri;
+    const current = serverManager.getCurrentServer();
+    if (!uri || uri.scheme !== 'magic-api' || !current) return null;
+    const root = uri.path.replace(/^\/+/, '');
+    return root ? { serverId: current.id, root } : null;
+}
+
+const depth = (p: string) => p.split('/').length;
+
+// 在目标服务器上创建/更新分组与文件；目标缺失的上级分组按源端信息补齐
+async function applyPromotion(
+    sourceClient: MagicApiClient,
+    targetClient: MagicApiClient,
+    entries: CompareEntry[],
+    progress: vscode.Progress<{ message?: string; increment?: number }>
+): Promise<{ done: number; failed: string[] }> {
+    const src = await sourceClient.getResourceTree();
+    let tgt = await targetClient.getResourceTree(true);
+    const failed: string[] = [];
+    let done = 0;
+
+    // 需要存在的分组：选中的分组及所有条目的上级目录
+    const groupDirs = new Set<string>();
+    for (const e of entries) {
+        const segs = e.typedPath.split('/');
+        const last = e.isGroup ? segs.length : segs.length - 1;
+        for (let i = 2; i <= last; i++) groupDirs.add(segs.slice(0, i).join('/'));
+    }
+    const selected = new Map(entries.map(e => [e.typedPath, e]));
+    const groupIds = new Map<string, string>();
+
+    for (const dir of Array.from(groupDirs).sort((a, b) => depth(a) - depth(b))) {
+        const source = src.byPath.get(dir);
+        const existing = tgt.byPath.get(dir);
+        if (existing && !(selected.get(dir)?.status === 'changed')) continue;
+        progress.report({ message: dir });
+        try {
+            if (existing) {
+                const group = await targetClient.getGroup(existing.id);
+                if (!group || !(await targetClient.saveGroup({ ...group, path: source?.node.path ?? group.path, description: source?.node.description } as any))) {
+                    failed.push(dir);
+                } else {
+                    done++;
+                }
+                continue;
+            }
+            const segs = dir.split('/');
+            const parentDir = segs.slice(0, -1).join('/');
+            const parentId = segs.length > 2 ? (groupIds.get(parentDir) || tgt.byPath.get(parentDir)?.id || null) : null;
+            const id = await targetClient.createGroup({
+                id: source?.id || undefined,
+                name: segs[segs.length - 1],
+                parentId,
+                type: segs[0] as MagicResourceType,
+                path: source?.node.path,
+                description: source?.node.description,
+            });
+            if (id) {
+                groupIds.set(dir, String(id));
+                done++;
+            } else {
+                failed.push(dir);
+            }
+        } catch (e) {
+            debug(`推送分组失败: ${dir} ${String((e as any)?.message || e)}`);
+            failed.push(dir);
+        }
+    }
+    if (groupIds.size) tgt = await targetClient.getResourceTree(true);
+
+    for (const entry of entries.filter(e => !e.isGroup)) {
+        const info = entry.sourceInfo;
+        if (!info) {
+            failed.push(entry.typedPath);
+            continue;
+        }
+        progress.report({ message: entry.typedPath });
+        const type = info.type;
+        const dir = entry.typedPath.split('/').slice(0, -1).join('/');
+        try {
+            let ok = false;
+            if (type === 'datasource') {
+                // 数据源的连接配置只能通过数据源接口保存
+                const targetId = entry.targetInfo?.id;
+                ok = !!(await targetClient.saveDataSource(toDataSourceInfo({ id: targetId, name: info.name, groupId: targetId ? entry.targetInfo?.groupId : tgt.byPath.get(dir)?.id }, info)));
+            } else if (entry.targetInfo) {
+                ok = await targetClient.saveFile({ ...entry.targetInfo, ...toSaveFields(type, info), script: info.script } as any);
+            } else {
+                ok = !!(await targetClient.createFile({
+                    id: info.id || undefined,
+                    name: info.name,
+                    script: info.script,
+                    type,
+                    groupPath: dir,
+                    groupId: tgt.byPath.get(dir)?.id || null,
+                    ...toSaveFields(type, info),
+                } as any));
+            }
+            if (ok) done++;
+            else failed.push(entry.typedPath);
+        } catch (e) {
+            debug(`推送文件失败: ${entry.typedPath} ${String((e as any)?.message || e)}`);
+            failed.push(entry.typedPath);
+        }
+    }
+    return { done, failed };
+}
+
+// 选择要推送的条目：每项可单独查看差异，默认全选
+async function pickEntries(entries: CompareEntry[], source: MagicServerConfig, target: MagicServerConfig): Promise<CompareEntry[] | undefined> {
+    const diffButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('diff'), tooltip: '查看差异' };
+    const qp = vscode.window.createQuickPick<vscode.QuickPickItem & { entry: CompareEntry }>();
+    qp.title = `推送到 ${target.name}：新建 ${entries.filter(e => e.status === 'added').length}，更新 ${entries.filter(e => e.status === 'changed').length}`;
+    qp.placeholder = '勾选要推送的条目，点击右侧按钮查看差异';
+    qp.canSelectMany = true;
+    qp.ignoreFocusOut = true;
+    qp.items = entries.map(entry => ({
+        label: `$(${entry.status === 'added' ? 'diff-added' : 'diff-modified'}) ${entry.typedPath}`,
+        description: entry.status === 'added'
+            ? '新建'
+            : [entry.isGroup ? '分组' : '', entry.scriptChanged ? '脚本' : '', entry.metaChanged ? '元数据' : ''].filter(Boolean).join('、') + '有变化',
+        buttons: [diffButton],
+        entry,
+    }));
+    qp.selectedItems = qp.items;
+    return new Promise(resolve => {
+        let accepted = false;
+        qp.onDidTriggerItemButton(e => { openCompareDiff(e.item.entry, source.name, target.name); });
+        qp.onDidAccept(() => {
+            accepted = true;
+            resolve(qp.selectedItems.map(i => i.entry));
+            qp.hide();
+        });
+        qp.onDidHide(() => {
+            if (!accepted) resolve(undefined);
+            qp.dispose();
+        });
+        qp.show();
+    });
+}
+
+// 注册「推送到…」命令：将当前服务器上的文件或分组同步到另一台已配置的服务器
+export function registerResourcePromotion(context: vscode.ExtensionContext, serverManager: ServerManager): void {
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(CompareContentProvider.scheme, CompareContentProvider.getInstance()),
+        vscode.commands.registerCommand('magicApi.promote', async (target?: ServerExplorerNode | vscode.Uri) => {
+            const source = resolveSource(serverManager, target);
+            if (!source) {
+                vscode.window.showErrorMessage('请在资源视图中选择文件或分组，或打开 magic-api: 文件后执行');
+                return;
+            }
+            const sourceServer = serverManager.getServers().find(s => s.id === source.serverId);
+            const sourceClient = serverManager.getClient(source.serverId);
+            const others = serverManager.getServers().filter(s => s.id !== source.serverId);
+            if (!sourceServer || !sourceClient) return;
+            if (others.length === 0) {
+                vscode.window.showInformationMessage('没有其他已配置的服务器');
+                return;
+            }
+            const picked = await vscode.window.showQuickPick(
+                others.map(s => ({ label: s.name, description: s.url, server: s })),
+                { placeHolder: `将 ${source.root} 从 ${sourceServer.name} 推送到…` }
+            );
+            const targetClient = picked ? serverManager.getClient(picked.server.id) : null;
+            if (!picked || !targetClient) return;
+
+            try {
+                const entries = await vscode.window.withProgress(
+                    { location: vscode.ProgressLocation.Notification, title: `比较 ${sourceServer.name} 与 ${picked.server.name}`, cancellable: true },
+                    (progress, token) => compareSubtree(sourceClient, targetClient, source.root, progress, token)
+                );
+                if (!entries) return;
+                const pending = entries.filter(e => e.status === 'added' || e.status === 'changed');
+                if (pending.length === 0) {
+                    vscode.window.showInformationMessage(`${picked.server.name} 上的 ${source.root} 已与 ${sourceServer.name} 一致`);
+                    return;
+                }
+                // 单个文件时直接打开差异
+                if (pending.length === 1 && !pending[0].isGroup) {
+                    await openCompareDiff(pending[0], sourceServer.name, picked.server.name);
+                }
+                const selected = await pickEntries(pending, sourceServer, picked.server);
+                if (!selected || selected.length === 0) return;
+                const result = await vscode.window.withProgress(
+                    { location: vscode.ProgressLocation.Notification, title: `推送到 ${picked.server.name}` },
+                    (progress) => applyPromotion(sourceClient, targetClient, selected, progress)
+                );
+                await vscode.commands.executeCommand('magicApi.explorer.refresh');
+                if (result.failed.length) {
+                    vscode.window.showWarningMessage(`推送完成：成功 ${result.done} 项，失败 ${result.failed.length} 项（${result.failed.slice(0, 5).join('，')}${result.failed.length > 5 ? ' 等' : ''}）`);
+                } else {
+                    vscode.window.showInformationMessage(`已推送 ${result.done} 项到 ${picked.server.name}`);
+                }
+            } catch (e) {
+                vscode.window.showErrorMessage(`推送失败: ${String((e as any)?.message || e)}`);
+            }
+        })
+    );
+}
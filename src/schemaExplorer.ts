@@ -0,0 +1,335 @@
+import * as vscode from 'vscode';
+import { MagicApiClient } from './magicApiClient';
+import { ServerManager } from './serverManager';
+import { DB_MEMBERS, DataSourceKeyIndex } from './datasourceManager';
+import { DbHelper, pickColumn } from './dbHelper';
+import { debug } from './logger';
+
+export interface ColumnInfo {
+    name: string;
+    type: string;
+    nullable: boolean;
+}
+
+export interface TableInfo {
+    schema?: string;
+    name: string;
+    columns: ColumnInfo[];
+}
+
+// 数据源的 key 为空字符串时表示默认数据源（脚本中直接使用 db）
+export type DatabaseNode =
+    | { kind: 'datasource'; key: string; name: string }
+    | { kind: 'table'; key: string; table: TableInfo }
+    | { kind: 'column'; key: string; table: TableInfo; column: ColumnInfo };
+
+// 脚本中 SQL 所在的上下文：所属数据源、SQL 文本与光标在 SQL 内的偏移
+export interface SqlContext {
+    dsKey: string;
+    sql: string;
+    offset: number;
+    tableOnly: boolean; // db.table('...') 中只需要表名
+}
+
+const DB_CALL = /(?<![\w.$])db\s*(?:\.\s*([A-Za-z_][A-Za-z0-9_]*)\s*)?\.\s*([A-Za-z_][A-Za-z0-9_]*)\s*\(\s*$/;
+const DB_CALL_INLINE = /(?<![\w.$])db\s*(?:\.\s*([A-Za-z_][A-Za-z0-9_]*)\s*)?\.\s*([A-Za-z_][A-Za-z0-9_]*)\s*\(\s*(['"])((?:(?!\3)[^\\]|\\.)*)$/;
+const TABLE_REF = /\b(?:from|join|update|into)\s+([A-Za-z_][\w$]*(?:\.[A-Za-z_][\w$]*)?)(?:\s+(?:as\s+)?([A-Za-z_]\w*))?/gi;
+const NOT_ALIAS = ['where', 'on', 'left', 'right', 'inner', 'outer', 'full', 'cross', 'join', 'set', 'values', 'group', 'order', 'limit', 'union', 'having', 'select'];
+
+function dsKeyOf(qualifier: string | undefined): string {
+    return qualifier && !DB_MEMBERS.includes(qualifier) ? qualifier : '';
+}
+
+// 判断位置是否位于 db.xxx("""...""") / """sql 块或 db.xxx('...') 单行字符串中
+export function findSqlContext(document: vscode.TextDocument, position: vscode.Position): SqlContext | null {
+    const text = document.getText();
+    const offset = document.offsetAt(position);
+    const quotes: number[] = [];
+    const re = /"""/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(text)) !== null && m.index < offset) quotes.push(m.index);
+    if (quotes.length % 2 === 1) {
+        const open = quotes[quotes.length - 1];
+        let start = open + 3;
+        const close = text.indexOf('"""', start);
+        const end = close < 0 ? text.length : close;
+        const call = DB_CALL.exec(text.slice(Math.max(0, open - 200), open));
+        const lang = /^([A-Za-z_]\w*)[ \t]*\r?\n/.exec(text.slice(start, end));
+        if (lang) {
+            if (lang[1].toLowerCase() !== 'sql') return null;
+            start += lang[0].length;
+        } else if (!call) {
+            return null;
+        }
+        if (offset < start) return null;
+        return { dsKey: dsKeyOf(call?.[1]), sql: text.slice(start, end), offset: offset - start, tableOnly: false };
+    }
+    const prefix = document.lineAt(position.line).text.slice(0, position.character);
+    const inline = DB_CALL_INLINE.exec(prefix);
+    if (!inline) return null;
+    const lineText = document.lineAt(position.line).text;
+    const closeIdx = lineText.indexOf(inline[3], position.character);
+    const sql = inline[4] + lineText.slice(position.character, closeIdx < 0 ? lineText.length : closeIdx);
+    return { dsKey: dsKeyOf(inline[1]), sql, offset: inline[4].length, tableOnly: inline[2] === 'table' };
+}
+
+// SQL 中引用的表及其别名（别名与表名均小写）
+export function collectTableRefs(sql: string): Map<string, string> {
+    const refs = new Map<string, string>();
+    let m: RegExpExecArray | null;
+    TABLE_REF.lastIndex = 0;
+    while ((m = TABLE_REF.exec(sql)) !== null) {
+        const table = m[1].toLowerCase();
+        const name = table.split('.').pop()!;
+        refs.set(name, table);
+        if (m[2] && !NOT_ALIAS.includes(m[2].toLowerCase())) refs.set(m[2].toLowerCase(), table);
+    }
+    return refs;
+}
+
+function findTable(tables: TableInfo[], ref: string): TableInfo | undefined {
+    const [schema, name] = ref.includes('.') ? ref.split('.') : [undefined, ref];
+    return tables.find(t => t.name.toLowerCase() === name && (!schema || t.schema?.toLowerCase() === schema));
+}
+
+// 读取失败后的冷却时间：期间补全与悬停不再重新创建临时接口
+const FAILURE_TTL = 60_000;
+
+// 表结构缓存：按服务器地址 + 数据源 key 缓存，手动刷新时清空；读取失败也会短暂记录
+export class SchemaCache {
+    private static instance: SchemaCache;
+    private cache = new Map<string, TableInfo[]>();
+    private failures = new Map<string, number>();
+    private inFlight = new Map<string, Promise<TableInfo[] | null>>();
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    public static getInstance(): SchemaCache {
+        if (!SchemaCache.instance) {
+            SchemaCache.instance = new SchemaCache();
+        }
+        return SchemaCache.instance;
+    }
+
+    clear(): void {
+        this.cache.clear();
+        this.failures.clear();
+        this._onDidChange.fire();
+    }
+
+    // interactive 为 false 时（补全、悬停）不弹出创建辅助接口的确认，冷却期内的失败也不重试
+    async get(context: vscode.ExtensionContext, client: MagicApiClient, dsKey: string, interactive: boolean): Promise<TableInfo[] | null> {
+        const key = `${client.getServerConfig().url}|${dsKey}`;
+        const cached = this.cache.get(key);
+        if (cached) return cached;
+        const failedAt = this.failures.get(key);
+        if (!interactive && failedAt !== undefined && Date.now() - failedAt < FAILURE_TTL) return null;
+        let pending = this.inFlight.get(key);
+        if (!pending) {
+            pending = (async () => {
+                try {
+                    const rows = await DbHelper.forClient(context, client).call<any[]>({ action: 'columns', datasource: dsKey || undefined }, interactive);
+                    if (!Array.isArray(rows)) {
+                        this.failures.set(key, Date.now());
+                        return null;
+                    }
+                    const tables = this.toTables(rows);
+                    this.cache.set(key, tables);
+                    this.failures.delete(key);
+                    return tables;
+                } catch (e) {
+                    this.failures.set(key, Date.now());
+                    throw e;
+                } finally {
+                    this.inFlight.delete(key);
+                }
+            })();
+            this.inFlight.set(key, pending);
+        }
+        return pending;
+    }
+
+    private toTables(rows: any[]): TableInfo[] {
+        const tables = new Map<string, TableInfo>();
+        for (const row of rows) {
+            const schema = pickColumn(row, 'table_schema');
+            const name = pickColumn(row, 'table_name');
+            if (!name) continue;
+            const id = `${schema || ''}.${name}`;
+            let table = tables.get(id);
+            if (!table) {
+                table = { schema: schema ? String(schema) : undefined, name: String(name), columns: [] };
+                tables.set(id, table);
+            }
+            table.columns.push({
+                name: String(pickColumn(row, 'column_name') || ''),
+                type: String(pickColumn(row, 'data_type') || ''),
+                nullable: String(pickColumn(row, 'is_nullable') || '').toUpperCase() !== 'NO',
+            });
+        }
+        return Array.from(tables.values());
+    }
+}
+
+// 数据库视图：当前服务器 → 数据源 → 表 → 列
+export class DatabaseSchemaProvider implements vscode.TreeDataProvider<DatabaseNode> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<DatabaseNode | undefined>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(private context: vscode.ExtensionContext, private serverManager: ServerManager) {}
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    getTreeItem(node: DatabaseNode): vscode.TreeItem {
+        if (node.kind === 'datasource') {
+            const item = new vscode.TreeItem(node.name, vscode.TreeItemCollapsibleState.Collapsed);
+            item.id = `ds:${node.key}`;
+            item.description = node.key ? `db.${node.key}` : 'db';
+            item.iconPath = new vscode.ThemeIcon('database');
+            item.contextValue = 'magicDbDatasource';
+            return item;
+        }
+        if (node.kind === 'table') {
+            const item = new vscode.TreeItem(node.table.name, vscode.TreeItemCollapsibleState.Collapsed);
+            item.id = `table:${node.key}:${node.table.schema || ''}.${node.table.name}`;
+            item.description = node.table.schema;
+            item.tooltip = `${node.table.schema ? node.table.schema + '.' : ''}${node.table.name}（${node.table.columns.length} 列）`;
+            item.iconPath = new vscode.ThemeIcon('table');
+            item.contextValue = 'magicDbTable';
+            return item;
+        }
+        const item = new vscode.TreeItem(node.column.name, vscode.TreeItemCollapsibleState.None);
+        item.id = `column:${node.key}:${node.table.schema || ''}.${node.table.name}.${node.column.name}`;
+        item.description = `${node.column.type}${node.column.nullable ? '' : ' NOT NULL'}`;
+        item.iconPath = new vscode.ThemeIcon('symbol-field');
+        item.contextValue = 'magicDbColumn';
+        return item;
+    }
+
+    async getChildren(node?: DatabaseNode): Promise<DatabaseNode[]> {
+        const client = this.serverManager.getCurrentClient();
+        if (!client) return [];
+        if (!node) {
+            const list = await client.listDataSources().catch(() => []);
+            return [
+                { kind: 'datasource', key: '', name: '默认数据源' },
+                ...list.map(ds => ({ kind: 'datasource' as const, key: ds.key, name: ds.name })),
+            ];
+        }
+        if (node.kind === 'datasource') {
+            try {
+                const tables = await SchemaCache.getInstance().get(this.context, client, node.key, true);
+                return (tables || []).map(table => ({ kind: 'table', key: node.key, table }));
+            } catch (e) {
+                vscode.window.showErrorMessage(`读取表结构失败: ${String((e as any)?.message || e)}`);
+                return [];
+            }
+        }
+        if (node.kind === 'table') {
+            return node.table.columns.map(column => ({ kind: 'column', key: node.key, table: node.table, column }));
+        }
+        return [];
+    }
+}
+
+// 注册数据库视图以及 SQL 中表名/列名的补全与悬停
+export function registerSchemaExplorer(context: vscode.ExtensionContext, serverManager: ServerManager): DatabaseSchemaProvider {
+    const provider = new DatabaseSchemaProvider(context, serverManager);
+    const cache = SchemaCache.getInstance();
+    const index = DataSourceKeyIndex.getInstance(context);
+    const selector: vscode.DocumentSelector = [
+        { language: 'magic-script', scheme: 'file' },
+        { language: 'magic-script', scheme: 'magic-api' },
+    ];
+
+    const tablesFor = async (doc: vscode.TextDocument, dsKey: string): Promise<TableInfo[] | null> => {
+        const resolved = await index.resolveClient(doc.uri);
+        if (!resolved) return null;
+        try {
+            return await cache.get(context, resolved.client, dsKey, false);
+        } catch (e) {
+            debug(`读取表结构失败: ${String((e as any)?.message || e)}`);
+            return null;
+        }
+    };
+
+    const tableItem = (table: TableInfo) => {
+        const item = new vscode.CompletionItem(table.name, vscode.CompletionItemKind.Struct);
+        item.detail = table.schema ? `表 ${table.schema}.${table.name}` : '表';
+        item.documentation = new vscode.MarkdownString(table.columns.map(c => `- \`${c.name}\` ${c.type}`).join('\n'));
+        return item;
+    };
+
+    const columnItems = (table: TableInfo) => table.columns.map(c => {
+        const item = new vscode.CompletionItem(c.name, vscode.CompletionItemKind.Field);
+        item.detail = `${table.name}.${c.name}: ${c.type}`;
+        item.sortText = `0_${c.name}`;
+        return item;
+    });
+
+    context.subscriptions.push(
+        vscode.window.registerTreeDataProvider('magicApiDatabase', provider),
+        cache.onDidChange(() => provider.refresh()),
+        serverManager.onServerChanged(() => provider.refresh()),
+
+        vscode.commands.registerCommand('magicApi.database.refresh', () => cache.clear()),
+
+        vscode.languages.registerCompletionItemProvider(selector, {
+            async provideCompletionItems(doc, pos) {
+                const ctx = findSqlContext(doc, pos);
+                if (!ctx) return undefined;
+                const tables = await tablesFor(doc, ctx.dsKey);
+                if (!tables) return undefined;
+                if (ctx.tableOnly) return tables.map(tableItem);
+                const before = ctx.sql.slice(0, ctx.offset);
+                const qualified = /([A-Za-z_][\w$]*)\.[A-Za-z_0-9]*$/.exec(before);
+                const refs = collectTableRefs(ctx.sql);
+                if (qualified) {
+                    const q = qualified[1].toLowerCase();
+                    const table = findTable(tables, refs.get(q) || q);
+                    if (table) return columnItems(table);
+                    // 限定符为 schema 时补全该 schema 下的表
+                    return tables.filter(t => t.schema?.toLowerCase() === q).map(tableItem);
+                }
+                const items = tables.map(tableItem);
+                for (const ref of new Set(refs.values())) {
+                    const table = findTable(tables, ref);
+                    if (table) items.push(...columnItems(table));
+                }
+                return items;
+            }
+        }, '.', ' ', '"', '\''),
+
+        vscode.languages.registerHoverProvider(selector, {
+            async provideHover(doc, pos) {
+                const ctx = findSqlContext(doc, pos);
+                if (!ctx) return undefined;
+                const range = doc.getWordRangeAtPosition(pos, /[A-Za-z_][\w$]*/);
+                if (!range) return undefined;
+                const word = doc.getText(range).toLowerCase();
+                const tables = await tablesFor(doc, ctx.dsKey);
+                if (!tables) return undefined;
+                const refs = collectTableRefs(ctx.sql);
+                const table = findTable(tables, refs.get(word) || word);
+                if (table) {
+                    const md = new vscode.MarkdownString(`**${table.schema ? table.schema + '.' : ''}${table.name}**\n\n`);
+                    md.appendMarkdown(table.columns.slice(0, 50).map(c => `- \`${c.name}\` ${c.type}${c.nullable ? '' : ' NOT NULL'}`).join('\n'));
+                    if (table.columns.length > 50) md.appendMarkdown(`\n\n… 共 ${table.columns.length} 列`);
+                    return new vscode.Hover(md, range);
+                }
+                // 列名：优先在 SQL 引用的表中查找
+                const candidates = [...new Set(refs.values())].map(r => findTable(tables, r)).filter((t): t is TableInfo => !!t);
+                for (const t of candidates.length ? candidates : tables) {
+                    const column = t.columns.find(c => c.name.toLowerCase() === word);
+                    if (column) {
+                        return new vscode.Hover(new vscode.MarkdownString(`\`${t.name}.${column.name}\`: ${column.type}${column.nullable ? '' : ' NOT NULL'}`), range);
+                    }
+                }
+                return undefined;
+            }
+        }),
+    );
+    return provider;
+}
@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+import { RemoteLspClient } from './remoteLspClient';
+import { Statement, Token, walk } from './magicScriptParser';
+import { ScriptAnalysis, analyzeDocument } from './magicScriptScope';
+import { createDocumentValidator, isMagicScriptDocument } from './documentDiagnostics';
+
+// 本地诊断结果（偏移相对于整个脚本）
+export interface ScriptProblem {
+    code: string;
+    message: string;
+    start: number;
+    end: number;
+    severity: vscode.DiagnosticSeverity;
+    unnecessary?: boolean; // 以淡化方式显示（无法访问的代码）
+}
+
+const BRACKET_PAIRS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSING = new Set([')', ']', '}']);
+
+// 括号配对：未闭合的左括号与多余/不匹配的右括号
+function checkBrackets(tokens: Token[], problems: ScriptProblem[]): void {
+    const stack: Token[] = [];
+    for (const token of tokens) {
+        if (token.type !== 'punct') continue;
+        if (BRACKET_PAIRS[token.value]) {
+            stack.push(token);
+        } else if (CLOSING.has(token.value)) {
+            const open = stack[stack.length - 1];
+            if (open && BRACKET_PAIRS[open.value] === token.value) {
+                stack.pop();
+            } else if (open && stack.some(t => BRACKET_PAIRS[t.value] === token.value)) {
+                // 中间有未闭合的括号：报告内层左括号，并与外层配对继续
+                while (stack.length && BRACKET_PAIRS[stack[stack.length - 1].value] !== token.value) {
+                    const unclosed = stack.pop()!;
+                    problems.push({ code: 'unbalanced-bracket', message: `「${unclosed.value}」缺少对应的「${BRACKET_PAIRS[unclosed.value]}」`, start: unclosed.start, end: unclosed.end, severity: vscode.DiagnosticSeverity.Error });
+                }
+                stack.pop();
+            } else {
+                problems.push({ code: 'unbalanced-bracket', message: `多余的「${token.value}」`, start: token.start, end: token.end, severity: vscode.DiagnosticSeverity.Error });
+            }
+        }
+    }
+    for (const open of stack) {
+        problems.push({ code: 'unbalanced-bracket', message: `「${open.value}」缺少对应的「${BRACKET_PAIRS[open.value]}」`, start: open.start, end: open.end, severity: vscode.DiagnosticSeverity.Error });
+    }
+}
+
+// import 语句格式：import 'x' [as y] / import a.b.c [as y]；导入接口或函数（@ 开头）必须指定别名
+function checkImports(tokens: Token[], problems: ScriptProblem[]): void {
+    const atEnd = (token: Token) => token.type === 'eof' || token.newlineBefore || (token.type === 'punct' && (token.value === ';' || token.value === '}'));
+    outer: for (let i = 0; i < tokens.length; i++) {
+        const kw = tokens[i];
+        if (kw.type !== 'keyword' || kw.value !== 'import') continue;
+        // a.import、a?.import 是成员访问，不是 import 语句
+        const prev = tokens[i - 1];
+        if (prev?.type === 'punct' && (prev.value === '.' || prev.value === '?.')) continue;
+        const problem = (message: string, token: Token = kw) => problems.push({ code: 'invalid-import', message, start: token.start, end: Math.max(token.end, token.start + 1), severity: vscode.DiagnosticSeverity.Error });
+        let j = i + 1;
+        const source = tokens[j];
+        let text = '';
+        if (source.type === 'string' && (source.quote === '\'' || source.quote === '"')) {
+            text = source.value.slice(1, source.terminated ? -1 : undefined).trim();
+            if (!text) { problem('import 的内容不能为空', source); continue; }
+            j++;
+        } else if (source.type === 'identifier') {
+            j++;
+            while (tokens[j].value === '.' && !tokens[j].newlineBefore) {
+                const part = tokens[j + 1];
+                if (part.newlineBefore || (part.value !== '*' && part.type !== 'identifier')) {
+                    problem('模块名格式错误', tokens[j]);
+                    continue outer;
+                }
+                j += 2;
+                if (part.value === '*') break;
+            }
+        } else {
+            problem('import 后应为字符串或模块名', source.type === 'eof' || source.newlineBefore ? kw : source);
+            continue;
+        }
+        const next = tokens[j];
+        if (next.type === 'keyword' && next.value === 'as') {
+            const alias = tokens[j + 1];
+            if (alias.type !== 'identifier' || alias.newlineBefore) { problem('as 后缺少别名', alias.type === 'eof' || alias.newlineBefore ? next : alias); continue; }
+            j += 2;
+        } else if (text.startsWith('@')) {
+            problem('导入接口或函数时需要使用 as 指定别名', source);
+        }
+        if (!atEnd(tokens[j])) problem('import 语句格式错误', tokens[j]);
+    }
+}
+
+// 语句执行后不会继续执行后续语句（return / exit / throw / break / continue，或所有分支都如此）
+function terminates(statement: Statement): boolean {
+    switch (statement.type) {
+        case 'ReturnStatement': case 'ExitStatement': case 'ThrowStatement': case 'BreakStatement': case 'ContinueStatement':
+            return true;
+        case 'BlockStatement':
+            return statement.body.some(terminates);
+        case 'IfStatement':
+            return !!statement.alternate && terminates(statement.consequent) && terminates(statement.alternate);
+        case 'TryStatement':
+            return (!!statement.finalizer && terminates(statement.finalizer))
+                || (terminates(statement.block) && (!statement.handler || terminates(statement.handler)));
+        default:
+            return false;
+    }
+}
+
+// 语句列表中终止语句之后的代码
+function checkUnreachable(analysis: ScriptAnalysis, problems: ScriptProblem[]): void {
+    const visitList = (body: Statement[]) => {
+        const index = body.findIndex(terminates);
+        if (index >= 0 && index < body.length - 1) {
+            problems.push({
+                code: 'unreachable',
+                message: '无法访问的代码',
+                start: body[index + 1].start,
+                end: body[body.length - 1].end,
+                severity: vscode.DiagnosticSeverity.Warning,
+                unnecessary: true,
+            });
+        }
+    };
+    walk(analysis.program, node => {
+        if (node.type === 'Program' || node.type === 'BlockStatement') visitList(node.body);
+    });
+}
+
+// 收集本地语法诊断
+export function checkScript(analysis: ScriptAnalysis): ScriptProblem[] {
+    const problems: ScriptProblem[] = [];
+    // 词法错误：字符串、三引号、语言块、注释未闭合
+    for (const error of analysis.errors) {
+        if (/未闭合$/.test(error.message)) {
+            problems.push({ code: 'unterminated', message: error.message, start: error.start, end: error.end, severity: vscode.DiagnosticSeverity.Error });
+        }
+    }
+    checkBrackets(analysis.tokens, problems);
+    checkImports(analysis.tokens, problems);
+    for (const ref of analysis.references) {
+        if (ref.write && ref.declaration?.kind === 'const') {
+            problems.push({ code: 'const-assign', message: `不能给常量「${ref.id.name}」赋值`, start: ref.id.start, end: ref.id.end, severity: vscode.DiagnosticSeverity.Error });
+        }
+    }
+    checkUnreachable(analysis, problems);
+    return problems;
+}
+
+export function toDiagnostic(document: vscode.TextDocument, problem: ScriptProblem): vscode.Diagnostic {
+    const range = new vscode.Range(document.positionAt(problem.start), document.positionAt(problem.end));
+    const d = new vscode.Diagnostic(range, problem.message, problem.severity);
+    d.source = 'magic-script';
+    d.code = problem.code;
+    if (problem.unnecessary) d.tags = [vscode.DiagnosticTag.Unnecessary];
+    return d;
+}
+
+// 远程语言服务器未运行时，在本地检查 Magic Script 语法问题
+export function registerScriptDiagnostics(remoteClient: RemoteLspClient): vscode.Disposable[] {
+    const diagnostics = vscode.languages.createDiagnosticCollection('magic-script-local');
+    const validator = createDocumentValidator(diagnostics, {
+        isTarget: isMagicScriptDocument,
+        validate: doc => {
+            if (remoteClient.isRunning()) {
+                diagnostics.delete(doc.uri);
+                return;
+            }
+            diagnostics.set(doc.uri, checkScript(analyzeDocument(doc)).map(p => toDiagnostic(doc, p)));
+        },
+    });
+
+    const disposables: vscode.Disposable[] = [
+        diagnostics,
+        validator,
+        // 语言服务器启动后由其提供诊断，断开后恢复本地诊断
+        remoteClient.onDidChangeState(running => running ? diagnostics.clear() : validator.validateAll()),
+    ];
+    validator.validateAll();
+    return disposables;
+}
@@ -0,0 +1,287 @@
+import * as vscode from 'vscode';
+import { Token, tokenize } from './magicScriptParser';
+import { SqlKeywordCase, formatSql } from './sqlFormatter';
+
+// Magic Script 格式化：只改写记号之间的空白（缩进、运算符两侧空格、大括号位置），
+// 字符串、模板、注释与语言块原样保留；"""sql / ```sql 块可选用 SQL 排版
+
+export type BraceStyle = 'preserve' | 'sameLine' | 'nextLine';
+
+export interface ScriptFormatOptions {
+    indent: string; // 一级缩进
+    eol: string;
+    spaceAroundOperators: boolean;
+    braceStyle: BraceStyle;
+    sqlBlocks: 'preserve' | 'format';
+    sqlKeywordCase: SqlKeywordCase;
+}
+
+export interface FormatEdit {
+    start: number;
+    end: number;
+    newText: string;
+}
+
+interface Item {
+    start: number;
+    end: number;
+    token?: Token; // 注释没有对应的记号
+}
+
+interface Frame {
+    close: string;
+    indent: number; // 左括号所在行的缩进
+    ternary: number; // 未匹配 : 的 ? 数量
+    assert: boolean; // assert 语句中 : 之后为错误码
+}
+
+const BINARY = new Set([
+    '=', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<=', '>>=', '>>>=', '==', '!=', '===', '!==', '<', '>', '<=', '>=',
+    '&&', '||', '??', '+', '-', '*', '/', '%', '&', '|', '^', '<<', '>>', '>>>', '=>', '->',
+]);
+const OPENING: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CONTROL_KEYWORDS = new Set(['if', 'for', 'while', 'catch', 'try']);
+const BLOCK_KEYWORDS = new Set(['else', 'try', 'finally']);
+const LITERAL_KEYWORDS = new Set(['true', 'false', 'null']);
+// 另起一行时缩进一级的 LINQ 子句
+const LINQ_CLAUSES = new Set(['from', 'join', 'left', 'on', 'where', 'group', 'having', 'order', 'limit', 'offset', 'and', 'or']);
+const LINQ_WORDS = new Set(['select', ...LINQ_CLAUSES, 'by', 'asc', 'desc']);
+// 去掉空格后会被词法分析合并成其他记号的相邻字符
+const JOINABLE = new Set(['++', '--', '+=', '-=', '==', '!=', '<=', '>=', '&&', '||', '??', '?.', '::', '=>', '->', '*=', '/=', '%=', '&=', '|=', '^=', '<<', '>>', '//', '/*', '..']);
+
+const isPunct = (token: Token | undefined, ...values: string[]) => token?.type === 'punct' && values.includes(token.value);
+const isWord = (token: Token) => token.type === 'identifier' || token.type === 'keyword' || token.type === 'number';
+
+// 可以作为表达式结尾的记号（其后的 + - 为二元运算符）
+function endsValue(token: Token | undefined): boolean {
+    if (!token) return false;
+    if (token.type === 'keyword') return LITERAL_KEYWORDS.has(token.value);
+    if (token.type === 'punct') return token.value === ')' || token.value === ']' || token.value === '}';
+    return true;
+}
+
+// 计算格式化后的文本编辑；存在未闭合的字符串或注释时返回 undefined
+export function formatScript(text: string, options: ScriptFormatOptions, range?: { start: number; end: number }): FormatEdit[] | undefined {
+    const { tokens, comments, errors } = tokenize(text);
+    if (errors.some(e => /未闭合$/.test(e.message))) return undefined;
+    const items: Item[] = [
+        ...tokens.filter(t => t.type !== 'eof').map(token => ({ start: token.start, end: token.end, token })),
+        ...comments.map(c => ({ start: c.start, end: c.end })),
+    ].sort((a, b) => a.start - b.start);
+
+    // 预先计算：括号配对、控制语句的右括号、一元/后缀运算符
+    const matching = new Map<number, number>();
+    const controlClose = new Set<number>();
+    const prefix = new Set<number>();
+    const postfix = new Set<number>();
+    const opened: number[] = [];
+    let prevIndex = -1;
+    items.forEach((item, i) => {
+        const token = item.token;
+        if (!token) return;
+        const prev = prevIndex >= 0 ? items[prevIndex].token : undefined;
+        if (token.type === 'punct') {
+            if (OPENING[token.value]) {
+                opened.push(i);
+            } else if (token.value === ')' || token.value === ']' || token.value === '}') {
+                const open = opened[opened.length - 1];
+                if (open !== undefined && OPENING[items[open].token!.value] === token.value) {
+                    opened.pop();
+                    matching.set(open, i);
+                    const before = open > 0 ? items[open - 1].token : undefined;
+                    if (token.value === ')' && before?.type === 'keyword' && CONTROL_KEYWORDS.has(before.value)) controlClose.add(i);
+                }
+            } else if (token.value === '!' || token.value === '~' || token.value === '...') {
+                prefix.add(i);
+            } else if (token.value === '+' || token.value === '-' || token.value === '++' || token.value === '--') {
+                if (!endsValue(prev)) prefix.add(i);
+                else if (token.value.length === 2) postfix.add(i);
+            }
+        }
+        prevIndex = i;
+    });
+
+    const isOperator = (i: number, ternaryColons: Set<number>) => {
+        const token = items[i].token;
+        if (!token || token.type !== 'punct' || prefix.has(i) || postfix.has(i)) return false;
+        return BINARY.has(token.value) || token.value === '?' || ternaryColons.has(i);
+    };
+
+    const edits: FormatEdit[] = [];
+    const frames: Frame[] = [{ close: '', indent: -1, ternary: 0, assert: false }];
+    const ternaryColons = new Set<number>();
+    let lineIndent = 0;
+    let lineStart = 0; // 当前行第一个条目
+    let lastToken = -1; // 上一个记号（跳过注释）
+    let linqDepth = 0; // select 所在的括号层数，0 表示不在 LINQ 中
+
+    const inRange = (start: number, end: number) => !range || (end >= range.start && start <= range.end);
+    const edit = (start: number, end: number, newText: string) => {
+        if (text.slice(start, end) !== newText && inRange(start, end)) edits.push({ start, end, newText });
+    };
+
+    // 行首条目的缩进：所在括号的缩进加一级，续行再加一级
+    const indentFor = (i: number): number => {
+        const token = items[i].token;
+        const top = frames[frames.length - 1];
+        if (token?.type === 'punct' && token.value === top.close) return top.indent;
+        const base = top.indent + 1;
+        if (!token || isPunct(token, '{', ')', ']', '}')) return base;
+        const prev = lastToken >= 0 ? items[lastToken].token! : undefined;
+        const continued =
+            isPunct(token, '.', '?.', '::')
+            || (isOperator(i, ternaryColons) && endsValue(prev))
+            || (lastToken >= 0 && isOperator(lastToken, ternaryColons))
+            || controlClose.has(lastToken)
+            || (prev?.type === 'keyword' && BLOCK_KEYWORDS.has(prev.value))
+            || (linqDepth === frames.length && token.type === 'identifier' && LINQ_CLAUSES.has(token.value));
+        if (!continued && linqDepth === frames.length) linqDepth = 0;
+        return base + (continued ? 1 : 0);
+    };
+
+    // 同一行相邻记号之间的空白
+    const spacing = (pi: number, i: number, gap: string): string => {
+        const p = items[pi].token;
+        const n = items[i].token;
+        if (!p || !n) return gap; // 注释前后保持原样
+        const had = gap.length > 0;
+        const around = options.spaceAroundOperators ? ' ' : '';
+        let result: string;
+        if (isPunct(n, ',', ';')) result = '';
+        else if (isPunct(p, ',', ';')) result = ' ';
+        else if (isPunct(p, '.', '?.', '::') || isPunct(n, '.', '?.', '::')) result = '';
+        else if (isPunct(n, ')', ']') || isPunct(p, '(', '[')) result = '';
+        else if (isPunct(p, '@', '#') || isPunct(n, '@', '#')) result = gap;
+        else if (prefix.has(pi) || postfix.has(i)) result = '';
+        else if (isPunct(n, '(') && p.type === 'keyword' && !LITERAL_KEYWORDS.has(p.value)) result = ' ';
+        else if (isPunct(n, '(') && p.type === 'identifier') result = had && LINQ_WORDS.has(p.value) ? ' ' : '';
+        else if (isPunct(n, '(', '[') && endsValue(p) && p.type !== 'keyword' && !isPunct(p, '}')) result = '';
+        else if (n.value === ':' && n.type === 'punct' && !ternaryColons.has(i)) result = '';
+        else if (p.value === ':' && p.type === 'punct' && !ternaryColons.has(pi)) result = ' ';
+        else if (isOperator(pi, ternaryColons) || isOperator(i, ternaryColons)) result = around;
+        else if (isPunct(p, '{') && isPunct(n, '}')) result = '';
+        else if (isPunct(n, '{')) result = ' ';
+        else if (isPunct(p, '{') || isPunct(n, '}')) result = had ? ' ' : '';
+        else if ((p.type === 'keyword' && !LITERAL_KEYWORDS.has(p.value)) || (n.type === 'keyword' && !LITERAL_KEYWORDS.has(n.value))) result = ' ';
+        else result = had ? ' ' : '';
+        if (!result) {
+            if (isWord(p) && isWord(n)) return ' ';
+            if (p.type === 'punct' && (n.type === 'punct' || n.type === 'regex') && JOINABLE.has(p.value.slice(-1) + n.value[0])) return ' ';
+        }
+        return result;
+    };
+
+    const sqlBlock = (token: Token): string | undefined => {
+        const quote = token.quote!;
+        const open = token.value.slice(0, quote.length + token.lang!.length);
+        const lines = formatSql(token.value.slice(open.length, -quote.length), { keywordCase: options.sqlKeywordCase });
+        if (!lines) return undefined;
+        const body = lines.map(l => options.indent.repeat(lineIndent + 1 + l.depth) + l.text).join(options.eol);
+        return open + options.eol + body + options.eol + options.indent.repeat(lineIndent) + quote;
+    };
+
+    items.forEach((item, i) => {
+        const token = item.token;
+        const gapStart = i > 0 ? items[i - 1].end : 0;
+        const gap = text.slice(gapStart, item.start);
+        const prev = i > 0 ? items[i - 1].token : undefined;
+        let newlines = (gap.match(/\n/g) || []).length;
+
+        if (token?.type === 'punct' && token.value === ':') {
+            const top = frames[frames.length - 1];
+            if (top.ternary > 0) { top.ternary--; ternaryColons.add(i); }
+            else if (top.assert) { top.assert = false; ternaryColons.add(i); }
+        }
+
+        // 大括号位置：控制语句与 else/try/finally 的代码块
+        if (options.braceStyle !== 'preserve' && token && prev) {
+            const blockBrace = isPunct(token, '{') && (controlClose.has(i - 1) || (prev.type === 'keyword' && BLOCK_KEYWORDS.has(prev.value)) || isPunct(prev, '=>', '->'));
+            const continuation = token.type === 'keyword' && (token.value === 'else' || token.value === 'catch' || token.value === 'finally') && isPunct(prev, '}');
+            if ((blockBrace || continuation) && options.braceStyle === 'sameLine') {
+                newlines = 0;
+            } else if (newlines === 0 && options.braceStyle === 'nextLine') {
+                const close = matching.get(i);
+                const multiline = blockBrace && !isPunct(prev, '=>', '->') && close !== undefined && text.slice(item.start, items[close].start).includes('\n');
+                if (multiline || (continuation && lineStart === i - 1)) newlines = 1;
+            }
+        }
+
+        if (/\S/.test(gap)) {
+            // 无法识别的字符：保留原有空白
+            if (newlines) { lineIndent = indentFor(i); lineStart = i; }
+        } else if (newlines) {
+            lineIndent = indentFor(i);
+            lineStart = i;
+            edit(gapStart, item.start, options.eol.repeat(newlines) + options.indent.repeat(lineIndent));
+        } else {
+            edit(gapStart, item.start, i === 0 ? '' : spacing(i - 1, i, gap));
+        }
+        if (!token) return;
+
+        if (token.type === 'punct') {
+            const top = frames[frames.length - 1];
+            if (OPENING[token.value]) {
+                frames.push({ close: OPENING[token.value], indent: lineIndent, ternary: 0, assert: false });
+            } else if (token.value === top.close) {
+                frames.pop();
+                if (linqDepth > frames.length) linqDepth = 0;
+            } else if (token.value === '?') {
+                top.ternary++;
+            } else if (token.value === ';' && linqDepth === frames.length) {
+                linqDepth = 0;
+            }
+        } else if (token.type === 'identifier') {
+            const before = lastToken >= 0 ? items[lastToken].token : undefined;
+            if (token.value === 'select' && !isPunct(before, '.', '?.')) linqDepth = frames.length;
+            const statementStart = !before || lineStart === i || isPunct(before, ';', '{', '}');
+            if (token.value === 'assert' && statementStart) frames[frames.length - 1].assert = true;
+        } else if (token.type === 'string' && token.lang?.toLowerCase() === 'sql' && token.terminated && options.sqlBlocks === 'format') {
+            const formatted = sqlBlock(token);
+            if (formatted !== undefined) edit(token.start, token.end, formatted);
+        }
+        lastToken = i;
+    });
+
+    // 文件末尾：去掉多余空格，保留换行
+    const tail = text.slice(items.length ? items[items.length - 1].end : 0);
+    if (!/\S/.test(tail)) edit(text.length - tail.length, text.length, options.eol.repeat((tail.match(/\n/g) || []).length));
+    return edits;
+}
+
+export function readFormatOptions(document: vscode.TextDocument, formatting: vscode.FormattingOptions): ScriptFormatOptions {
+    const config = vscode.workspace.getConfiguration('magicApi.format');
+    return {
+        indent: formatting.insertSpaces ? ' '.repeat(formatting.tabSize) : '\t',
+        eol: document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n',
+        spaceAroundOperators: config.get<boolean>('spaceAroundOperators', true),
+        braceStyle: config.get<BraceStyle>('braceStyle', 'sameLine'),
+        sqlBlocks: config.get<'preserve' | 'format'>('sqlBlocks', 'preserve'),
+        sqlKeywordCase: config.get<SqlKeywordCase>('sqlKeywordCase', 'preserve'),
+    };
+}
+
+// 注册 Magic Script 文档与选区格式化
+export function registerScriptFormatter(): vscode.Disposable[] {
+    const selector: vscode.DocumentSelector = [
+        { language: 'magic-script', scheme: 'file' },
+        { language: 'magic-script', scheme: 'magic-api' },
+    ];
+    const format = (document: vscode.TextDocument, formatting: vscode.FormattingOptions, range?: vscode.Range): vscode.TextEdit[] => {
+        if (!vscode.workspace.getConfiguration('magicApi.format').get<boolean>('enabled', true)) return [];
+        const offsets = range && { start: document.offsetAt(document.lineAt(range.start.line).range.start), end: document.offsetAt(range.end) };
+        const edits = formatScript(document.getText(), readFormatOptions(document, formatting), offsets);
+        if (!edits) {
+            vscode.window.setStatusBarMessage('Magic Script 存在未闭合的字符串或注释，已跳过格式化', 3000);
+            return [];
+        }
+        return edits.map(e => vscode.TextEdit.replace(new vscode.Range(document.positionAt(e.start), document.positionAt(e.end)), e.newText));
+    };
+    return [
+        vscode.languages.registerDocumentFormattingEditProvider(selector, {
+            provideDocumentFormattingEdits(document, formatting) { return format(document, formatting); }
+        }),
+        vscode.languages.registerDocumentRangeFormattingEditProvider(selector, {
+            provideDocumentRangeFormattingEdits(document, range, formatting) { return format(document, formatting, range); }
+        }),
+    ];
+}
@@ -0,0 +1,388 @@
+import * as vscode from 'vscode';
+import { Expression, Identifier, Literal, Node, Statement, walk } from './magicScriptParser';
+import { Declaration, ScriptAnalysis, analyzeDocument, resolveName } from './magicScriptScope';
+import { ScriptProblem, toDiagnostic } from './scriptDiagnostics';
+import { createDocumentValidator, isMagicScriptDocument } from './documentDiagnostics';
+
+export type LintRule = 'unused-variable' | 'shadowed-variable' | 'sql-concatenation' | 'update-without-where' | 'exit-code-range';
+export type LintLevel = 'off' | 'hint' | 'information' | 'warning' | 'error';
+
+// 规则对应的设置项 magicApi.lint.<setting> 与默认级别（需与 package.json 保持一致）
+const RULES: Record<LintRule, { setting: string; level: LintLevel }> = {
+    'unused-variable': { setting: 'unusedVariable', level: 'hint' },
+    'shadowed-variable': { setting: 'shadowedVariable', level: 'warning' },
+    'sql-concatenation': { setting: 'sqlConcatenation', level: 'warning' },
+    'update-without-where': { setting: 'updateWithoutWhere', level: 'warning' },
+    'exit-code-range': { setting: 'exitCode', level: 'warning' },
+};
+
+const SEVERITIES: Record<Exclude<LintLevel, 'off'>, vscode.DiagnosticSeverity> = {
+    hint: vscode.DiagnosticSeverity.Hint,
+    information: vscode.DiagnosticSeverity.Information,
+    warning: vscode.DiagnosticSeverity.Warning,
+    error: vscode.DiagnosticSeverity.Error,
+};
+
+// 参数为 SQL 语句的 db 方法
+const SQL_METHODS = new Set(['select', 'selectInt', 'selectOne', 'selectValue', 'page', 'count', 'update', 'insert', 'batchUpdate']);
+
+export interface LintOptions {
+    levels: Record<LintRule, LintLevel>;
+    exitCodeMin: number;
+    exitCodeMax: number;
+}
+
+export interface LintEdit {
+    start: number;
+    end: number;
+    newText: string;
+}
+
+export interface LintProblem extends ScriptProblem {
+    code: LintRule;
+    fix?: { title: string; edits: LintEdit[] };
+}
+
+export function readLintOptions(): LintOptions {
+    const config = vscode.workspace.getConfiguration('magicApi.lint');
+    const levels = {} as Record<LintRule, LintLevel>;
+    for (const rule of Object.keys(RULES) as LintRule[]) {
+        levels[rule] = config.get<boolean>('enabled', true) ? config.get<LintLevel>(RULES[rule].setting, RULES[rule].level) : 'off';
+    }
+    return { levels, exitCodeMin: config.get<number>('exitCodeMin', -1), exitCodeMax: config.get<number>('exitCodeMax', 999) };
+}
+
+function lineOf(text: string, offset: number): number {
+    let line = 1;
+    for (let i = text.indexOf('\n'); i >= 0 && i < offset; i = text.indexOf('\n', i + 1)) line++;
+    return line;
+}
+
+// 删除整条语句：语句独占一行时连同所在行一起删除
+function removeStatement(text: string, node: Node): LintEdit {
+    let start = node.start;
+    let end = node.end;
+    while (start > 0 && (text[start - 1] === ' ' || text[start - 1] === '\t')) start--;
+    while (end < text.length && /[ \t;]/.test(text[end])) end++;
+    const ownLine = (start === 0 || text[start - 1] === '\n') && (end === text.length || text[end] === '\n' || text[end] === '\r');
+    if (!ownLine) return { start: node.start, end: node.end, newText: '' };
+    if (text[end] === '\r') end++;
+    if (text[end] === '\n') end++;
+    return { start, end, newText: '' };
+}
+
+// 表达式求值是否可能产生副作用（调用、赋值等；不进入 lambda 函数体）
+function hasSideEffects(expr: Expression): boolean {
+    let found = false;
+    walk(expr, node => {
+        if (found || node.type === 'LambdaExpression') return false;
+        if (node.type === 'CallExpression' || node.type === 'NewExpression' || node.type === 'AssignmentExpression'
+            || node.type === 'UpdateExpression' || node.type === 'AsyncExpression') found = true;
+        return !found;
+    });
+    return found;
+}
+
+// SQL 字符串中 #{}、${}、?{} 引用的变量名（由 db 模块在执行时解析，作用域分析无法感知）
+function sqlReferencedNames(analysis: ScriptAnalysis): Set<string> {
+    const names = new Set<string>();
+    for (const token of analysis.tokens) {
+        if (token.type !== 'string' && token.type !== 'template') continue;
+        for (const m of token.value.matchAll(/[#$?]\{([^}]*)\}/g)) {
+            for (const id of m[1].matchAll(/(?<![\w$.])[A-Za-z_$][\w$]*/g)) names.add(id[0]);
+        }
+    }
+    return names;
+}
+
+function checkUnused(analysis: ScriptAnalysis, text: string, statements: Set<Node>, problems: LintProblem[]): void {
+    const sqlNames = sqlReferencedNames(analysis);
+    for (const d of analysis.declarations) {
+        if (d.kind !== 'var' && d.kind !== 'let' && d.kind !== 'const' && d.kind !== 'import') continue;
+        if (d.name.startsWith('_') || sqlNames.has(d.name) || d.references.some(r => !r.write)) continue;
+        const problem: LintProblem = {
+            code: 'unused-variable',
+            message: d.kind === 'import' ? `导入的「${d.name}」未被使用` : `变量「${d.name}」已声明但从未使用`,
+            start: d.id.start,
+            end: d.id.end,
+            severity: vscode.DiagnosticSeverity.Hint,
+            unnecessary: true,
+        };
+        // 仍有赋值时删除声明会破坏后续代码；有副作用的初始化表达式保留为独立语句
+        if (statements.has(d.node) && d.references.length === 0) {
+            const init = d.node.type === 'VariableDeclaration' ? d.node.init : undefined;
+            problem.fix = init && hasSideEffects(init)
+                ? { title: `删除变量「${d.name}」，保留初始化表达式`, edits: [{ start: d.node.start, end: init.start, newText: '' }] }
+                : { title: `删除${d.kind === 'import' ? '导入' : '变量'}「${d.name}」`, edits: [removeStatement(text, d.node)] };
+        }
+        problems.push(problem);
+    }
+}
+
+// 同一作用域中重复声明：通常本意是给已有变量重新赋值
+function redeclared(text: string, statements: Set<Node>, node: Node, id: Identifier, outer: Declaration): LintProblem {
+    const problem: LintProblem = { code: 'shadowed-variable', message: `重复声明变量「${id.name}」（第 ${lineOf(text, outer.id.start)} 行已声明）`, start: id.start, end: id.end, severity: vscode.DiagnosticSeverity.Warning };
+    if (statements.has(node) && node.type === 'VariableDeclaration' && node.init && outer.kind !== 'const' && outer.kind !== 'import') {
+        problem.fix = { title: `改为给「${id.name}」赋值`, edits: [{ start: node.start, end: id.start, newText: '' }] };
+    }
+    return problem;
+}
+
+function checkShadowed(analysis: ScriptAnalysis, text: string, statements: Set<Node>, problems: LintProblem[]): void {
+    for (const d of analysis.declarations) {
+        if (d.kind !== 'var' && d.kind !== 'let' && d.kind !== 'const') continue;
+        const outer: Declaration | undefined = resolveName(d.scope, d.name, d.id.start);
+        if (!outer) continue;
+        if (outer.scope !== d.scope) {
+            problems.push({ code: 'shadowed-variable', message: `变量「${d.name}」遮蔽了外层第 ${lineOf(text, outer.id.start)} 行声明的同名变量`, start: d.id.start, end: d.id.end, severity: vscode.DiagnosticSeverity.Warning });
+        } else {
+            problems.push(redeclared(text, statements, d.node, d.id, outer));
+        }
+    }
+    // 重复的 var 声明在作用域分析中已记为对原变量的赋值
+    for (const ref of analysis.references) {
+        if (ref.redeclaration && ref.declaration) problems.push(redeclared(text, statements, ref.redeclaration, ref.id, ref.declaration));
+    }
+}
+
+// 拆分 a + b + c 形式的字符串拼接
+function concatParts(expr: Expression): Expression[] {
+    if (expr.type === 'BinaryExpression' && expr.operator === '+') return [...concatParts(expr.left), ...concatParts(expr.right)];
+    return [expr];
+}
+
+const isString = (expr: Expression): expr is Literal => expr.type === 'Literal' && expr.kind === 'string';
+
+// 字符串字面量的内容（去掉引号、三引号或 ```lang 语言块标记）
+function stringContent(literal: Literal): string {
+    const raw = literal.raw;
+    if (raw.startsWith('```')) return raw.replace(/^```[^\n]*\n?/, '').replace(/```$/, '');
+    if (raw.startsWith('"""')) return raw.replace(/^"""/, '').replace(/"""$/, '');
+    return raw.slice(1, raw.length > 1 && raw.endsWith(raw[0]) ? -1 : undefined);
+}
+
+// 变量引用时取其初始化表达式（var sql = "..."; db.select(sql)）
+function resolveSql(analysis: ScriptAnalysis, expr: Expression): Expression {
+    if (expr.type !== 'Identifier') return expr;
+    const declaration = analysis.references.find(r => r.id === expr)?.declaration;
+    const node = declaration?.node;
+    if (node?.type !== 'VariableDeclaration' || !node.init || declaration!.references.some(r => r.write)) return expr;
+    return node.init;
+}
+
+// db.xxx(sql, ...) 调用：返回方法名与 SQL 参数（db.table(...) 链式调用不含 SQL）
+function sqlCalls(analysis: ScriptAnalysis): Array<{ method: string; sql: Expression }> {
+    const calls: Array<{ method: string; sql: Expression }> = [];
+    walk(analysis.program, node => {
+        if (node.type !== 'CallExpression' || !node.arguments.length) return;
+        const callee = node.callee;
+        if (callee.type !== 'MemberExpression' || callee.computed || callee.property.type !== 'Identifier') return;
+        if (!SQL_METHODS.has(callee.property.name)) return;
+        let object: Expression = callee.object;
+        for (;;) {
+            if (object.type === 'MemberExpression') {
+                if (object.property.type === 'Identifier' && object.property.name === 'table') return;
+                object = object.object;
+            } else if (object.type === 'CallExpression') {
+                object = object.callee;
+            } else {
+                break;
+            }
+        }
+        if (object.type === 'Identifier' && object.name === 'db') calls.push({ method: callee.property.name, sql: node.arguments[0] });
+    });
+    return calls;
+}
+
+// ${} 改为 #{}；参数两侧的单引号一并去掉（'${name}' → #{name}）
+function dollarToParamEdits(text: string, dollars: Array<{ start: number; end: number }>): LintEdit[] {
+    const edits: LintEdit[] = [];
+    for (const { start, end } of dollars) {
+        if (text[start - 1] === '\'' && text[end] === '\'') {
+            edits.push({ start: start - 1, end: start + 1, newText: '#' }, { start: end, end: end + 1, newText: '' });
+        } else {
+            edits.push({ start, end: start + 1, newText: '#' });
+        }
+    }
+    return edits;
+}
+
+// 拼接处是否为值的位置：比较运算符之后，或 in (...)、values (...) 的括号内（表名、排序列、条件片段等不能改为参数）
+function isValuePosition(sql: string): boolean {
+    const before = sql.replace(/'$/, '').trimEnd();
+    if (/<\/?[A-Za-z][^<>]*>$/.test(before)) return false;
+    if (/(?:[=<>]|\blike)$/i.test(before)) return true;
+    if (!/[(,]$/.test(before)) return false;
+    let depth = 0;
+    for (let i = before.length - 1; i >= 0; i--) {
+        if (before[i] === ')') depth++;
+        else if (before[i] === '(' && depth-- === 0) return /\b(?:in|values)\s*$/i.test(before.slice(0, i));
+    }
+    return false;
+}
+
+// "... id = " + id 合并为 "... id = #{id}"；仅处理普通引号字符串与变量/属性访问的拼接，且变量均处于值的位置
+function concatToParamFix(text: string, expr: Expression, parts: Expression[]): LintEdit | undefined {
+    const first = parts.find(isString);
+    const quote = first?.raw[0];
+    if (quote !== '"' && quote !== '\'') return undefined;
+    let content = '';
+    let stripQuote = false;
+    for (const part of parts) {
+        if (isString(part)) {
+            if (part.raw[0] !== '"' && part.raw[0] !== '\'') return undefined;
+            let inner = stringContent(part);
+            if (part.raw[0] !== quote && new RegExp(`(?<!\\\\)${quote}`).test(inner)) return undefined;
+            if (stripQuote && inner.startsWith('\'')) inner = inner.slice(1);
+            content += inner;
+            stripQuote = false;
+        } else {
+            let path: Expression = part;
+            while (path.type === 'MemberExpression' && !path.computed) path = path.object;
+            if (path.type !== 'Identifier' || !isValuePosition(content)) return undefined;
+            // 字符串中包裹参数的单引号：'" + name + "' → #{name}
+            stripQuote = quote === '"' && content.endsWith('\'');
+            if (stripQuote) content = content.slice(0, -1);
+            content += `#{${text.slice(part.start, part.end)}}`;
+        }
+    }
+    if (stripQuote) content += '\'';
+    return { start: expr.start, end: expr.end, newText: quote + content + quote };
+}
+
+function checkSql(analysis: ScriptAnalysis, text: string, levels: Record<LintRule, LintLevel>, problems: LintProblem[]): void {
+    const reported = new Set<number>();
+    for (const call of sqlCalls(analysis)) {
+        const expr = resolveSql(analysis, call.sql);
+        const parts = concatParts(expr);
+        const literals = parts.filter(isString);
+
+        if (levels['sql-concatenation'] !== 'off' && !reported.has(expr.start)) {
+            const message = 'SQL 语句中拼接了变量，存在注入风险，请改用 #{} 参数';
+            if (literals.length && parts.some(p => p.type !== 'Literal')) {
+                reported.add(expr.start);
+                const edit = concatToParamFix(text, expr, parts);
+                problems.push({ code: 'sql-concatenation', message, start: expr.start, end: expr.end, severity: vscode.DiagnosticSeverity.Warning, fix: edit ? { title: '改为 #{} 参数', edits: [edit] } : undefined });
+            } else if (expr.type === 'TemplateLiteral' && expr.expressions.length) {
+                // 模板字符串 `... ${id}` 由脚本先行求值，改为 #{} 后交给 db 模块绑定参数
+                reported.add(expr.start);
+                const token = analysis.tokens.find(t => t.start === expr.start);
+                const dollars = (token?.parts || []).map(p => ({ start: p.start - 2, end: p.end + 1 }));
+                problems.push({ code: 'sql-concatenation', message, start: expr.start, end: expr.end, severity: vscode.DiagnosticSeverity.Warning, fix: { title: '改为 #{} 参数', edits: dollarToParamEdits(text, dollars) } });
+            } else {
+                // 字符串中的 ${} 由 db 模块直接拼接进 SQL
+                const dollars: Array<{ start: number; end: number }> = [];
+                for (const literal of literals) {
+                    for (const m of literal.raw.matchAll(/\$\{[^}]*\}/g)) dollars.push({ start: literal.start + m.index!, end: literal.start + m.index! + m[0].length });
+                }
+                if (dollars.length) {
+                    reported.add(expr.start);
+                    problems.push({ code: 'sql-concatenation', message: 'SQL 语句中使用 ${} 直接拼接参数，存在注入风险，请改用 #{}', start: expr.start, end: expr.end, severity: vscode.DiagnosticSeverity.Warning, fix: { title: '将 ${} 改为 #{}', edits: dollarToParamEdits(text, dollars) } });
+                }
+            }
+        }
+
+        if (call.method === 'update' && levels['update-without-where'] !== 'off') {
+            // 非字面量部分视为占位符；模板字符串按原文处理
+            const sql = expr.type === 'TemplateLiteral'
+                ? text.slice(expr.start + 1, expr.end - 1)
+                : parts.map(p => isString(p) ? stringContent(p) : ' ? ').join('');
+            const statement = sql.replace(/\/\*[\s\S]*?\*\//g, ' ').replace(/--[^\n]*/g, ' ').trim();
+            const verb = /^(update|delete)\b/i.exec(statement)?.[1];
+            if (verb && (literals.length || expr.type === 'TemplateLiteral') && !/\bwhere\b/i.test(statement)) {
+                problems.push({ code: 'update-without-where', message: `${verb.toUpperCase()} 语句缺少 where 条件，将影响整张表`, start: call.sql.start, end: call.sql.end, severity: vscode.DiagnosticSeverity.Warning });
+            }
+        }
+    }
+}
+
+// 数字字面量的值（允许 1L、2.0f 等类型后缀）
+function numberValue(expr: Expression): number | undefined {
+    if (expr.type === 'UnaryExpression' && (expr.operator === '-' || expr.operator === '+')) {
+        const value = numberValue(expr.argument);
+        return value === undefined ? undefined : expr.operator === '-' ? -value : value;
+    }
+    if (expr.type !== 'Literal' || expr.kind !== 'number') return undefined;
+    const raw = expr.raw.replace(/_/g, '');
+    const value = /^0x/i.test(raw) ? parseInt(raw, 16) : Number(raw.replace(/[bBsSlLfFdDmM]$/, ''));
+    return Number.isNaN(value) ? undefined : value;
+}
+
+function checkExitCodes(analysis: ScriptAnalysis, options: LintOptions, problems: LintProblem[]): void {
+    walk(analysis.program, node => {
+        if (node.type !== 'ExitStatement' || !node.arguments.length) return;
+        const arg = node.arguments[0];
+        const code = numberValue(arg);
+        if (code === undefined) return;
+        const message = !Number.isInteger(code)
+            ? `退出码 ${code} 应为整数`
+            : code < options.exitCodeMin || code > options.exitCodeMax
+                ? `退出码 ${code} 不在允许的范围 ${options.exitCodeMin} ~ ${options.exitCodeMax} 内`
+                : undefined;
+        if (message) problems.push({ code: 'exit-code-range', message, start: arg.start, end: arg.end, severity: vscode.DiagnosticSeverity.Warning });
+    });
+}
+
+// 按配置执行语义检查规则，诊断级别取自设置
+export function lintScript(analysis: ScriptAnalysis, text: string, options: LintOptions): LintProblem[] {
+    const { levels } = options;
+    const problems: LintProblem[] = [];
+    // 直接位于脚本或代码块中的语句，可安全删除或改写
+    const statements = new Set<Node>();
+    walk(analysis.program, node => {
+        if (node.type === 'Program' || node.type === 'BlockStatement') node.body.forEach((s: Statement) => statements.add(s));
+    });
+    if (levels['unused-variable'] !== 'off') checkUnused(analysis, text, statements, problems);
+    if (levels['shadowed-variable'] !== 'off') checkShadowed(analysis, text, statements, problems);
+    if (levels['sql-concatenation'] !== 'off' || levels['update-without-where'] !== 'off') checkSql(analysis, text, levels, problems);
+    if (levels['exit-code-range'] !== 'off') checkExitCodes(analysis, options, problems);
+    return problems
+        .filter(p => levels[p.code] !== 'off')
+        .map(p => ({ ...p, severity: SEVERITIES[levels[p.code] as Exclude<LintLevel, 'off'>] }));
+}
+
+// 注册 Magic Script 语义检查与快速修复（与语言服务器是否运行无关）
+export function registerScriptLint(): vscode.Disposable[] {
+    const diagnostics = vscode.languages.createDiagnosticCollection('magic-script-lint');
+    const selector: vscode.DocumentSelector = [
+        { language: 'magic-script', scheme: 'file' },
+        { language: 'magic-script', scheme: 'magic-api' },
+    ];
+    const lint = (doc: vscode.TextDocument) => lintScript(analyzeDocument(doc), doc.getText(), readLintOptions());
+    const validator = createDocumentValidator(diagnostics, {
+        isTarget: isMagicScriptDocument,
+        validate: doc => diagnostics.set(doc.uri, lint(doc).map(p => toDiagnostic(doc, p))),
+    });
+
+    const disposables: vscode.Disposable[] = [
+        diagnostics,
+        validator,
+        vscode.workspace.onDidChangeConfiguration(e => { if (e.affectsConfiguration('magicApi.lint')) validator.validateAll(); }),
+
+        // 快速修复：按诊断位置重新匹配检查结果中的修复方案
+        vscode.languages.registerCodeActionsProvider(selector, {
+            provideCodeActions(doc, _range, ctx) {
+                const targets = ctx.diagnostics.filter(d => d.source === 'magic-script' && typeof d.code === 'string' && d.code in RULES);
+                if (!targets.length) return [];
+                const problems = lint(doc);
+                const actions: vscode.CodeAction[] = [];
+                for (const d of targets) {
+                    const start = doc.offsetAt(d.range.start);
+                    const end = doc.offsetAt(d.range.end);
+                    const fix = problems.find(p => p.code === d.code && p.start === start && p.end === end)?.fix;
+                    if (!fix) continue;
+                    const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+                    action.diagnostics = [d];
+                    action.edit = new vscode.WorkspaceEdit();
+                    for (const edit of fix.edits) {
+                        action.edit.replace(doc.uri, new vscode.Range(doc.positionAt(edit.start), doc.positionAt(edit.end)), edit.newText);
+                    }
+                    actions.push(action);
+                }
+                return actions;
+            }
+        }, { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }),
+    ];
+    validator.validateAll();
+    return disposables;
+}
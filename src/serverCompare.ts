@@ -0,0 +1,224 @@
+import * as vscode from 'vscode';
+import { MagicApiClient, MagicDataSourceInfo, ResourceTreeEntry } from './magicApiClient';
+import { MagicFileInfo } from './magicFileSystemProvider';
+import { MirrorFileMeta } from './mirrorWorkspaceManager';
+import { MagicResourceType } from './types';
+
+export type CompareStatus = 'added' | 'removed' | 'changed' | 'same';
+
+// 两台服务器同一 typedPath 的比较结果：added 表示仅源端存在，removed 表示仅目标端存在
+export interface CompareEntry {
+    typedPath: string;
+    isGroup: boolean;
+    status: CompareStatus;
+    source?: ResourceTreeEntry;
+    target?: ResourceTreeEntry;
+    sourceInfo?: MagicFileInfo | null;
+    targetInfo?: MagicFileInfo | null;
+    scriptChanged?: boolean;
+    metaChanged?: boolean;
+}
+
+// 写回服务器的元数据字段（镜像保存、备份导入与跨环境同步共用）
+export function toSaveFields(type: MagicResourceType, meta?: Partial<MirrorFileMeta> | Partial<MagicFileInfo> | null): Record<string, any> {
+    if (!meta) return {};
+    return {
+        path: meta.path,
+        method: meta.method,
+        requestMapping: meta.requestMapping,
+        description: meta.description,
+        ...(type === 'api' ? {
+            params: meta.params,
+            headers: meta.headers,
+            contentType: meta.contentType,
+            timeout: meta.timeout,
+        } : {}),
+        ...(type === 'task' ? {
+            cron: meta.cron,
+            enabled: meta.enabled,
+            executeOnStart: meta.executeOnStart,
+        } : {}),
+        ...(type === 'function' ? {
+            returnType: meta.returnType,
+            mappingPath: meta.mappingPath,
+            parameters: meta.parameters,
+        } : {}),
+        ...(type === 'datasource' ? {
+            key: meta.key,
+            url: meta.url,
+            driverClassName: meta.driverClassName,
+            username: meta.username,
+            password: meta.password,
+            dataSourceType: meta.dataSourceType,
+            maxRows: meta.maxRows,
+            properties: meta.properties,
+        } : {}),
+    };
+}
+
+// 数据源不走文件保存接口：把元数据转换为 saveDataSource 所需的配置（无 id 时新建）
+export function toDataSourceInfo(base: { id?: string; name: string; groupId?: string | null }, meta?: Partial<MirrorFileMeta> | Partial<MagicFileInfo> | null): MagicDataSourceInfo {
+    const fields = toSaveFields('datasource', meta);
+    return {
+        id: base.id || undefined,
+        name: base.name,
+        groupId: base.groupId || undefined,
+        key: String(fields.key || ''),
+        url: String(fields.url || ''),
+        driverClassName: fields.driverClassName,
+        username: fields.username,
+        password: fields.password,
+        type: fields.dataSourceType,
+        maxRows: fields.maxRows,
+        properties: fields.properties,
+    };
+}
+
+// 跨服务器比较用的元数据：去掉 ID、时间戳等随环境变化的字段
+export function comparableMeta(info: MagicFileInfo | null | undefined): Record<string, any> | null {
+    if (!info) return null;
+    const fields = toSaveFields(info.type, info);
+    const result: Record<string, any> = { name: info.name, type: info.type };
+    for (const key of Object.keys(fields)) {
+        const v = fields[key];
+        if (v !== undefined && v !== null && v !== '' && !(Array.isArray(v) && v.length === 0)) result[key] = v;
+    }
+    return result;
+}
+
+export function comparableGroupMeta(node: any): Record<string, any> | null {
+    if (!node) return null;
+    return { name: node.name, path: node.path || '', description: node.description || undefined };
+}
+
+const inSubtree = (typedPath: string, root: string) => !root || typedPath === root || typedPath.startsWith(`${root}/`);
+
+// 已读取的文件详情，按客户端与文件 ID 缓存；资源树中的 updateTime 未变化时重复比较不再请求
+const fileCache = new WeakMap<MagicApiClient, Map<string, MagicFileInfo>>();
+// 同时读取文件详情的请求数
+const FETCH_CONCURRENCY = 6;
+
+async function getFileCached(client: MagicApiClient, entry: ResourceTreeEntry): Promise<MagicFileInfo | null> {
+    let cache = fileCache.get(client);
+    if (!cache) {
+        cache = new Map();
+        fileCache.set(client, cache);
+    }
+    const cached = cache.get(entry.id);
+    const updateTime = entry.node?.updateTime;
+    if (cached && typeof updateTime === 'number' && cached.updateTime === updateTime) return cached;
+    const info = await client.getFile(entry.id);
+    if (info) cache.set(entry.id, info);
+    else cache.delete(entry.id);
+    return info;
+}
+
+// 比较两台服务器某子树（类型、分组或单个文件）下的分组与文件；取消时返回 undefined
+export async function compareSubtree(
+    sourceClient: MagicApiClient,
+    targetClient: MagicApiClient,
+    root: string,
+    progress?: vscode.Progress<{ message?: string; increment?: number }>,
+    token?: vscode.CancellationToken
+): Promise<CompareEntry[] | undefined> {
+    const [src, tgt] = await Promise.all([sourceClient.getResourceTree(true), targetClient.getResourceTree(true)]);
+    const result: CompareEntry[] = [];
+    const pending: CompareEntry[] = [];
+
+    // 先按资源树完成分组比较与新增/删除判定，只为文件收集需要读取详情的条目
+    for (const entry of src.byPath.values()) {
+        if (!inSubtree(entry.typedPath, root)) continue;
+        const target = tgt.byPath.get(entry.typedPath);
+        if (entry.isGroup) {
+            const changed = !!target && JSON.stringify(comparableGroupMeta(entry.node)) !== JSON.stringify(comparableGroupMeta(target.node));
+            result.push({ typedPath: entry.typedPath, isGroup: true, status: !target ? 'added' : changed ? 'changed' : 'same', source: entry, target });
+            continue;
+        }
+        pending.push({ typedPath: entry.typedPath, isGroup: false, status: target ? 'same' : 'added', source: entry, target });
+    }
+    for (const entry of tgt.byPath.values()) {
+        if (!inSubtree(entry.typedPath, root) || src.byPath.has(entry.typedPath)) continue;
+        if (entry.isGroup) result.push({ typedPath: entry.typedPath, isGroup: true, status: 'removed', target: entry });
+        else pending.push({ typedPath: entry.typedPath, isGroup: false, status: 'removed', target: entry });
+    }
+
+    // 读取脚本：两侧并行，整体限制并发数，支持取消
+    let next = 0;
+    let done = 0;
+    const worker = async () => {
+        while (next < pending.length && !token?.isCancellationRequested) {
+            const entry = pending[next++];
+            const [sourceInfo, targetInfo] = await Promise.all([
+                entry.source ? getFileCached(sourceClient, entry.source) : null,
+                entry.target ? getFileCached(targetClient, entry.target) : null,
+            ]);
+            if (entry.source) entry.sourceInfo = sourceInfo;
+            if (entry.target) entry.targetInfo = targetInfo;
+            if (entry.status === 'same') {
+                entry.scriptChanged = (sourceInfo?.script || '') !== (targetInfo?.script || '');
+                entry.metaChanged = JSON.stringify(comparableMeta(sourceInfo)) !== JSON.stringify(comparableMeta(targetInfo));
+                if (entry.scriptChanged || entry.metaChanged) entry.status = 'changed';
+            }
+            done++;
+            progress?.report({ message: `${done}/${pending.length} ${entry.typedPath}`, increment: 100 / pending.length });
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(FETCH_CONCURRENCY, pending.length) }, worker));
+    if (token?.isCancellationRequested) return undefined;
+    return result.concat(pending).sort((a, b) => a.typedPath.localeCompare(b.typedPath));
+}
+
+export type CompareDiffPart = 'all' | 'script' | 'meta';
+
+// 差异视图中展示的内容：元数据（JSON）+ 脚本，可只取其中一部分
+export function renderForDiff(entry: CompareEntry, side: 'source' | 'target', part: CompareDiffPart = 'all'): string {
+    if (entry.isGroup) {
+        const node = side === 'source' ? entry.source?.node : entry.target?.node;
+        return node ? JSON.stringify(comparableGroupMeta(node), null, 2) + '\n' : '';
+    }
+    const info = side === 'source' ? entry.sourceInfo : entry.targetInfo;
+    if (!info) return '';
+    if (part === 'script') return info.script || '';
+    if (part === 'meta') return JSON.stringify(comparableMeta(info), null, 2) + '\n';
+    return `// ==== 元数据 ====\n${JSON.stringify(comparableMeta(info), null, 2)}\n// ==== 脚本 ====\n${info.script || ''}`;
+}
+
+// 只读的内存文档，用于在 diff 编辑器中展示两台服务器的内容
+export class CompareContentProvider implements vscode.TextDocumentContentProvider {
+    public static readonly scheme = 'magic-api-compare';
+    private static instance: CompareContentProvider;
+    private contents = new Map<string, string>();
+    private seq = 0;
+
+    public static getInstance(): CompareContentProvider {
+        if (!CompareContentProvider.instance) {
+            CompareContentProvider.instance = new CompareContentProvider();
+        }
+        return CompareContentProvider.instance;
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) ?? '';
+    }
+
+    // 生成带序号的 URI，避免 VS Code 复用旧内容
+    createUri(label: string, typedPath: string, content: string, asJson: boolean = !typedPath.endsWith('.ms')): vscode.Uri {
+        const uri = vscode.Uri.from({ scheme: CompareContentProvider.scheme, path: `/${label}/${typedPath}${asJson ? '.json' : ''}`, query: String(++this.seq) });
+        this.contents.set(uri.toString(), content);
+        return uri;
+    }
+
+    // 重新比较后释放旧文档内容
+    clear(): void {
+        this.contents.clear();
+    }
+}
+
+export async function openCompareDiff(entry: CompareEntry, sourceLabel: string, targetLabel: string, part: CompareDiffPart = 'all'): Promise<void> {
+    const provider = CompareContentProvider.getInstance();
+    const asJson = entry.isGroup || part === 'meta';
+    const left = provider.createUri(targetLabel, entry.typedPath, renderForDiff(entry, 'target', part), asJson);
+    const right = provider.createUri(sourceLabel, entry.typedPath, renderForDiff(entry, 'source', part), asJson);
+    const suffix = part === 'script' ? ' 脚本' : part === 'meta' ? ' 元数据' : '';
+    await vscode.commands.executeCommand('vscode.diff', left, right, `${entry.typedPath}${suffix} (${targetLabel} ↔ ${sourceLabel})`, { preview: true });
+}
@@ -0,0 +1,336 @@
+import * as vscode from 'vscode';
+import { ServerManager } from './serverManager';
+import { MagicApiClient, MagicServerConfig } from './magicApiClient';
+import { MagicFileInfo, MagicFileSystemProvider, MagicGroupInfo } from './magicFileSystemProvider';
+import { MAGIC_RESOURCE_TYPES, MagicResourceType } from './types';
+import { debug } from './logger';
+
+// 资源类型显示名称与图标
+const TYPE_LABELS: Record<MagicResourceType, string> = {
+    api: '接口',
+    function: '函数',
+    datasource: '数据源',
+    database: '数据库',
+    task: '定时任务',
+};
+
+const TYPE_ICONS: Record<MagicResourceType, string> = {
+    api: 'globe',
+    function: 'symbol-function',
+    datasource: 'database',
+    database: 'table',
+    task: 'watch',
+};
+
+export type ServerExplorerNode =
+    | { kind: 'server'; serverId: string }
+    | { kind: 'type'; serverId: string; type: MagicResourceType }
+    | { kind: 'group'; serverId: string; type: MagicResourceType; group: MagicGroupInfo; typedPath: string }
+    | { kind: 'file'; serverId: string; type: MagicResourceType; file: MagicFileInfo; typedPath: string };
+
+// Magic API 资源视图：服务器 → 资源类型 → 分组 → 文件
+export class ServerExplorerProvider implements vscode.TreeDataProvider<ServerExplorerNode> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<ServerExplorerNode | undefined>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(private serverManager: ServerManager) {}
+
+    refresh(node?: ServerExplorerNode): void {
+        this._onDidChangeTreeData.fire(node);
+    }
+
+    getClient(serverId: string): MagicApiClient | null {
+        return this.serverManager.getClient(serverId);
+    }
+
+    getServer(serverId: string): MagicServerConfig | undefined {
+        return this.serverManager.getServers().find(s => s.id === serverId);
+    }
+
+    getTreeItem(node: ServerExplorerNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'server': {
+                const server = this.getServer(node.serverId);
+                const isCurrent = this.serverManager.getCurrentServer()?.id === node.serverId;
+                const item = new vscode.TreeItem(server?.name || node.serverId, vscode.TreeItemCollapsibleState.Collapsed);
+                item.id = `server:${node.serverId}`;
+                item.description = isCurrent ? `${server?.url || ''} (当前)` : server?.url;
+                item.tooltip = server?.url;
+                item.iconPath = new vscode.ThemeIcon(isCurrent ? 'vm-active' : 'server');
+                item.contextValue = 'magicServer';
+                return item;
+            }
+            case 'type': {
+                const item = new vscode.TreeItem(TYPE_LABELS[node.type], vscode.TreeItemCollapsibleState.Collapsed);
+                item.id = `type:${node.serverId}:${node.type}`;
+                item.description = node.type;
+                item.iconPath = new vscode.ThemeIcon(TYPE_ICONS[node.type]);
+                item.contextValue = 'magicType';
+                return item;
+            }
+            case 'group': {
+                const item = new vscode.TreeItem(node.group.name, vscode.TreeItemCollapsibleState.Collapsed);
+                item.id = `group:${node.serverId}:${node.group.id || node.typedPath}`;
+                item.tooltip = node.typedPath;
+                item.iconPath = vscode.ThemeIcon.Folder;
+                item.contextValue = 'magicGroup';
+                return item;
+            }
+            case 'file': {
+                const f = node.file;
+                const item = new vscode.TreeItem(f.name, vscode.TreeItemCollapsibleState.None);
+                item.id = `file:${node.serverId}:${f.id || node.typedPath}`;
+                // 接口显示请求方法与路径，定时任务显示 cron 表达式
+                if (node.type === 'api') {
+                    const mapping = f.requestMapping || f.path;
+                    item.description = [f.method, mapping].filter(Boolean).join(' ');
+                } else if (node.type === 'task') {
+                    item.description = f.cron ? `${f.cron}${f.enabled === false ? ' (已停用)' : ''}` : undefined;
+                }
+                const tooltip = new vscode.MarkdownString();
+                tooltip.appendMarkdown(`**${f.name}**\n\n`);
+                tooltip.appendMarkdown(`路径: \`${node.typedPath}\`\n\n`);
+                if (item.description) tooltip.appendMarkdown(`${item.description}\n\n`);
+                if (f.description) tooltip.appendMarkdown(`${f.description}\n\n`);
+                if (f.locked) tooltip.appendMarkdown(`$(lock) 已锁定\n\n`);
+                if (f.updateTime) tooltip.appendMarkdown(`更新时间: ${new Date(f.updateTime).toLocaleString()}`);
+                item.tooltip = tooltip;
+                tooltip.supportThemeIcons = true;
+                item.iconPath = new vscode.ThemeIcon(f.locked ? 'lock' : node.type === 'api' ? 'symbol-method' : TYPE_ICONS[node.type]);
+                item.contextValue = `magicFile${node.type === 'api' || node.type === 'datasource' ? '.' + node.type : ''}${f.locked ? '.locked' : ''}`;
+                item.command = { command: 'magicApi.explorer.open', title: '打开', arguments: [node] };
+                return item;
+            }
+        }
+    }
+
+    async getChildren(node?: ServerExplorerNode): Promise<ServerExplorerNode[]> {
+        if (!node) {
+            return this.serverManager.getServers().map(s => ({ kind: 'server', serverId: s.id } as ServerExplorerNode));
+        }
+        if (node.kind === 'server') {
+            return MAGIC_RESOURCE_TYPES.map(type => ({ kind: 'type', serverId: node.serverId, type } as ServerExplorerNode));
+        }
+        if (node.kind === 'file') return [];
+
+        const client = this.getClient(node.serverId);
+        if (!client) return [];
+        try {
+            const groupId = node.kind === 'group' ? node.group.id : null;
+            const parentPath = node.kind === 'group' ? node.typedPath : node.type;
+            const groups = (await client.getGroups(node.type))
+                .filter(g => groupId ? g.parentId === groupId : (!g.parentId || g.parentId === '0'))
+                .sort((a, b) => a.name.localeCompare(b.name));
+            const files = (await client.getFiles(node.type, groupId))
+                .sort((a, b) => a.name.localeCompare(b.name));
+            return [
+                ...groups.map(group => ({ kind: 'group', serverId: node.serverId, type: node.type, group, typedPath: `${parentPath}/${group.name}` } as ServerExplorerNode)),
+                ...files.map(file => ({ kind: 'file', serverId: node.serverId, type: node.type, file, typedPath: `${parentPath}/${file.name}.ms` } as ServerExplorerNode)),
+            ];
+        } catch (e) {
+            debug(`加载资源视图失败: server=${node.serverId} ${String((e as any)?.message || e)}`);
+            vscode.window.showErrorMessage(`加载 Magic API 资源失败: ${String((e as any)?.message || e)}`);
+            return [];
+        }
+    }
+}
+
+// 注册资源视图及其右键操作
+export function registerServerExplorer(
+    context: vscode.ExtensionContext,
+    serverManager: ServerManager,
+    fileSystemProvider: MagicFileSystemProvider
+): ServerExplorerProvider {
+    const provider = new ServerExplorerProvider(serverManager);
+    const view = vscode.window.createTreeView('magicApiExplorer', { treeDataProvider: provider, showCollapseAll: true });
+
+    // 虚拟文件系统只绑定当前服务器，操作其他服务器的文件前需要切换
+    const ensureCurrentServer = async (serverId: string): Promise<boolean> => {
+        if (serverManager.getCurrentServer()?.id === serverId) return true;
+        const server = provider.getServer(serverId);
+        const action = await vscode.window.showInformationMessage(
+            `该操作需要切换当前服务器到「${server?.name || serverId}」，是否切换？`,
+            '切换', '取消'
+        );
+        if (action !== '切换') return false;
+        await serverManager.setCurrentServer(serverId);
+        return true;
+    };
+
+    const openFile = async (node: ServerExplorerNode): Promise<vscode.TextEditor | undefined> => {
+        if (node?.kind !== 'file') return undefined;
+        if (!(await ensureCurrentServer(node.serverId))) return undefined;
+        const uri = vscode.Uri.parse(`magic-api:/${node.typedPath}`);
+        return vscode.window.showTextDocument(uri, { preview: true });
+    };
+
+    // 变更后使该服务器的资源树缓存失效并刷新视图
+    const refreshAfterChange = (node: ServerExplorerNode) => {
+        const client = provider.getClient(node.serverId);
+        client?.invalidateResourceTree();
+        provider.refresh();
+    };
+
+    const refreshTimer: { handle?: NodeJS.Timeout } = {};
+    const scheduleRefresh = () => {
+        if (refreshTimer.handle) clearTimeout(refreshTimer.handle);
+        refreshTimer.handle = setTimeout(() => provider.refresh(), 300);
+    };
+
+    context.subscriptions.push(
+        view,
+        serverManager.onServerChanged(() => provider.refresh()),
+        vscode.workspace.onDidChangeConfiguration((e) => {
+            if (e.affectsConfiguration('magicApi.servers')) provider.refresh();
+        }),
+        // 虚拟文件系统中的创建/删除/重命名以及服务端变化检测都会触发刷新
+        fileSystemProvider.onDidChangeFile((events) => {
+            if (events.some(e => e.type !== vscode.FileChangeType.Changed)) scheduleRefresh();
+        }),
+
+        vscode.commands.registerCommand('magicApi.explorer.refresh', (node?: ServerExplorerNode) => {
+            if (node) {
+                provider.getClient(node.serverId)?.invalidateResourceTree();
+            } else {
+                for (const s of serverManager.getServers()) serverManager.getClient(s.id)?.invalidateResourceTree();
+            }
+            provider.refresh(node);
+        }),
+
+        vscode.commands.registerCommand('magicApi.explorer.open', async (node: ServerExplorerNode) => {
+            await openFile(node);
+        }),
+
+        vscode.commands.registerCommand('magicApi.explorer.selectServer', async (node: ServerExplorerNode) => {
+            if (node?.kind !== 'server') return;
+            await serverManager.setCurrentServer(node.serverId);
+        }),
+
+        vscode.commands.registerCommand('magicApi.explorer.createFile', async (node: ServerExplorerNode) => {
+            if (node?.kind !== 'type' && node?.kind !== 'group') return;
+            const client = provider.getClient(node.serverId);
+            if (!client) return;
+            const name = await vscode.window.showInputBox({ prompt: '输入文件名', placeHolder: '例如: getUserInfo' });
+            if (!name) return;
+            let method: string | undefined;
+            let requestMapping: string | undefined;
+            if (node.type === 'api') {
+                method = await vscode.window.showQuickPick(['GET', 'POST', 'PUT', 'DELETE'], { placeHolder: '选择请求方法' });
+                if (!method) return;
+                requestMapping = await vscode.window.showInputBox({ prompt: '输入请求路径', value: name });
+                if (requestMapping === undefined) return;
+            }
+            const groupPath = node.kind === 'group' ? node.typedPath : node.type;
+            try {
+                const id = await client.createFile({
+                    name,
+                    script: '// Magic Script\n',
+                    groupPath,
+                    groupId: node.kind === 'group' ? node.group.id : null,
+                    type: node.type,
+                    method,
+                    requestMapping,
+                });
+                if (!id) {
+                    vscode.window.showErrorMessage('创建文件失败');
+                    return;
+                }
+                refreshAfterChange(node);
+                if (serverManager.getCurrentServer()?.id === node.serverId) {
+                    await vscode.window.showTextDocument(vscode.Uri.parse(`magic-api:/${groupPath}/${name}.ms`));
+                }
+            } catch (e) {
+                vscode.window.showErrorMessage(`创建文件失败: ${String((e as any)?.message || e)}`);
+            }
+        }),
+
+        vscode.commands.registerCommand('magicApi.explorer.createGroup', async (node: ServerExplorerNode) => {
+            if (node?.kind !== 'type' && node?.kind !== 'group') return;
+            const client = provider.getClient(node.serverId);
+            if (!client) return;
+            const name = await vscode.window.showInputBox({ prompt: '输入分组名', placeHolder: '例如: user' });
+            if (!name) return;
+            try {
+                const id = await client.createGroup({ name, parentId: node.kind === 'group' ? node.group.id : null, type: node.type });
+                if (!id) {
+                    vscode.window.showErrorMessage('创建分组失败');
+                    return;
+                }
+                refreshAfterChange(node);
+            } catch (e) {
+                vscode.window.showErrorMessage(`创建分组失败: ${String((e as any)?.message || e)}`);
+            }
+        }),
+
+        vscode.commands.registerCommand('magicApi.explorer.rename', async (node: ServerExplorerNode) => {
+            if (node?.kind !== 'group' && node?.kind !== 'file') return;
+            const client = provider.getClient(node.serverId);
+            if (!client) return;
+            const oldName = node.kind === 'group' ? node.group.name : node.file.name;
+            const name = await vscode.window.showInputBox({ prompt: '输入新名称', value: oldName });
+            if (!name || name === oldName) return;
+            try {
+                let ok = false;
+                if (node.kind === 'file') {
+                    const full = await client.getFile(node.file.id);
+                    if (!full) throw new Error('文件不存在');
+                    ok = await client.saveFile({ ...full, name });
+                } else {
+                    ok = await client.renameGroup(node.group.id, name);
+                }
+                if (!ok) {
+                    vscode.window.showErrorMessage('重命名失败');
+                    return;
+                }
+                refreshAfterChange(node);
+            } catch (e) {
+                vscode.window.showErrorMessage(`重命名失败: ${String((e as any)?.message || e)}`);
+            }
+        }),
+
+        vscode.commands.registerCommand('magicApi.explorer.delete', async (node: ServerExplorerNode) => {
+            if (node?.kind !== 'group' && node?.kind !== 'file') return;
+            const client = provider.getClient(node.serverId);
+            if (!client) return;
+            const label = node.kind === 'group' ? `分组「${node.group.name}」及其下所有内容` : `文件「${node.file.name}」`;
+            const confirm = await vscode.window.showWarningMessage(`确定删除${label}？`, { modal: true }, '删除');
+            if (confirm !== '删除') return;
+            try {
+                const ok = node.kind === 'file'
+                    ? await client.deleteFile(node.file.id)
+                    : await client.deleteGroup(node.group.id);
+                if (!ok) {
+                    vscode.window.showErrorMessage('删除失败');
+                    return;
+                }
+                refreshAfterChange(node);
+            } catch (e) {
+                vscode.window.showErrorMessage(`删除失败: ${String((e as any)?.message || e)}`);
+            }
+        }),
+
+        vscode.commands.registerCommand('magicApi.explorer.run', async (node: ServerExplorerNode) => {
+            if (await openFile(node)) await vscode.commands.executeCommand('magicApi.runScript');
+        }),
+
+        vscode.commands.registerCommand('magicApi.explorer.debug', async (node: ServerExplorerNode) => {
+            if (await openFile(node)) await vscode.commands.executeCommand('magicApi.debugScript');
+        }),
+
+        vscode.commands.registerCommand('magicApi.explorer.copyUrl', async (node: ServerExplorerNode) => {
+            if (node?.kind !== 'file' || node.type !== 'api') return;
+            const client = provider.getClient(node.serverId);
+            if (!client) return;
+            const requestPath = await client.getApiRequestPath(node.file.id);
+            if (!requestPath) {
+                vscode.window.showErrorMessage('无法解析接口路径');
+                return;
+            }
+            const url = `${client.getApiBaseUrl()}${requestPath}`;
+            await vscode.env.clipboard.writeText(url);
+            vscode.window.showInformationMessage(`已复制: ${url}`);
+        }),
+    );
+
+    return provider;
+}
@@ -1,12 +1,14 @@
 import * as vscode from 'vscode';
 import { MagicApiClient, MagicServerConfig } from './magicApiClient';
 import { debug } from './logger';
+import { CredentialStore } from './credentialStore';
 
 export class ServerManager {
     private static instance: ServerManager;
     private servers: Map<string, MagicServerConfig> = new Map();
     private clients: Map<string, MagicApiClient> = new Map();
     private currentServerId: string | null = null;
+    private credentialStore?: CredentialStore;
     private _onServerChanged = new vscode.EventEmitter<string | null>();
 
     public readonly onServerChanged = this._onServerChanged.event;
@@ -42,10 +44,41 @@ export class ServerManager {
         }
     }
 
-    // 保存服务器配置
+    // 启用 SecretStorage：迁移设置中的明文凭据，并将已保存的凭据回填到内存配置
+    async initCredentials(store: CredentialStore): Promise<void> {
+        this.credentialStore = store;
+        let migrated = 0;
+        for (const server of this.servers.values()) {
+            const plain = CredentialStore.pick(server);
+            if (!CredentialStore.isEmpty(plain)) {
+                await store.set(server.id, plain);
+                migrated++;
+            } else {
+                // 原地回填，已创建的客户端共享同一配置对象
+                const saved = await store.get(server.id);
+                if (saved) Object.assign(server, saved);
+            }
+        }
+        if (migrated > 0) {
+            await this.saveServers();
+            debug(`已将 ${migrated} 个服务器的明文凭据迁移到 SecretStorage`);
+        }
+    }
+
+    // 保存服务器配置（启用 SecretStorage 后，密码与令牌不再写入设置）
     private async saveServers(): Promise<void> {
         const config = vscode.workspace.getConfiguration('magicApi');
-        const servers = Array.from(this.servers.values());
+        const store = this.credentialStore;
+        const servers: MagicServerConfig[] = [];
+        for (const server of this.servers.values()) {
+            if (store) {
+                await store.set(server.id, CredentialStore.pick(server));
+                const { password, token, ...rest } = server;
+                servers.push(rest);
+            } else {
+                servers.push(server);
+            }
+        }
         
         await config.update('servers', servers, vscode.ConfigurationTarget.Global);
         await config.update('currentServer', this.currentServerId, vscode.ConfigurationTarget.Global);
@@ -66,6 +99,11 @@ export class ServerManager {
         return this.currentServerId ? this.clients.get(this.currentServerId) || null : null;
     }
 
+    // 获取指定服务器的客户端
+    getClient(serverId: string): MagicApiClient | null {
+        return this.clients.get(serverId) || null;
+    }
+
     // 获取 LSP 服务器地址
     async getLspUrl(serverId: string): Promise<string | null> {
         const client = this.clients.get(serverId);
@@ -127,6 +165,7 @@ export class ServerManager {
 
         this.servers.delete(serverId);
         this.clients.delete(serverId);
+        await this.credentialStore?.delete(serverId);
         // 无需处理桥接资源
 
         // 如果删除的是当前服务器，清空当前选择
@@ -0,0 +1,134 @@
+// 简单的 SQL 排版：主要子句各占一行，where/having/on 中的 and/or 换行缩进一级
+// 括号内（子查询、函数参数）保持原样排在同一行；#{}、${}、?{} 参数与字符串不做改动
+
+export type SqlKeywordCase = 'preserve' | 'upper' | 'lower';
+
+export interface SqlFormatOptions {
+    keywordCase: SqlKeywordCase;
+}
+
+export interface SqlLine {
+    depth: number; // 相对缩进层级
+    text: string;
+}
+
+interface Atom {
+    text: string;
+    kind: 'word' | 'string' | 'param' | 'comment' | 'punct';
+    space: boolean; // 原文中前面是否有空白
+}
+
+const KEYWORDS = new Set([
+    'select', 'distinct', 'from', 'where', 'and', 'or', 'not', 'in', 'is', 'null', 'like', 'between', 'exists', 'as', 'on',
+    'join', 'left', 'right', 'inner', 'outer', 'full', 'cross', 'group', 'order', 'by', 'having', 'limit', 'offset', 'asc', 'desc',
+    'union', 'all', 'intersect', 'except', 'insert', 'into', 'values', 'update', 'set', 'delete', 'case', 'when', 'then', 'else',
+    'end', 'with', 'returning',
+]);
+
+// 在括号外时另起一行的子句
+const CLAUSES = new Set(['select', 'from', 'where', 'set', 'values', 'having', 'limit', 'offset', 'union', 'intersect', 'except', 'insert', 'update', 'delete', 'with', 'returning']);
+const JOIN_PREFIXES = new Set(['left', 'right', 'inner', 'full', 'cross']);
+// 两侧补空格的比较运算符
+const COMPARISONS = new Set(['=', '<>', '!=', '<', '>', '<=', '>=']);
+
+// 读取 #{...} 等参数（允许嵌套大括号与其中的字符串）
+function readParam(sql: string, start: number): number {
+    let depth = 0;
+    for (let i = start + 1; i < sql.length; i++) {
+        const c = sql[i];
+        if (c === '\'' || c === '"') {
+            const close = sql.indexOf(c, i + 1);
+            if (close < 0) return sql.length;
+            i = close;
+        } else if (c === '{') {
+            depth++;
+        } else if (c === '}') {
+            if (--depth === 0) return i + 1;
+        }
+    }
+    return sql.length;
+}
+
+function tokenizeSql(sql: string): Atom[] {
+    const atoms: Atom[] = [];
+    let i = 0;
+    let space = false;
+    const push = (kind: Atom['kind'], end: number) => {
+        atoms.push({ text: sql.slice(i, end), kind, space });
+        space = false;
+        i = end;
+    };
+    while (i < sql.length) {
+        const c = sql[i];
+        if (/\s/.test(c)) { space = true; i++; continue; }
+        if (sql.startsWith('--', i)) {
+            const end = sql.indexOf('\n', i);
+            push('comment', end < 0 ? sql.length : end);
+        } else if (sql.startsWith('/*', i)) {
+            const end = sql.indexOf('*/', i + 2);
+            push('comment', end < 0 ? sql.length : end + 2);
+        } else if (c === '\'' || c === '"' || c === '`') {
+            // SQL 中以两个引号转义
+            let j = i + 1;
+            while (j < sql.length && (sql[j] !== c || sql[j + 1] === c)) j += sql[j] === c ? 2 : 1;
+            push('string', Math.min(j + 1, sql.length));
+        } else if ((c === '#' || c === '$' || c === '?') && sql[i + 1] === '{') {
+            push('param', readParam(sql, i));
+        } else if (/[\p{L}\p{N}_$@:.]/u.test(c)) {
+            const m = /^[\p{L}\p{N}_$@:.]+/u.exec(sql.slice(i))!;
+            push('word', i + m[0].length);
+        } else {
+            const m = /^(?:<>|<=|>=|!=|\|\||::)/.exec(sql.slice(i, i + 2));
+            push('punct', i + (m ? 2 : 1));
+        }
+    }
+    return atoms;
+}
+
+// 排版 SQL；包含 <if>、<where> 等动态标签时无法安全排版，返回 undefined
+export function formatSql(sql: string, options: SqlFormatOptions): SqlLine[] | undefined {
+    if (!sql.trim() || /<\/?[A-Za-z]/.test(sql)) return undefined;
+    const atoms = tokenizeSql(sql);
+    const lines: SqlLine[] = [];
+    let line: SqlLine | undefined;
+    let parens = 0;
+    let between = false;
+    let breakNext: number | undefined; // 注释或分号之后另起一行的缩进层级
+    const newLine = (depth: number) => {
+        line = { depth, text: '' };
+        lines.push(line);
+    };
+
+    atoms.forEach((atom, index) => {
+        const word = atom.kind === 'word' ? atom.text.toLowerCase() : '';
+        const next = atoms[index + 1]?.kind === 'word' ? atoms[index + 1].text.toLowerCase() : '';
+        const prev = atoms[index - 1]?.kind === 'word' ? atoms[index - 1].text.toLowerCase() : '';
+        let breakDepth: number | undefined;
+        if (parens === 0 && atom.kind === 'word') {
+            if (CLAUSES.has(word) || ((word === 'group' || word === 'order') && next === 'by')) breakDepth = 0;
+            else if (JOIN_PREFIXES.has(word) && (next === 'join' || next === 'outer')) breakDepth = 0;
+            else if (word === 'join' && !JOIN_PREFIXES.has(prev) && prev !== 'outer') breakDepth = 0;
+            else if ((word === 'and' && !between) || word === 'or') breakDepth = 1;
+        }
+        if (word === 'and' && between) between = false;
+        if (word === 'between') between = true;
+
+        if (!line || breakDepth !== undefined || breakNext !== undefined) {
+            newLine(breakDepth ?? breakNext ?? 0);
+        } else {
+            const last = line.text[line.text.length - 1];
+            const space = atom.text === ',' || atom.text === ')' ? false : last === ',' || atom.space || COMPARISONS.has(atom.text) || COMPARISONS.has(atoms[index - 1].text);
+            if (space && last !== '(') line.text += ' ';
+        }
+        breakNext = atom.kind === 'comment' && atom.text.startsWith('--') ? line!.depth : undefined;
+
+        let text = atom.text;
+        if (word && KEYWORDS.has(word) && options.keywordCase !== 'preserve') text = options.keywordCase === 'upper' ? text.toUpperCase() : word;
+        line!.text += text;
+
+        if (atom.text === '(') parens++;
+        else if (atom.text === ')') parens = Math.max(0, parens - 1);
+        else if (atom.text === ';' && parens === 0) breakNext = 0;
+    });
+    return lines.filter(l => l.text);
+}
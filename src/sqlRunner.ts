@@ -0,0 +1,420 @@
+import * as vscode from 'vscode';
+import { Buffer } from 'buffer';
+import { MagicApiClient } from './magicApiClient';
+import { ServerManager } from './serverManager';
+import { DataSourceKeyIndex } from './datasourceManager';
+import { DbHelper } from './dbHelper';
+import { findSqlContext } from './schemaExplorer';
+import { getNonce } from './webviewUtils';
+
+// 一次 SQL 执行：占位符已改写为 #{params.pN}
+interface SqlRun {
+    client: MagicApiClient;
+    dsKey: string;
+    dsLabel: string;
+    sql: string;
+    params: Record<string, any>;
+}
+
+interface PageResult {
+    total: number;
+    columns: string[];
+    rows: Record<string, any>[];
+}
+
+const LAST_VALUES_KEY = 'magicApi.sql.lastParams';
+
+// 查找 #{name} 与 :name 占位符（跳过字符串字面量与 :: 类型转换）
+export function extractPlaceholders(sql: string): Array<{ name: string; start: number; end: number }> {
+    const masked = sql.replace(/'(?:''|[^'])*'/g, m => ' '.repeat(m.length));
+    const regex = /#\{\s*([A-Za-z_][\w.]*)\s*\}|(?<![:\w]):([A-Za-z_]\w*)/g;
+    const result: Array<{ name: string; start: number; end: number }> = [];
+    let m: RegExpExecArray | null;
+    while ((m = regex.exec(masked)) !== null) {
+        result.push({ name: m[1] || m[2], start: m.index, end: m.index + m[0].length });
+    }
+    return result;
+}
+
+// 只读语句：去掉注释与字符串后只有一条语句，以查询关键字开头，且不包含写入或加锁关键字
+export function isReadOnlySql(sql: string): boolean {
+    const masked = sql
+        .replace(/--[^\n]*|\/\*[\s\S]*?\*\/|'(?:''|[^'])*'|"(?:""|[^"])*"|`[^`]*`/g, ' ')
+        .trim()
+        .replace(/;\s*$/, '');
+    if (masked.includes(';')) return false;
+    if (!/^(select|with|show|desc|describe|explain)\b/i.test(masked)) return false;
+    return !/\b(insert|update|delete|merge|upsert|into|drop|alter|create|truncate|grant|revoke|call|exec|execute|lock)\b/i.test(masked);
+}
+
+// 输入框中的值：数字、布尔与 null 按字面量处理，其余为字符串
+function parseParamValue(raw: string): any {
+    const text = raw.trim();
+    if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+    if (text === 'true' || text === 'false') return text === 'true';
+    if (text === 'null') return null;
+    return raw;
+}
+
+export function toCsv(columns: string[], rows: Record<string, any>[]): string {
+    const cell = (v: any) => {
+        if (v === null || v === undefined) return '';
+        const s = typeof v === 'object' ? JSON.stringify(v) : String(v);
+        return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+    };
+    return [columns.map(cell).join(','), ...rows.map(r => columns.map(c => cell(r[c])).join(','))].join('\r\n');
+}
+
+// 分页结果的字段名取决于服务端配置，按常见命名读取
+function toPageResult(data: any): PageResult {
+    const rows: Record<string, any>[] = Array.isArray(data) ? data : (data?.list ?? data?.records ?? data?.rows ?? data?.data ?? []);
+    const total = Number(data?.total ?? data?.totalCount ?? rows.length);
+    const columns: string[] = [];
+    for (const row of rows) {
+        for (const key of Object.keys(row || {})) if (!columns.includes(key)) columns.push(key);
+    }
+    return { total, columns, rows };
+}
+
+async function fetchPage(context: vscode.ExtensionContext, run: SqlRun, offset: number, limit: number): Promise<PageResult> {
+    const data = await DbHelper.forClient(context, run.client).call({
+        action: 'page', datasource: run.dsKey || undefined, sql: run.sql, params: run.params, offset, limit,
+    });
+    if (data === null) throw new Error('已取消');
+    return toPageResult(data);
+}
+
+// SQL 结果面板：分页浏览与导出 CSV，多次执行复用同一面板
+export class SqlResultPanel {
+    private static current?: SqlResultPanel;
+    private disposables: vscode.Disposable[] = [];
+    private run?: SqlRun;
+    private offset = 0;
+
+    private constructor(private panel: vscode.WebviewPanel, private context: vscode.ExtensionContext) {
+        this.panel.webview.html = this.getHtml();
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        this.panel.webview.onDidReceiveMessage((msg) => this.onMessage(msg), null, this.disposables);
+    }
+
+    public static show(context: vscode.ExtensionContext, run: SqlRun): void {
+        if (!SqlResultPanel.current) {
+            const panel = vscode.window.createWebviewPanel(
+                'magicApi.sqlResult',
+                'SQL 结果',
+                { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+                { enableScripts: true, retainContextWhenHidden: true }
+            );
+            SqlResultPanel.current = new SqlResultPanel(panel, context);
+        } else {
+            SqlResultPanel.current.panel.reveal(vscode.ViewColumn.Beside, true);
+        }
+        SqlResultPanel.current.start(run);
+    }
+
+    private get pageSize(): number {
+        return Math.max(1, vscode.workspace.getConfiguration('magicApi').get<number>('sql.pageSize', 100));
+    }
+
+    private start(run: SqlRun): void {
+        this.run = run;
+        this.panel.title = `SQL 结果: ${run.dsLabel}`;
+        this.loadPage(0);
+    }
+
+    private async loadPage(offset: number): Promise<void> {
+        const run = this.run;
+        if (!run) return;
+        this.post({ type: 'loading', sql: run.sql, datasource: run.dsLabel });
+        const started = Date.now();
+        try {
+            const page = await fetchPage(this.context, run, offset, this.pageSize);
+            if (run !== this.run) return;
+            this.offset = offset;
+            this.post({ type: 'result', ...page, offset, pageSize: this.pageSize, durationMs: Date.now() - started });
+        } catch (e) {
+            if (run !== this.run) return;
+            this.post({ type: 'error', message: String((e as any)?.message || e) });
+        }
+    }
+
+    private async onMessage(msg: any): Promise<void> {
+        if (msg?.type === 'page') {
+            await this.loadPage(Math.max(0, Number(msg.offset) || 0));
+        } else if (msg?.type === 'rerun') {
+            await this.loadPage(this.offset);
+        } else if (msg?.type === 'export') {
+            await this.exportCsv(!!msg.all, msg.columns || [], msg.rows || []);
+        }
+    }
+
+    // 导出 CSV：当前页直接使用面板中的数据，全部结果按 1000 行分批拉取
+    private async exportCsv(all: boolean, columns: string[], rows: Record<string, any>[]): Promise<void> {
+        const run = this.run;
+        if (!run) return;
+        const target = await vscode.window.showSaveDialog({ filters: { CSV: ['csv'] }, saveLabel: '导出' });
+        if (!target) return;
+        try {
+            if (all) {
+                rows = [];
+                columns = [];
+                const completed = await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: '导出 CSV', cancellable: true }, async (progress, token) => {
+                    for (let offset = 0; ; offset += 1000) {
+                        if (token.isCancellationRequested) return false;
+                        const page = await fetchPage(this.context, run, offset, 1000);
+                        rows.push(...page.rows);
+                        for (const c of page.columns) if (!columns.includes(c)) columns.push(c);
+                        progress.report({ message: `${rows.length} / ${page.total}` });
+                        if (page.rows.length < 1000 || rows.length >= page.total) return true;
+                    }
+                });
+                if (!completed) return;
+            }
+            // 带 BOM 便于 Excel 正确识别中文
+            await vscode.workspace.fs.writeFile(target, Buffer.from('\ufeff' + toCsv(columns, rows), 'utf8'));
+            vscode.window.showInformationMessage(`已导出 ${rows.length} 行到 ${target.fsPath}`);
+        } catch (e) {
+            vscode.window.showErrorMessage(`导出 CSV 失败: ${String((e as any)?.message || e)}`);
+        }
+    }
+
+    private post(msg: any): void {
+        this.panel.webview.postMessage(msg);
+    }
+
+    private getHtml(): string {
+        const nonce = getNonce();
+        return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 8px 12px; }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 10px; cursor: pointer; }
+    button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+    button:disabled { opacity: 0.5; cursor: default; }
+    pre { background: var(--vscode-textCodeBlock-background); padding: 6px 8px; max-height: 120px; overflow: auto; font-family: var(--vscode-editor-font-family); white-space: pre-wrap; }
+    .toolbar { display: flex; gap: 6px; align-items: center; margin: 6px 0; }
+    .grid { overflow: auto; max-height: calc(100vh - 220px); border: 1px solid var(--vscode-panel-border); }
+    table { border-collapse: collapse; font-family: var(--vscode-editor-font-family); }
+    th, td { border: 1px solid var(--vscode-panel-border); padding: 2px 6px; white-space: nowrap; max-width: 360px; overflow: hidden; text-overflow: ellipsis; text-align: left; }
+    th { position: sticky; top: 0; background: var(--vscode-editor-background); cursor: pointer; }
+    td.num { text-align: right; color: var(--vscode-descriptionForeground); }
+    td.null { color: var(--vscode-descriptionForeground); font-style: italic; }
+    .muted { color: var(--vscode-descriptionForeground); }
+    .error { color: var(--vscode-errorForeground); white-space: pre-wrap; }
+</style>
+</head>
+<body>
+    <div class="muted" id="datasource"></div>
+    <pre id="sql"></pre>
+    <div class="toolbar">
+        <button id="first" class="secondary">«</button>
+        <button id="prev" class="secondary">‹</button>
+        <span id="pageInfo" class="muted"></span>
+        <button id="next" class="secondary">›</button>
+        <button id="last" class="secondary">»</button>
+        <span style="flex: 1"></span>
+        <button id="rerun" class="secondary">重新执行</button>
+        <button id="exportPage" class="secondary">导出当前页</button>
+        <button id="exportAll">导出全部</button>
+    </div>
+    <div id="status" class="muted"></div>
+    <div class="grid"><table id="grid"></table></div>
+
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    let state = null;
+    let sort = null;
+    const $ = (id) => document.getElementById(id);
+
+    function setStatus(text, cls) {
+        $('status').textContent = text || '';
+        $('status').className = cls || 'muted';
+    }
+
+    function renderGrid() {
+        const table = $('grid');
+        table.innerHTML = '';
+        if (!state) return;
+        const rows = state.rows.slice();
+        if (sort) {
+            rows.sort((a, b) => {
+                const x = a[sort.column], y = b[sort.column];
+                if (x === y) return 0;
+                if (x === null || x === undefined) return 1;
+                if (y === null || y === undefined) return -1;
+                return (x > y ? 1 : -1) * sort.dir;
+            });
+        }
+        const head = document.createElement('tr');
+        const idx = document.createElement('th');
+        idx.textContent = '#';
+        head.appendChild(idx);
+        state.columns.forEach(c => {
+            const th = document.createElement('th');
+            th.textContent = c + (sort && sort.column === c ? (sort.dir > 0 ? ' ▲' : ' ▼') : '');
+            th.title = '点击排序当前页';
+            th.onclick = () => {
+                sort = sort && sort.column === c ? (sort.dir > 0 ? { column: c, dir: -1 } : null) : { column: c, dir: 1 };
+                renderGrid();
+            };
+            head.appendChild(th);
+        });
+        table.appendChild(head);
+        rows.forEach((row, i) => {
+            const tr = document.createElement('tr');
+            const num = document.createElement('td');
+            num.className = 'num';
+            num.textContent = String(state.offset + i + 1);
+            tr.appendChild(num);
+            state.columns.forEach(c => {
+                const td = document.createElement('td');
+                const v = row[c];
+                if (v === null || v === undefined) {
+                    td.textContent = 'NULL';
+                    td.className = 'null';
+                } else {
+                    td.textContent = typeof v === 'object' ? JSON.stringify(v) : String(v);
+                    td.title = td.textContent;
+                }
+                tr.appendChild(td);
+            });
+            table.appendChild(tr);
+        });
+    }
+
+    function updatePager() {
+        const hasState = !!state;
+        const offset = hasState ? state.offset : 0;
+        const size = hasState ? state.pageSize : 1;
+        const total = hasState ? state.total : 0;
+        const lastOffset = Math.max(0, Math.floor((total - 1) / size) * size);
+        $('first').disabled = $('prev').disabled = !hasState || offset <= 0;
+        $('next').disabled = $('last').disabled = !hasState || offset + size >= total;
+        $('exportPage').disabled = $('exportAll').disabled = !hasState || state.rows.length === 0;
+        $('pageInfo').textContent = hasState
+            ? (total ? (offset + 1) + '-' + Math.min(offset + state.rows.length, total) + ' / 共 ' + total + ' 行' : '无数据')
+            : '';
+        $('first').onclick = () => vscode.postMessage({ type: 'page', offset: 0 });
+        $('prev').onclick = () => vscode.postMessage({ type: 'page', offset: Math.max(0, offset - size) });
+        $('next').onclick = () => vscode.postMessage({ type: 'page', offset: offset + size });
+        $('last').onclick = () => vscode.postMessage({ type: 'page', offset: lastOffset });
+    }
+
+    $('rerun').onclick = () => vscode.postMessage({ type: 'rerun' });
+    $('exportPage').onclick = () => vscode.postMessage({ type: 'export', all: false, columns: state.columns, rows: state.rows });
+    $('exportAll').onclick = () => vscode.postMessage({ type: 'export', all: true });
+
+    window.addEventListener('message', (event) => {
+        const msg = event.data;
+        if (msg.type === 'loading') {
+            $('datasource').textContent = '数据源: ' + msg.datasource;
+            $('sql').textContent = msg.sql;
+            setStatus('执行中...');
+        } else if (msg.type === 'result') {
+            state = msg;
+            sort = null;
+            setStatus('耗时 ' + msg.durationMs + ' ms');
+            renderGrid();
+            updatePager();
+        } else if (msg.type === 'error') {
+            state = null;
+            renderGrid();
+            updatePager();
+            setStatus(msg.message, 'error');
+        }
+    });
+    updatePager();
+</script>
+</body>
+</html>`;
+    }
+
+    private dispose(): void {
+        SqlResultPanel.current = undefined;
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
+
+// 注册「执行 SQL」命令：选中内容或光标所在的三引号 SQL 块
+export function registerSqlRunner(context: vscode.ExtensionContext, serverManager: ServerManager): void {
+    const index = DataSourceKeyIndex.getInstance(context);
+
+    // 依次输入占位符的值，并记住上次输入
+    const promptParams = async (names: string[]): Promise<Record<string, any> | null> => {
+        const last = context.workspaceState.get<Record<string, string>>(LAST_VALUES_KEY) || {};
+        const values: Record<string, any> = {};
+        for (const name of names) {
+            const raw = await vscode.window.showInputBox({
+                title: `参数 ${name}`,
+                prompt: '数字、true/false 与 null 按字面量传递，其余作为字符串',
+                value: last[name] ?? '',
+                ignoreFocusOut: true,
+            });
+            if (raw === undefined) return null;
+            last[name] = raw;
+            values[name] = parseParamValue(raw);
+        }
+        await context.workspaceState.update(LAST_VALUES_KEY, last);
+        return values;
+    };
+
+    const pickDataSource = async (client: MagicApiClient): Promise<{ key: string; label: string } | undefined> => {
+        const list = await client.listDataSources().catch(() => []);
+        if (list.length === 0) return { key: '', label: '默认数据源' };
+        const picked = await vscode.window.showQuickPick(
+            [{ label: '默认数据源', description: 'db', key: '' }, ...list.map(ds => ({ label: ds.name, description: `db.${ds.key}`, key: ds.key }))],
+            { placeHolder: '选择执行 SQL 的数据源' }
+        );
+        return picked ? { key: picked.key, label: picked.label } : undefined;
+    };
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('magicApi.runSql', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) return;
+            const doc = editor.document;
+            const ctx = findSqlContext(doc, editor.selection.start);
+            const sql = (editor.selection.isEmpty ? ctx?.sql : doc.getText(editor.selection))?.trim();
+            if (!sql) {
+                vscode.window.showErrorMessage('请选中 SQL，或将光标放在 """ SQL 块中');
+                return;
+            }
+            if (!isReadOnlySql(sql)) {
+                vscode.window.showErrorMessage('「执行 SQL」仅支持单条查询语句（select、with、show、desc、explain），修改数据请在脚本中执行');
+                return;
+            }
+            const client = (await index.resolveClient(doc.uri))?.client || serverManager.getCurrentClient();
+            if (!client) {
+                vscode.window.showErrorMessage('请先选择服务器');
+                return;
+            }
+            // db.<key>.xxx(...) 中的 SQL 直接使用对应数据源，否则让用户选择
+            let ds: { key: string; label: string } | undefined = ctx?.dsKey ? { key: ctx.dsKey, label: `db.${ctx.dsKey}` } : undefined;
+            if (!ds) ds = await pickDataSource(client);
+            if (!ds) return;
+
+            // 占位符统一改写为 #{params.pN}，与辅助接口中的 params 变量对应
+            const placeholders = extractPlaceholders(sql);
+            const names = [...new Set(placeholders.map(p => p.name))];
+            const values = await promptParams(names);
+            if (!values) return;
+            const params: Record<string, any> = {};
+            let rewritten = '';
+            let cursor = 0;
+            for (const p of placeholders) {
+                const key = `p${names.indexOf(p.name)}`;
+                params[key] = values[p.name];
+                rewritten += sql.slice(cursor, p.start) + `#{params.${key}}`;
+                cursor = p.end;
+            }
+            rewritten += sql.slice(cursor);
+
+            const run: SqlRun = { client, dsKey: ds.key, dsLabel: ds.label, sql: rewritten, params };
+            SqlResultPanel.show(context, run);
+        }),
+    );
+}
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { MagicFileInfo } from './magicFileSystemProvider';
+import { lockOwnerLabel } from './types';
 import { ServerManager } from './serverManager';
 
 export class StatusBarManager {
@@ -156,8 +157,8 @@ export class StatusBarManager {
         // 锁定状态
         if (fileInfo.locked) {
             items.push({
-                text: `$(lock) 已锁定`,
-                tooltip: '文件已被锁定',
+                text: `$(lock) ${lockOwnerLabel(fileInfo.lockedBy)} 已锁定`,
+                tooltip: `文件已被 ${lockOwnerLabel(fileInfo.lockedBy)} 锁定`,
                 priority: 84
             });
         }
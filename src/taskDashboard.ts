@@ -0,0 +1,186 @@
+import * as vscode from 'vscode';
+import { MagicFileInfo } from './magicFileSystemProvider';
+import { ServerManager } from './serverManager';
+import { ServerExplorerNode } from './serverExplorer';
+import { describeCron, formatRelative, nextFireTimes, parseCron, validateCron } from './cron';
+import { debug } from './logger';
+
+interface TaskEntry {
+    file: MagicFileInfo;
+    typedPath: string;
+    cronError?: string;
+    next: Date[]; // 未启用或表达式无效时为空
+}
+
+export type TaskNode =
+    | { kind: 'task'; task: TaskEntry }
+    | { kind: 'fire'; task: TaskEntry; time: Date; index: number };
+
+const NEXT_COUNT = 5;
+
+// 定时任务视图：当前服务器上的全部任务，按下次执行时间排序
+export class TaskDashboardProvider implements vscode.TreeDataProvider<TaskNode> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<TaskNode | undefined>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(private serverManager: ServerManager) {}
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    private toEntry(file: MagicFileInfo, typedPath: string): TaskEntry {
+        const entry: TaskEntry = { file, typedPath, next: [] };
+        if (!file.cron) {
+            entry.cronError = '未设置 cron 表达式';
+            return entry;
+        }
+        const error = validateCron(file.cron);
+        if (error) {
+            entry.cronError = error.message;
+        } else if (file.enabled !== false) {
+            entry.next = nextFireTimes(parseCron(file.cron), NEXT_COUNT);
+        }
+        return entry;
+    }
+
+    getTreeItem(node: TaskNode): vscode.TreeItem {
+        if (node.kind === 'fire') {
+            const item = new vscode.TreeItem(node.time.toLocaleString(), vscode.TreeItemCollapsibleState.None);
+            item.id = `fire:${node.task.file.id}:${node.index}`;
+            item.description = formatRelative(node.time);
+            item.iconPath = new vscode.ThemeIcon('debug-stackframe-dot');
+            return item;
+        }
+        const { file, next, cronError } = node.task;
+        const enabled = file.enabled !== false;
+        const item = new vscode.TreeItem(file.name, next.length ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+        item.id = `task:${file.id}`;
+        item.description = [file.cron || '', !enabled ? '已停用' : next[0] ? formatRelative(next[0]) : ''].filter(Boolean).join(' · ');
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**${file.name}**\n\n`);
+        tooltip.appendMarkdown(`路径: \`${node.task.typedPath}\`\n\n`);
+        if (file.description) tooltip.appendMarkdown(`${file.description}\n\n`);
+        tooltip.appendMarkdown(`cron: \`${file.cron || '-'}\`${file.cron && !cronError ? `（${describeCron(parseCron(file.cron))}）` : ''}\n\n`);
+        tooltip.appendMarkdown(`状态: ${enabled ? '已启用' : '已停用'}${file.executeOnStart ? '，启动时执行' : ''}\n\n`);
+        if (cronError) tooltip.appendMarkdown(`$(warning) ${cronError}\n\n`);
+        if (next.length) tooltip.appendMarkdown(`下次执行:\n\n${next.map(d => `- ${d.toLocaleString()}`).join('\n')}`);
+        tooltip.supportThemeIcons = true;
+        item.tooltip = tooltip;
+        item.iconPath = new vscode.ThemeIcon(cronError ? 'warning' : enabled ? 'clock' : 'circle-slash');
+        item.contextValue = `magicTask.${enabled ? 'enabled' : 'disabled'}${file.locked ? '.locked' : ''}`;
+        item.command = { command: 'magicApi.task.open', title: '打开', arguments: [node] };
+        return item;
+    }
+
+    async getChildren(node?: TaskNode): Promise<TaskNode[]> {
+        if (node) {
+            return node.kind === 'task' ? node.task.next.map((time, index) => ({ kind: 'fire', task: node.task, time, index })) : [];
+        }
+        const client = this.serverManager.getCurrentClient();
+        if (!client) return [];
+        try {
+            const snapshot = await client.getResourceTree();
+            const tasks: TaskEntry[] = [];
+            // 按分组批量读取，避免逐个任务遍历分组
+            const groupIds = new Set<string | null>();
+            for (const entry of snapshot.byPath.values()) {
+                if (entry.type === 'task' && !entry.isGroup) groupIds.add(entry.parentId || null);
+            }
+            for (const groupId of groupIds) {
+                for (const file of await client.getFiles('task', groupId)) {
+                    const typedPath = snapshot.byId.get(file.id)?.typedPath || `${file.groupPath}/${file.name}.ms`;
+                    tasks.push(this.toEntry(file, typedPath));
+                }
+            }
+            // 有下次执行时间的排在前面，其余按路径排序
+            tasks.sort((a, b) => {
+                const x = a.next[0]?.getTime() ?? Infinity;
+                const y = b.next[0]?.getTime() ?? Infinity;
+                return x !== y ? x - y : a.typedPath.localeCompare(b.typedPath);
+            });
+            return tasks.map(task => ({ kind: 'task', task }));
+        } catch (e) {
+            debug(`读取定时任务失败: ${String((e as any)?.message || e)}`);
+            return [];
+        }
+    }
+}
+
+// 注册定时任务视图与启用/停用、立即执行命令
+export function registerTaskDashboard(context: vscode.ExtensionContext, serverManager: ServerManager): TaskDashboardProvider {
+    const provider = new TaskDashboardProvider(serverManager);
+    const view = vscode.window.createTreeView('magicApiTasks', { treeDataProvider: provider });
+
+    // 视图可见时每分钟刷新一次相对时间
+    let timer: NodeJS.Timeout | undefined;
+    const updateTimer = () => {
+        if (timer) clearInterval(timer);
+        timer = view.visible ? setInterval(() => provider.refresh(), 60 * 1000) : undefined;
+    };
+
+    const setEnabled = async (node: TaskNode | undefined, enabled: boolean) => {
+        if (node?.kind !== 'task') return;
+        const client = serverManager.getCurrentClient();
+        if (!client) return;
+        const file = node.task.file;
+        try {
+            const info = await client.getFile(file.id);
+            if (!info) throw new Error('任务不存在');
+            if (info.locked) throw new Error('任务已锁定');
+            if (!(await client.saveFile({ ...info, enabled }))) throw new Error('服务器保存失败');
+            vscode.window.showInformationMessage(`${file.name} 已${enabled ? '启用' : '停用'}`);
+            provider.refresh();
+            vscode.commands.executeCommand('magicApi.explorer.refresh');
+        } catch (e) {
+            vscode.window.showErrorMessage(`${enabled ? '启用' : '停用'}任务失败: ${String((e as any)?.message || e)}`);
+        }
+    };
+
+    context.subscriptions.push(
+        view,
+        view.onDidChangeVisibility(updateTimer),
+        { dispose: () => { if (timer) clearInterval(timer); } },
+        serverManager.onServerChanged(() => provider.refresh()),
+
+        vscode.commands.registerCommand('magicApi.task.refresh', () => {
+            serverManager.getCurrentClient()?.invalidateResourceTree();
+            provider.refresh();
+        }),
+
+        vscode.commands.registerCommand('magicApi.task.open', async (node?: TaskNode) => {
+            const current = serverManager.getCurrentServer();
+            if (node?.kind !== 'task' || !current) return;
+            const explorerNode: ServerExplorerNode = { kind: 'file', serverId: current.id, type: 'task', file: node.task.file, typedPath: node.task.typedPath };
+            await vscode.commands.executeCommand('magicApi.explorer.open', explorerNode);
+        }),
+
+        vscode.commands.registerCommand('magicApi.task.enable', (node?: TaskNode) => setEnabled(node, true)),
+        vscode.commands.registerCommand('magicApi.task.disable', (node?: TaskNode) => setEnabled(node, false)),
+
+        vscode.commands.registerCommand('magicApi.task.run', async (node?: TaskNode) => {
+            if (node?.kind !== 'task') return;
+            const client = serverManager.getCurrentClient();
+            if (!client) return;
+            const name = node.task.file.name;
+            const confirm = await vscode.window.showWarningMessage(`立即在服务器上执行任务「${name}」？`, { modal: true }, '执行');
+            if (confirm !== '执行') return;
+            try {
+                const result = await vscode.window.withProgress(
+                    { location: vscode.ProgressLocation.Notification, title: `执行任务 ${name}` },
+                    () => client.executeTask(node.task.file.id)
+                );
+                if (!result.ok) {
+                    vscode.window.showErrorMessage(`执行任务失败: ${result.message || '未知错误'}`);
+                    return;
+                }
+                const output = result.data === undefined || result.data === null ? '' : typeof result.data === 'object' ? JSON.stringify(result.data) : String(result.data);
+                vscode.window.showInformationMessage(`任务「${name}」执行完成${output ? `: ${output.length > 200 ? output.slice(0, 200) + '…' : output}` : ''}`);
+            } catch (e) {
+                vscode.window.showErrorMessage(`执行任务失败: ${String((e as any)?.message || e)}`);
+            }
+        }),
+    );
+    updateTimer();
+    return provider;
+}
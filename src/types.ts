@@ -9,4 +9,11 @@ export type MagicResourceType = typeof MAGIC_RESOURCE_TYPES[number];
 
 export function isMagicResourceType(value: string): value is MagicResourceType {
     return (MAGIC_RESOURCE_TYPES as readonly string[]).includes(value);
-}
\ No newline at end of file
+}
+// 请求示例集合文件后缀：与镜像脚本同目录，例如 user/get.ms -> user/get.ms.requests.json
+export const REQUEST_COLLECTION_SUFFIX = '.ms.requests.json';
+
+// 锁定人显示名称：服务端未返回锁定人时显示为未知用户
+export function lockOwnerLabel(lockedBy?: string): string {
+    return lockedBy || '未知用户';
+}
@@ -0,0 +1,274 @@
+import * as vscode from 'vscode';
+import { MagicApiClient, MagicBackupRecord } from './magicApiClient';
+import { MirrorWorkspaceManager } from './mirrorWorkspaceManager';
+import { ServerManager } from './serverManager';
+import { ServerExplorerNode } from './serverExplorer';
+import { MagicFileSystemProvider } from './magicFileSystemProvider';
+import { toSaveFields } from './serverCompare';
+import { MagicResourceType } from './types';
+
+// 历史版本的目标文件：客户端可能来自服务器配置或镜像工作区
+export interface HistoryTarget {
+    key: string; // 客户端缓存键，写入 magic-api-history: URI
+    client: MagicApiClient;
+    fileId: string;
+    typedPath: string;
+    uri: vscode.Uri; // 当前副本（magic-api:、镜像 .ms，或非当前服务器时的 magic-api-history:?ts=current）
+    mirrorRoot?: vscode.Uri;
+}
+
+// 备份内容格式：元数据 JSON + 分隔线 + 脚本
+const BACKUP_SEPARATOR = /\r?\n={16,}\r?\n/;
+
+export function parseBackupContent(raw: string): { meta: Record<string, any> | null; script: string } {
+    const m = BACKUP_SEPARATOR.exec(raw);
+    if (!m) return { meta: null, script: raw };
+    let meta: Record<string, any> | null = null;
+    try { meta = JSON.parse(raw.slice(0, m.index)); } catch {}
+    return { meta, script: raw.slice(m.index + m[0].length) };
+}
+
+export function formatBackupTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleString();
+}
+
+// magic-api-history: 只读文档，内容按需从服务端备份接口读取
+export class HistoryContentProvider implements vscode.TextDocumentContentProvider {
+    public static readonly scheme = 'magic-api-history';
+    private static instance: HistoryContentProvider;
+    private clients = new Map<string, MagicApiClient>();
+    private cache = new Map<string, string>();
+
+    public static getInstance(): HistoryContentProvider {
+        if (!HistoryContentProvider.instance) {
+            HistoryContentProvider.instance = new HistoryContentProvider();
+        }
+        return HistoryContentProvider.instance;
+    }
+
+    registerClient(key: string, client: MagicApiClient): void {
+        this.clients.set(key, client);
+    }
+
+    getClient(key: string): MagicApiClient | undefined {
+        return this.clients.get(key);
+    }
+
+    // ts 为 current 时表示服务器上的最新内容
+    createUri(target: HistoryTarget, timestamp: number | 'current'): vscode.Uri {
+        this.registerClient(target.key, target.client);
+        const query = new URLSearchParams({ key: target.key, id: target.fileId, ts: String(timestamp) }).toString();
+        return vscode.Uri.from({ scheme: HistoryContentProvider.scheme, path: `/${target.typedPath}`, query });
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const params = new URLSearchParams(uri.query);
+        const ts = params.get('ts') || '';
+        const cached = ts !== 'current' ? this.cache.get(uri.toString()) : undefined;
+        if (cached !== undefined) return cached;
+        const client = this.clients.get(params.get('key') || '');
+        const id = params.get('id') || '';
+        if (!client || !id) return '';
+        if (ts === 'current') {
+            return (await client.getFile(id))?.script || '';
+        }
+        const raw = await client.getBackupContent(id, Number(ts));
+        const script = raw === null ? '' : parseBackupContent(raw).script;
+        this.cache.set(uri.toString(), script);
+        return script;
+    }
+}
+
+// 解析历史版本的目标：资源视图文件节点、magic-api: 文档或镜像工作区中的 .ms 文件
+export async function resolveHistoryTarget(context: vscode.ExtensionContext, target?: ServerExplorerNode | vscode.Uri, silent: boolean = false): Promise<HistoryTarget | null> {
+    const serverManager = ServerManager.getInstance();
+    const fail = (message: string) => {
+        if (!silent) vscode.window.showErrorMessage(message);
+        return null;
+    };
+
+    if (target && !(target instanceof vscode.Uri)) {
+        if (target.kind !== 'file') return fail('请选择文件');
+        const client = serverManager.getClient(target.serverId);
+        if (!client) return null;
+        const result: HistoryTarget = { key: `server:${target.serverId}`, client, fileId: target.file.id, typedPath: target.typedPath, uri: vscode.Uri.parse(`magic-api:/${target.typedPath}`) };
+        // 虚拟文件系统只绑定当前服务器，其他服务器用服务端最新内容作为比较对象
+        if (serverManager.getCurrentServer()?.id !== target.serverId) {
+            result.uri = HistoryContentProvider.getInstance().createUri(result, 'current');
+        }
+        return result;
+    }
+
+    const uri = target instanceof vscode.Uri ? target : vscode.window.activeTextEditor?.document.uri;
+    if (!uri || !uri.path.endsWith('.ms')) return fail('请在 Magic Script (.ms) 文件中执行');
+
+    if (uri.scheme === 'magic-api') {
+        const current = serverManager.getCurrentServer();
+        const client = serverManager.getCurrentClient();
+        if (!current || !client) return fail('请先选择服务器');
+        const typedPath = uri.path.replace(/^\/+/, '');
+        const fileId = await client.resolveFileIdByPath(typedPath);
+        if (!fileId) return fail('无法获取当前文件信息');
+        return { key: `server:${current.id}`, client, fileId, typedPath, uri };
+    }
+
+    if (uri.scheme === 'file') {
+        const mirrorManager = MirrorWorkspaceManager.getInstance(context);
+        const local = await mirrorManager.readMirrorFileMeta(uri);
+        if (!local) return fail('当前文件不在镜像工作区中');
+        if (!local.meta?.id) return fail('该文件尚未同步到服务器，没有历史版本');
+        const key = `mirror:${local.root.toString()}`;
+        const provider = HistoryContentProvider.getInstance();
+        let client = provider.getClient(key);
+        if (!client) {
+            const cfg = await mirrorManager.resolveMirrorServerConfig(await mirrorManager.loadMirrorMeta(local.root));
+            if (!cfg) return fail('无法解析镜像工作区的服务器配置');
+            client = new MagicApiClient(cfg);
+            provider.registerClient(key, client);
+        }
+        const typedPath = `${local.type}${local.groupPathSub ? '/' + local.groupPathSub : ''}/${local.fileName}.ms`;
+        return { key, client, fileId: local.meta.id, typedPath, uri, mirrorRoot: local.root };
+    }
+
+    return fail('不支持的文件类型');
+}
+
+// 以文本替换文档内容并保存，触发已有的保存流程（虚拟文件系统 / 镜像推送）
+async function replaceAndSave(uri: vscode.Uri, text: string): Promise<boolean> {
+    const doc = await vscode.workspace.openTextDocument(uri);
+    if (doc.getText() === text && !doc.isDirty) return true;
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(uri, new vscode.Range(doc.positionAt(0), doc.positionAt(doc.getText().length)), text);
+    return (await vscode.workspace.applyEdit(edit)) && (await doc.save());
+}
+
+function hasChanges(fields: Record<string, any>, current: Record<string, any> | null | undefined): boolean {
+    return Object.keys(fields).some(key => JSON.stringify(fields[key]) !== JSON.stringify(current?.[key]));
+}
+
+// 以历史版本替换当前脚本与接口定义（请求方法、路径、参数等）
+export async function restoreHistoryVersion(context: vscode.ExtensionContext, target: HistoryTarget, record: MagicBackupRecord, fileSystemProvider?: MagicFileSystemProvider): Promise<boolean> {
+    const raw = await target.client.getBackupContent(target.fileId, record.timestamp);
+    if (raw === null) {
+        vscode.window.showErrorMessage('读取历史版本失败');
+        return false;
+    }
+    const { meta, script } = parseBackupContent(raw);
+    const type = target.typedPath.split('/')[0] as MagicResourceType;
+    // 备份中缺失的字段保持当前值
+    const fields = Object.fromEntries(Object.entries(toSaveFields(type, meta)).filter(([, v]) => v !== undefined));
+    const mirrorManager = MirrorWorkspaceManager.getInstance(context);
+    const pushDirectly = target.uri.scheme === HistoryContentProvider.scheme
+        || (!!target.mirrorRoot && !mirrorManager.isMirrorRootConnected(target.mirrorRoot));
+
+    if (target.mirrorRoot) {
+        // 镜像：先写入本地元数据，再保存 .ms 使脚本与元数据一起推送；脚本未变化时保存 .meta.json 触发推送
+        const local = await mirrorManager.readMirrorFileMeta(target.uri);
+        const metaChanged = !!local?.meta && hasChanges(fields, local.meta);
+        const doc = await vscode.workspace.openTextDocument(target.uri);
+        const scriptChanged = doc.isDirty || doc.getText() !== script;
+        if (scriptChanged || pushDirectly) {
+            if (metaChanged) await mirrorManager.mergeMirrorFileMeta(target.uri, fields);
+            if (!(await replaceAndSave(target.uri, script))) return false;
+        } else if (metaChanged && !(await replaceAndSave(local!.metaUri, JSON.stringify({ ...local!.meta, ...fields }, null, 2)))) {
+            return false;
+        }
+    } else if (!pushDirectly) {
+        // 当前服务器：先保存元数据并记录新的读取版本，再通过虚拟文件系统保存脚本
+        const info = await target.client.getFile(target.fileId);
+        if (!info) return false;
+        if (hasChanges(fields, info)) {
+            if (!(await target.client.saveFile({ ...info, ...fields }))) return false;
+            const fresh = await target.client.getFile(target.fileId);
+            fileSystemProvider?.markRead(target.uri, fresh?.updateTime);
+        }
+        if (!(await replaceAndSave(target.uri, script))) return false;
+    }
+    // 非当前服务器或未连接的镜像：直接调用 saveFile
+    if (pushDirectly) {
+        const info = await target.client.getFile(target.fileId);
+        if (!info || !(await target.client.saveFile({ ...info, ...fields, script }))) return false;
+    }
+    return true;
+}
+
+// 注册「查看历史版本」命令与 magic-api-history: 文档提供器
+export function registerVersionHistory(context: vscode.ExtensionContext, fileSystemProvider: MagicFileSystemProvider): void {
+    const provider = HistoryContentProvider.getInstance();
+
+    const openVersion = async (target: HistoryTarget, record: MagicBackupRecord) => {
+        const doc = await vscode.workspace.openTextDocument(provider.createUri(target, record.timestamp));
+        await vscode.window.showTextDocument(doc, { preview: true });
+    };
+
+    const diffVersion = async (target: HistoryTarget, record: MagicBackupRecord) => {
+        const name = target.typedPath.split('/').pop();
+        await vscode.commands.executeCommand('vscode.diff', provider.createUri(target, record.timestamp), target.uri,
+            `${name} (${formatBackupTime(record.timestamp)}) ↔ 当前`, { preview: true });
+    };
+
+    const restoreVersion = async (target: HistoryTarget, record: MagicBackupRecord) => {
+        const confirm = await vscode.window.showWarningMessage(
+            `确定将 ${target.typedPath} 恢复到 ${formatBackupTime(record.timestamp)} 的版本？脚本与接口定义（请求方法、路径、参数等）都将被替换`,
+            { modal: true }, '恢复'
+        );
+        if (confirm !== '恢复') return;
+        try {
+            if (await restoreHistoryVersion(context, target, record, fileSystemProvider)) {
+                vscode.window.showInformationMessage(`已恢复到 ${formatBackupTime(record.timestamp)} 的版本`);
+            } else {
+                vscode.window.showErrorMessage('恢复历史版本失败');
+            }
+        } catch (e) {
+            vscode.window.showErrorMessage(`恢复历史版本失败: ${String((e as any)?.message || e)}`);
+        }
+    };
+
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(HistoryContentProvider.scheme, provider),
+
+        vscode.commands.registerCommand('magicApi.showHistory', async (arg?: ServerExplorerNode | vscode.Uri) => {
+            const target = await resolveHistoryTarget(context, arg);
+            if (!target) return;
+            let records: MagicBackupRecord[];
+            try {
+                records = await vscode.window.withProgress(
+                    { location: vscode.ProgressLocation.Window, title: '读取历史版本' },
+                    () => target.client.getBackupHistory(target.fileId)
+                );
+            } catch (e) {
+                vscode.window.showErrorMessage(`读取历史版本失败: ${String((e as any)?.message || e)}`);
+                return;
+            }
+            if (records.length === 0) {
+                vscode.window.showInformationMessage('服务器上没有该文件的备份记录');
+                return;
+            }
+
+            const openButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('go-to-file'), tooltip: '打开此版本' };
+            const restoreButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('discard'), tooltip: '恢复到此版本' };
+            const qp = vscode.window.createQuickPick<vscode.QuickPickItem & { record: MagicBackupRecord }>();
+            qp.title = `${target.typedPath} 的历史版本`;
+            qp.placeholder = '选择版本与当前内容比较，右侧按钮可打开或恢复该版本';
+            qp.items = records.map(record => ({
+                label: `$(history) ${formatBackupTime(record.timestamp)}`,
+                description: record.createBy,
+                detail: record.tag,
+                buttons: [openButton, restoreButton],
+                record,
+            }));
+            qp.onDidTriggerItemButton(async e => {
+                qp.hide();
+                if (e.button === openButton) await openVersion(target, e.item.record);
+                else await restoreVersion(target, e.item.record);
+            });
+            qp.onDidAccept(async () => {
+                const item = qp.selectedItems[0];
+                qp.hide();
+                if (item) await diffVersion(target, item.record);
+            });
+            qp.onDidHide(() => qp.dispose());
+            qp.show();
+        }),
+    );
+}
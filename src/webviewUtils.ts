@@ -0,0 +1,6 @@
+import { randomBytes } from 'crypto';
+
+// Webview 内容安全策略（script-src 'nonce-...'）使用的随机 nonce
+export function getNonce(): string {
+    return randomBytes(16).toString('base64');
+}
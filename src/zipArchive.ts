@@ -0,0 +1,132 @@
+import { Buffer } from 'buffer';
+import * as zlib from 'zlib';
+
+export interface ZipEntry {
+    path: string; // 使用 / 分隔的相对路径
+    data: Buffer;
+}
+
+// 最小 ZIP 读写实现（stored/deflate，UTF-8 文件名），满足资源备份包的导入导出
+const LOCAL_HEADER_SIG = 0x04034b50;
+const CENTRAL_HEADER_SIG = 0x02014b50;
+const END_OF_CENTRAL_SIG = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(data: Buffer): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+// DOS 日期时间格式
+function toDosTime(date: Date): { time: number; date: number } {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
+
+export function createZip(entries: ZipEntry[]): Buffer {
+    const chunks: Buffer[] = [];
+    const central: Buffer[] = [];
+    const now = toDosTime(new Date());
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.path.replace(/^\/+/, ''), 'utf8');
+        const deflated = zlib.deflateRawSync(entry.data);
+        // 压缩无收益时直接存储
+        const useDeflate = deflated.length < entry.data.length;
+        const body = useDeflate ? deflated : entry.data;
+        const crc = crc32(entry.data);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(LOCAL_HEADER_SIG, 0);
+        local.writeUInt16LE(20, 4);
+        local.writeUInt16LE(UTF8_FLAG, 6);
+        local.writeUInt16LE(useDeflate ? 8 : 0, 8);
+        local.writeUInt16LE(now.time, 10);
+        local.writeUInt16LE(now.date, 12);
+        local.writeUInt32LE(crc, 14);
+        local.writeUInt32LE(body.length, 18);
+        local.writeUInt32LE(entry.data.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        local.writeUInt16LE(0, 28);
+        chunks.push(local, name, body);
+
+        const header = Buffer.alloc(46);
+        header.writeUInt32LE(CENTRAL_HEADER_SIG, 0);
+        header.writeUInt16LE(20, 4);
+        header.writeUInt16LE(20, 6);
+        header.writeUInt16LE(UTF8_FLAG, 8);
+        header.writeUInt16LE(useDeflate ? 8 : 0, 10);
+        header.writeUInt16LE(now.time, 12);
+        header.writeUInt16LE(now.date, 14);
+        header.writeUInt32LE(crc, 16);
+        header.writeUInt32LE(body.length, 20);
+        header.writeUInt32LE(entry.data.length, 24);
+        header.writeUInt16LE(name.length, 28);
+        header.writeUInt32LE(offset, 42);
+        central.push(header, name);
+
+        offset += local.length + name.length + body.length;
+    }
+
+    const centralBuf = Buffer.concat(central);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_SIG, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralBuf.length, 12);
+    end.writeUInt32LE(offset, 16);
+    return Buffer.concat([...chunks, centralBuf, end]);
+}
+
+export function readZip(buffer: Buffer): ZipEntry[] {
+    // 自尾部查找中央目录结束记录（可能带注释）
+    let endOffset = -1;
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+        if (buffer.readUInt32LE(i) === END_OF_CENTRAL_SIG) {
+            endOffset = i;
+            break;
+        }
+    }
+    if (endOffset < 0) throw new Error('不是有效的 zip 文件');
+
+    const count = buffer.readUInt16LE(endOffset + 10);
+    let ptr = buffer.readUInt32LE(endOffset + 16);
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < count; i++) {
+        if (buffer.readUInt32LE(ptr) !== CENTRAL_HEADER_SIG) throw new Error('zip 中央目录损坏');
+        const method = buffer.readUInt16LE(ptr + 10);
+        const compressedSize = buffer.readUInt32LE(ptr + 20);
+        const nameLen = buffer.readUInt16LE(ptr + 28);
+        const extraLen = buffer.readUInt16LE(ptr + 30);
+        const commentLen = buffer.readUInt16LE(ptr + 32);
+        const localOffset = buffer.readUInt32LE(ptr + 42);
+        const name = buffer.slice(ptr + 46, ptr + 46 + nameLen).toString('utf8');
+        ptr += 46 + nameLen + extraLen + commentLen;
+
+        if (name.endsWith('/')) continue; // 目录条目
+        const localNameLen = buffer.readUInt16LE(localOffset + 26);
+        const localExtraLen = buffer.readUInt16LE(localOffset + 28);
+        const start = localOffset + 30 + localNameLen + localExtraLen;
+        const raw = buffer.slice(start, start + compressedSize);
+        let data: Buffer;
+        if (method === 0) data = Buffer.from(raw);
+        else if (method === 8) data = zlib.inflateRawSync(raw);
+        else throw new Error(`不支持的 zip 压缩方式: ${method}（${name}）`);
+        entries.push({ path: name.replace(/\\/g, '/'), data });
+    }
+    return entries;
+}